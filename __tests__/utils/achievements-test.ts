@@ -0,0 +1,53 @@
+import type { Exercise } from '../../app/utils/db';
+import { getAchievements, getNewAchievements } from '../../app/utils/achievements';
+import { linkToCatalog } from '../../app/utils/exercises';
+import { lift } from './fixtures';
+
+const rules = { restDays: [], weeklyGoal: 3 };
+
+const liftTitles = (logs: Exercise[]) =>
+  getAchievements(logs, rules, true)
+    .filter(achievement => achievement.id.startsWith('lift-'))
+    .map(achievement => achievement.title)
+    .sort();
+
+describe('getAchievements', () => {
+  it('unlocks each lift milestone once per lift', () => {
+    expect(liftTitles([lift('2026-03-01', 'Squat', [[100, 1]]), lift('2026-03-02', 'squat', [[105, 1]])])).toEqual([
+      'First 100kg Squat',
+      'First 60kg Squat',
+    ]);
+  });
+
+  it('shares milestones between spellings of the same catalog lift', () => {
+    const logs = [
+      lift('2026-03-01', 'Back Squat', [[60, 1]], { exercise_id: 4 }),
+      lift('2026-03-02', 'BS', [[60, 1]], { exercise_id: 4 }),
+    ];
+    expect(liftTitles(logs)).toEqual(['First 60kg Back Squat']);
+  });
+
+  it('counts a training day once however many lifts it has', () => {
+    const ids = getAchievements([lift('2026-03-01', 'Squat', [[20, 1]]), lift('2026-03-01', 'Bench', [[20, 1]])], rules, true)
+      .map(achievement => achievement.id);
+    expect(ids).toEqual(['workouts-1']);
+  });
+});
+
+describe('getNewAchievements', () => {
+  it('returns only what was just unlocked', () => {
+    const before = getAchievements([lift('2026-03-01', 'Squat', [[60, 1]])], rules, true);
+    const after = getAchievements([lift('2026-03-01', 'Squat', [[60, 1]]), lift('2026-03-02', 'Squat', [[100, 1]])], rules, true);
+    expect(getNewAchievements(before, after).map(achievement => achievement.title)).toEqual(['First 100kg Squat']);
+  });
+
+  it('announces nothing again for a typed name once it is linked like saved history', () => {
+    const catalog = [{ id: 4, name: 'Back Squat', aliases: ['BS'] }];
+    const history = [lift('2026-03-01', 'Back Squat', [[100, 1]], { exercise_id: 4, exercise_name: 'Back Squat' })];
+    const before = getAchievements(history, rules, true);
+    for (const typed of ['back squat', 'BS']) {
+      const entry = linkToCatalog(lift('2026-03-02', typed, [[105, 1]]), catalog);
+      expect(getNewAchievements(before, getAchievements([...history, entry], rules, true))).toEqual([]);
+    }
+  });
+});
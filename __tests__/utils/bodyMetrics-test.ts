@@ -0,0 +1,64 @@
+import type { BodyMetric } from '../../app/utils/db';
+import { getDayKey, parseDayKey } from '../../app/utils/dates';
+import {
+  formatMetricValue,
+  getLatestBodyweight,
+  getMetricSeries,
+  getMovingAverage,
+  getRelativeStrength,
+  getTrackedMetrics,
+} from '../../app/utils/bodyMetrics';
+
+const point = (day: string, value: number) => ({ date: parseDayKey(day), value });
+
+const entries: BodyMetric[] = [
+  { date: '2026-03-10', weight: 78, measurements: {} },
+  { date: '2026-03-01', weight: 80, measurements: {} },
+  { date: '2026-03-03', weight: 82, measurements: { waist: 85 } },
+  { date: '2026-03-12', body_fat: 15, measurements: {} },
+];
+
+describe('getMovingAverage', () => {
+  it('averages the trailing seven calendar days', () => {
+    const points = [point('2026-03-01', 80), point('2026-03-03', 82), point('2026-03-07', 84), point('2026-03-08', 78)];
+    expect(getMovingAverage(points).map(average => average.value)).toEqual([80, 81, 82, 81.33]);
+  });
+
+  it('leaves out check-ins older than the window, however few there are', () => {
+    const points = [point('2026-03-01', 80), point('2026-03-20', 76)];
+    expect(getMovingAverage(points).map(average => average.value)).toEqual([80, 76]);
+  });
+
+  it('takes a custom window and keeps each point date', () => {
+    const points = [point('2026-03-01', 80), point('2026-03-02', 81), point('2026-03-03', 85)];
+    const averages = getMovingAverage(points, 2);
+    expect(averages.map(average => average.value)).toEqual([80, 80.5, 83]);
+    expect(averages.map(average => getDayKey(average.date))).toEqual(['2026-03-01', '2026-03-02', '2026-03-03']);
+  });
+
+  it('runs across the spring-forward day', () => {
+    const points = [point('2026-03-02', 80), point('2026-03-08', 82), point('2026-03-09', 84)];
+    expect(getMovingAverage(points).map(average => average.value)).toEqual([80, 81, 83]);
+  });
+});
+
+describe('body metric series', () => {
+  it('orders entries that recorded the metric oldest first', () => {
+    expect(getMetricSeries(entries, 'weight').map(entry => entry.value)).toEqual([80, 82, 78]);
+    expect(getTrackedMetrics(entries)).toEqual(['weight', 'body_fat', 'waist']);
+  });
+
+  it('finds the latest bodyweight for relative strength', () => {
+    const bodyweight = getLatestBodyweight(entries)!;
+    expect(bodyweight).toBe(78);
+    expect(getRelativeStrength(140, bodyweight)).toBe(1.79);
+    expect(getLatestBodyweight([])).toBeUndefined();
+  });
+
+  it('formats in the display unit', () => {
+    expect(formatMetricValue('weight', 80, true)).toBe('80kg');
+    expect(formatMetricValue('weight', 80, false)).toBe('176.4lb');
+    expect(formatMetricValue('waist', 85, false)).toBe('33.5in');
+    expect(formatMetricValue('body_fat', 15, false)).toBe('15%');
+  });
+});
@@ -0,0 +1,48 @@
+import { compareLogs, getLogDay, inferLocalDateFields } from '../../app/utils/dates';
+
+// Runs in America/New_York (see jest.globalSetup.js), which crosses DST on 2026-03-08
+
+describe('inferLocalDateFields', () => {
+  it('keeps bare days as they are', () => {
+    expect(inferLocalDateFields('2026-03-05')).toEqual({ local_date: '2026-03-05' });
+  });
+
+  it('keeps the picked day for UTC midnights saved by the web date input', () => {
+    expect(inferLocalDateFields('2026-03-05T00:00:00.000Z')).toEqual({ local_date: '2026-03-05' });
+    expect(inferLocalDateFields('2026-03-05T00:00:00Z')).toEqual({ local_date: '2026-03-05' });
+  });
+
+  it('puts a late-evening workout on the local day it happened', () => {
+    expect(inferLocalDateFields('2026-03-06T02:30:00.000Z')).toEqual({
+      local_date: '2026-03-05',
+      start_time: '21:30',
+      tz_offset: -300,
+    });
+  });
+
+  it('uses the offset in effect on that day across DST', () => {
+    expect(inferLocalDateFields('2026-03-09T02:30:00.000Z')).toEqual({
+      local_date: '2026-03-08',
+      start_time: '22:30',
+      tz_offset: -240,
+    });
+  });
+});
+
+describe('getLogDay', () => {
+  it('prefers the stored local date', () => {
+    expect(getLogDay({ date: '2026-03-06T02:30:00.000Z', local_date: '2026-03-06' })).toBe('2026-03-06');
+    expect(getLogDay({ date: '2026-03-06T02:30:00.000Z' })).toBe('2026-03-05');
+  });
+});
+
+describe('compareLogs', () => {
+  it('orders by local day, then by time', () => {
+    const logs = [
+      { date: '2026-03-06T15:00:00.000Z', local_date: '2026-03-06' },
+      { date: '2026-03-06T02:30:00.000Z' },
+      { date: '2026-03-06T12:00:00.000Z', local_date: '2026-03-06' },
+    ];
+    expect([...logs].sort(compareLogs)).toEqual([logs[1], logs[2], logs[0]]);
+  });
+});
@@ -0,0 +1,50 @@
+import { findCatalogMatch, normalizeExerciseName, searchCatalog } from '../../app/utils/exercises';
+
+const catalog = [
+  { id: 1, name: 'Back Squat', aliases: ['Squat', 'BS'] },
+  { id: 2, name: 'Pull-up', aliases: ['Chin-up'] },
+  { id: 3, name: 'Жим лёжа', aliases: [] },
+  { id: 4, name: '深蹲', aliases: [] },
+];
+
+describe('normalizeExerciseName', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(normalizeExerciseName('Pull-up')).toBe('pullup');
+    expect(normalizeExerciseName('pull up')).toBe('pullup');
+    expect(normalizeExerciseName('PullUp')).toBe('pullup');
+  });
+
+  it('drops accents', () => {
+    expect(normalizeExerciseName('Développé couché')).toBe('developpecouche');
+  });
+
+  it('keeps letters from other scripts', () => {
+    expect(normalizeExerciseName('Жим лёжа')).toBe('жимлежа');
+    expect(normalizeExerciseName('深蹲')).toBe('深蹲');
+    expect(normalizeExerciseName('Тяга')).not.toBe(normalizeExerciseName('Жим лёжа'));
+  });
+});
+
+describe('findCatalogMatch', () => {
+  it('matches names and aliases', () => {
+    expect(findCatalogMatch(catalog, 'back-squat')?.id).toBe(1);
+    expect(findCatalogMatch(catalog, 'bs')?.id).toBe(1);
+    expect(findCatalogMatch(catalog, 'chin up')?.id).toBe(2);
+  });
+
+  it('matches non-Latin names', () => {
+    expect(findCatalogMatch(catalog, 'жим лежа')?.id).toBe(3);
+    expect(findCatalogMatch(catalog, '深蹲')?.id).toBe(4);
+    expect(findCatalogMatch(catalog, 'Тяга')).toBeUndefined();
+  });
+
+  it('never matches a name with nothing to compare', () => {
+    expect(findCatalogMatch(catalog, ' - ')).toBeUndefined();
+  });
+});
+
+describe('searchCatalog', () => {
+  it('suggests non-Latin entries', () => {
+    expect(searchCatalog(catalog, 'жим').map(entry => entry.id)).toEqual([3]);
+  });
+});
@@ -0,0 +1,20 @@
+import type { Exercise, WOD } from '../../app/utils/db';
+
+// A weight_reps entry logged at midday on `day`, every set done
+export const lift = (day: string, name: string, sets: [number, number][], extra: Partial<Exercise> = {}): Exercise => ({
+  type: 'exercise',
+  name,
+  measurement_type: 'weight_reps',
+  date: `${day}T12:00:00.000Z`,
+  local_date: day,
+  sets: sets.map(([weight, reps], set_index) => ({ set_index, weight, reps, done: true })),
+  ...extra,
+});
+
+export const wod = (day: string, name: string, extra: Partial<WOD> = {}): WOD => ({
+  type: 'wod',
+  name,
+  date: `${day}T12:00:00.000Z`,
+  local_date: day,
+  ...extra,
+});
@@ -0,0 +1,95 @@
+import type { Goal, WorkoutLog } from '../../app/utils/db';
+import { getDayKey } from '../../app/utils/dates';
+import { getGoalFraction, getGoalHistory, getGoalProgress } from '../../app/utils/goals';
+import { lift, wod } from './fixtures';
+
+const now = new Date('2026-03-11T12:00:00');
+
+const cindy = (day: string) => wod(day, 'Cindy');
+
+describe('getGoalProgress', () => {
+  it('counts training days this week', () => {
+    const goal: Goal = { goal_type: 'sessions', period: 'week', target: 3 };
+    const logs: WorkoutLog[] = [
+      lift('2026-03-08', 'Squat', [[100, 1]]),
+      lift('2026-03-09', 'Squat', [[100, 1]]),
+      cindy('2026-03-09'),
+      cindy('2026-03-10'),
+    ];
+    const result = getGoalProgress(goal, logs, now);
+    expect(getDayKey(result.start)).toBe('2026-03-09');
+    expect(getDayKey(result.end)).toBe('2026-03-15');
+    expect(result.value).toBe(2);
+    expect(result.status).toBe('active');
+    expect(getGoalFraction(result)).toBeCloseTo(2 / 3);
+  });
+
+  it('counts WODs this month and weekly tonnage', () => {
+    const logs: WorkoutLog[] = [
+      cindy('2026-02-28'),
+      cindy('2026-03-01'),
+      cindy('2026-03-10'),
+      lift('2026-03-10', 'Squat', [[100, 5]]),
+    ];
+    expect(getGoalProgress({ goal_type: 'wods', period: 'month', target: 2 }, logs, now)).toMatchObject({ value: 2, status: 'hit' });
+    expect(getGoalProgress({ goal_type: 'tonnage', period: 'week', target: 1000 }, logs, now).value).toBe(500);
+  });
+
+  describe('lift goals', () => {
+    const goal: Goal = {
+      goal_type: 'lift',
+      target: 200,
+      exercise_name: 'Deadlift',
+      deadline: '2026-06-30',
+      created_at: '2026-03-01T12:00:00.000Z',
+    };
+
+    it('is hit on the first day the target is lifted', () => {
+      const logs = [
+        lift('2026-03-03', 'Deadlift', [[190, 1]]),
+        lift('2026-03-10', 'deadlift', [[200, 1]]),
+        lift('2026-03-11', 'Deadlift', [[205, 1]]),
+      ];
+      const result = getGoalProgress(goal, logs, now);
+      expect(result.status).toBe('hit');
+      expect(getDayKey(result.end)).toBe('2026-03-10');
+    });
+
+    it('ignores lifts from before the goal was set', () => {
+      const logs = [lift('2025-06-01', 'Deadlift', [[210, 1]]), lift('2026-03-03', 'Deadlift', [[190, 1]])];
+      expect(getGoalProgress(goal, logs, now)).toMatchObject({ value: 190, status: 'active' });
+    });
+
+    it('counts entries linked to the same catalog lift under any name', () => {
+      const squat: Goal = { ...goal, exercise_name: 'Back Squat', exercise_id: 4, target: 150 };
+      const logs = [
+        lift('2026-03-03', 'BS', [[150, 1]], { exercise_id: 4 }),
+        lift('2026-03-04', 'Front Squat', [[160, 1]], { exercise_id: 5 }),
+      ];
+      expect(getGoalProgress(squat, logs, now)).toMatchObject({ value: 150, status: 'hit' });
+    });
+
+    it('is missed once the deadline passes', () => {
+      const logs = [lift('2026-07-01', 'Deadlift', [[200, 1]])];
+      expect(getGoalProgress(goal, logs, new Date('2026-07-02T12:00:00')).status).toBe('missed');
+    });
+  });
+});
+
+describe('getGoalHistory', () => {
+  it('lists finished weeks since the goal was set, newest first', () => {
+    const goal: Goal = { goal_type: 'sessions', period: 'week', target: 2, created_at: '2026-02-25T12:00:00.000Z' };
+    const logs = [cindy('2026-02-24'), cindy('2026-02-26'), cindy('2026-03-02'), cindy('2026-03-10'), cindy('2026-03-11')];
+    const history = getGoalHistory(goal, logs, now);
+    expect(history.map(result => [getDayKey(result.start), result.value, result.status])).toEqual([
+      ['2026-03-02', 1, 'missed'],
+      ['2026-02-23', 2, 'hit'],
+    ]);
+  });
+
+  it('has a single entry for a lift goal once it is decided', () => {
+    const goal: Goal = { goal_type: 'lift', target: 100, exercise_name: 'Squat', created_at: '2026-03-01T12:00:00.000Z' };
+    expect(getGoalHistory(goal, [lift('2026-03-05', 'Squat', [[95, 1]])], now)).toEqual([]);
+    expect(getGoalHistory(goal, [lift('2026-03-05', 'Squat', [[100, 1]])], now)).toHaveLength(1);
+  });
+});
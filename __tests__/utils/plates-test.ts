@@ -0,0 +1,31 @@
+import { DEFAULT_PLATE_INVENTORY, getPlateLoad, roundToInventory } from '../../app/utils/plates';
+import { toKg } from '../../app/utils/units';
+
+describe('getPlateLoad', () => {
+  it('loads the fewest plates, heaviest first', () => {
+    expect(getPlateLoad(100, DEFAULT_PLATE_INVENTORY.kg)).toEqual({ perSide: [25, 15], total: 100, exact: true });
+    expect(getPlateLoad(102.5, DEFAULT_PLATE_INVENTORY.kg).perSide).toEqual([25, 15, 1.25]);
+    expect(getPlateLoad(225, DEFAULT_PLATE_INVENTORY.lb).perSide).toEqual([45, 45]);
+  });
+
+  it('falls back to the nearest loadable weight, lighter on a tie', () => {
+    expect(getPlateLoad(101, DEFAULT_PLATE_INVENTORY.kg)).toEqual({ perSide: [25, 15], total: 100, exact: false });
+    expect(getPlateLoad(47.5, DEFAULT_PLATE_INVENTORY.lb).total).toBe(45);
+  });
+
+  it('only uses plates in the inventory', () => {
+    const inventory = { bar: 20, plates: [{ weight: 20, pairs: 1 }, { weight: 10, pairs: 0 }] };
+    expect(getPlateLoad(100, inventory)).toEqual({ perSide: [20], total: 60, exact: false });
+  });
+
+  it('never goes below the bar', () => {
+    expect(getPlateLoad(10, DEFAULT_PLATE_INVENTORY.kg)).toEqual({ perSide: [], total: 20, exact: false });
+  });
+});
+
+describe('roundToInventory', () => {
+  it('rounds to what the plates can make', () => {
+    expect(roundToInventory(101, true, DEFAULT_PLATE_INVENTORY)).toBe(100);
+    expect(roundToInventory(toKg(225, false), false, DEFAULT_PLATE_INVENTORY)).toBe(toKg(225, false));
+  });
+});
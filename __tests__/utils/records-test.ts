@@ -0,0 +1,61 @@
+import type { Exercise, WOD } from '../../app/utils/db';
+import { findNewRecords } from '../../app/utils/records';
+import { lift, wod } from './fixtures';
+
+const fran = (time: number, scaling: WOD['scaling'] = 'rx'): WOD =>
+  wod('2026-03-01', 'Fran', { benchmark_id: 'fran', scaling, score: { type: 'time', time } });
+
+describe('findNewRecords', () => {
+  it('reports nothing on a first attempt', () => {
+    expect(findNewRecords(lift('2026-03-01', 'Back Squat', [[140, 5]]), [], true)).toEqual([]);
+  });
+
+  it('reports heavier weights at each rep count done', () => {
+    const history = [lift('2026-03-01', 'Back Squat', [[140, 5], [150, 3]])];
+    const records = findNewRecords(lift('2026-03-01', 'Back Squat', [[145, 5], [150, 3]]), history, true);
+    expect(records).toEqual([
+      { kind: 'weight', name: 'Back Squat', label: '5-rep max', current: '145kg', previous: '140kg' },
+    ]);
+  });
+
+  it('matches history by spelling and by catalog id', () => {
+    const history = [
+      lift('2026-03-01', 'back-squat', [[100, 1]]),
+      lift('2026-03-01', 'BS', [[110, 1]], { exercise_id: 7 }),
+    ];
+    const previous = (entry: Exercise) => findNewRecords(entry, history, true).map(record => record.previous);
+    expect(previous(lift('2026-03-02', 'Back Squat', [[105, 1]]))).toEqual(['100kg']);
+    expect(previous(lift('2026-03-02', 'Squat', [[115, 1]], { exercise_id: 7 }))).toEqual(['110kg']);
+  });
+
+  it('reports the most reps for bodyweight work', () => {
+    const pullups = (reps: number): Exercise => ({ ...lift('2026-03-01', 'Pull-up', [[0, reps]]), measurement_type: 'reps_only' });
+    expect(findNewRecords(pullups(15), [pullups(12)], true)).toEqual([
+      { kind: 'reps', name: 'Pull-up', label: 'Most reps', current: '15 reps', previous: '12 reps' },
+    ]);
+    expect(findNewRecords(pullups(12), [pullups(12)], true)).toEqual([]);
+  });
+
+  it('compares times per distance', () => {
+    const row = (distance: string, time: string): Exercise => ({
+      type: 'exercise',
+      name: 'Row',
+      measurement_type: 'distance_time',
+      date: '2026-03-01',
+      distance,
+      time,
+    });
+    const history = [row('2000', '480'), row('500', '95')];
+    expect(findNewRecords(row('2000', '470'), history, true)).toEqual([
+      { kind: 'time', name: 'Row', label: 'Fastest 2000m', current: '7:50', previous: '8:00' },
+    ]);
+    expect(findNewRecords(row('500', '100'), history, true)).toEqual([]);
+  });
+
+  it('reports benchmark bests without letting scaled beat Rx', () => {
+    expect(findNewRecords(fran(280), [fran(300), fran(250, 'scaled')], true)).toEqual([
+      { kind: 'benchmark', name: 'Fran', label: 'Best score', current: '4:40 · Rx', previous: '5:00 · Rx' },
+    ]);
+    expect(findNewRecords(fran(200, 'scaled'), [fran(300)], true)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { getCurrentStreak, getLongestStreak, getWeeklyStreak } from '../../app/utils/streaks';
+
+const noRest = { restDays: [], weeklyGoal: 3 };
+// Sunday off
+const sundayRest = { restDays: [0], weeklyGoal: 3 };
+
+const at = (day: string, time = '12:00') => new Date(`${day}T${time}:00`);
+
+describe('getCurrentStreak', () => {
+  it('counts consecutive days up to today', () => {
+    const days = new Set(['2026-03-02', '2026-03-03', '2026-03-04']);
+    expect(getCurrentStreak(days, noRest, at('2026-03-04'))).toBe(3);
+  });
+
+  it('keeps the streak alive until today is over', () => {
+    const days = new Set(['2026-03-02', '2026-03-03']);
+    expect(getCurrentStreak(days, noRest, at('2026-03-04', '23:00'))).toBe(2);
+    expect(getCurrentStreak(days, noRest, at('2026-03-05'))).toBe(0);
+  });
+
+  it('skips planned rest days without counting them', () => {
+    // Sat 7th, rest Sun 8th, Mon 9th
+    const days = new Set(['2026-03-07', '2026-03-09']);
+    expect(getCurrentStreak(days, sundayRest, at('2026-03-09'))).toBe(2);
+    expect(getCurrentStreak(days, noRest, at('2026-03-09'))).toBe(1);
+  });
+
+  it('runs across the spring-forward and fall-back days', () => {
+    const spring = new Set(['2026-03-07', '2026-03-08', '2026-03-09']);
+    expect(getCurrentStreak(spring, noRest, at('2026-03-09', '00:30'))).toBe(3);
+    const fall = new Set(['2026-10-31', '2026-11-01', '2026-11-02']);
+    expect(getCurrentStreak(fall, noRest, at('2026-11-02', '23:30'))).toBe(3);
+  });
+});
+
+describe('getLongestStreak', () => {
+  it('finds the longest run', () => {
+    const days = new Set(['2026-02-01', '2026-02-02', '2026-02-10', '2026-02-11', '2026-02-12']);
+    expect(getLongestStreak(days, noRest)).toBe(3);
+  });
+
+  it('bridges planned rest days', () => {
+    const days = new Set(['2026-03-06', '2026-03-07', '2026-03-09', '2026-03-10']);
+    expect(getLongestStreak(days, sundayRest)).toBe(4);
+    expect(getLongestStreak(days, noRest)).toBe(2);
+  });
+
+  it('runs across DST changes', () => {
+    const days = new Set(['2026-03-07', '2026-03-08', '2026-03-09', '2026-10-31', '2026-11-01', '2026-11-02', '2026-11-03']);
+    expect(getLongestStreak(days, noRest)).toBe(4);
+  });
+
+  it('is zero with no training', () => {
+    expect(getLongestStreak(new Set(), noRest)).toBe(0);
+  });
+});
+
+describe('getWeeklyStreak', () => {
+  it('counts weeks meeting the goal, with this week only once met', () => {
+    const days = new Set([
+      // Mon 2026-02-23 week
+      '2026-02-23', '2026-02-25', '2026-02-27',
+      // Mon 2026-03-02 week
+      '2026-03-02', '2026-03-04', '2026-03-06',
+      // This week so far
+      '2026-03-09',
+    ]);
+    expect(getWeeklyStreak(days, noRest, at('2026-03-10'))).toBe(2);
+    days.add('2026-03-10');
+    days.add('2026-03-11');
+    expect(getWeeklyStreak(days, noRest, at('2026-03-11'))).toBe(3);
+  });
+});
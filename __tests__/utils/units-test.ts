@@ -0,0 +1,36 @@
+import { formatWeight, formatWeightInput, fromCm, fromKg, parseDecimal, toCm, toKg } from '../../app/utils/units';
+
+describe('parseDecimal', () => {
+  it('reads dot and comma decimals', () => {
+    expect(parseDecimal('102.5')).toBe(102.5);
+    expect(parseDecimal('102,5')).toBe(102.5);
+    expect(parseDecimal(' 1,25 ')).toBe(1.25);
+  });
+
+  it('is NaN for empty or unreadable text', () => {
+    expect(parseDecimal('')).toBeNaN();
+    expect(parseDecimal(undefined)).toBeNaN();
+    expect(parseDecimal('heavy')).toBeNaN();
+  });
+});
+
+describe('unit conversion', () => {
+  it('round-trips pounds through kilograms', () => {
+    expect(toKg(225, true)).toBe(225);
+    expect(toKg(225, false)).toBe(102.06);
+    expect(formatWeightInput(toKg(225, false), false)).toBe('225');
+    expect(fromKg(100, false)).toBeCloseTo(220.462);
+  });
+
+  it('formats weights in the display unit', () => {
+    expect(formatWeight(102.5, true)).toBe('102.5kg');
+    expect(formatWeight(102.06, false)).toBe('225lb');
+    expect(formatWeight(undefined, true)).toBe('');
+  });
+
+  it('converts inches to centimeters', () => {
+    expect(toCm(10, false)).toBe(25.4);
+    expect(fromCm(25.4, false)).toBe(10);
+    expect(toCm(80, true)).toBe(80);
+  });
+});
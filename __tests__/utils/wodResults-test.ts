@@ -0,0 +1,72 @@
+import type { WOD, WodScore } from '../../app/utils/db';
+import { compareWodAttempts, compareWodScores, parseLegacyResult } from '../../app/utils/wodResults';
+
+describe('parseLegacyResult', () => {
+  it('reads rounds and reps', () => {
+    expect(parseLegacyResult('5+12')).toEqual({ type: 'rounds_reps', rounds: 5, reps: 12 });
+    expect(parseLegacyResult('5 rounds + 12 reps')).toEqual({ type: 'rounds_reps', rounds: 5, reps: 12 });
+    expect(parseLegacyResult('7 Rds')).toEqual({ type: 'rounds_reps', rounds: 7, reps: 0 });
+  });
+
+  it('reads times', () => {
+    expect(parseLegacyResult(' 12:34 ')).toEqual({ type: 'time', time: 754 });
+  });
+
+  it('gives up on anything else', () => {
+    expect(parseLegacyResult(undefined)).toBeUndefined();
+    expect(parseLegacyResult('felt good')).toBeUndefined();
+    expect(parseLegacyResult('12:3')).toBeUndefined();
+  });
+});
+
+describe('compareWodScores', () => {
+  const sort = (scores: WodScore[]) => [...scores].sort(compareWodScores);
+
+  it('ranks more rounds, then more reps, first', () => {
+    const scores: WodScore[] = [
+      { type: 'rounds_reps', rounds: 5, reps: 10 },
+      { type: 'rounds_reps', rounds: 6, reps: 0 },
+      { type: 'rounds_reps', rounds: 5, reps: 12 },
+    ];
+    expect(sort(scores)).toEqual([scores[1], scores[2], scores[0]]);
+  });
+
+  it('ranks faster times first and capped results last', () => {
+    const scores: WodScore[] = [
+      { type: 'time', capped: true, reps: 80 },
+      { type: 'time', time: 300 },
+      { type: 'time', capped: true, reps: 95 },
+      { type: 'time', time: 240 },
+    ];
+    expect(sort(scores)).toEqual([scores[3], scores[1], scores[2], scores[0]]);
+  });
+
+  it('ranks intervals by the lowest, then by total', () => {
+    const scores: WodScore[] = [
+      { type: 'intervals', intervals: [20, 20, 20, 8] },
+      { type: 'intervals', intervals: [12, 12, 12, 12] },
+      { type: 'intervals', intervals: [12, 15, 15, 15] },
+    ];
+    expect(sort(scores)).toEqual([scores[2], scores[1], scores[0]]);
+  });
+});
+
+describe('compareWodAttempts', () => {
+  const fran = (scaling: WOD['scaling'], time: number): WOD => ({
+    type: 'wod',
+    name: 'Fran',
+    date: '2026-03-01',
+    scaling,
+    score: { type: 'time', time },
+  });
+
+  it('never ranks a scaled score above Rx', () => {
+    expect(compareWodAttempts(fran('rx', 400), fran('scaled', 200))).toBeLessThan(0);
+    expect(compareWodAttempts(fran('rx', 200), fran('rx', 400))).toBeLessThan(0);
+  });
+
+  it('ranks Rx and Rx+ on one leaderboard by score', () => {
+    expect(compareWodAttempts(fran('rx', 200), fran('rx_plus', 400))).toBeLessThan(0);
+    expect(compareWodAttempts(fran('rx_plus', 200), fran('rx', 400))).toBeLessThan(0);
+  });
+});
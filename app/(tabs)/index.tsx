@@ -1,14 +1,22 @@
 import React, { useCallback, useRef, useState } from 'react';
-import { StyleSheet, View, ScrollView, Platform } from 'react-native';
+import { StyleSheet, View, ScrollView, Platform, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedText } from '../../components/ThemedText';
 import { ThemedView } from '../../components/ThemedView';
 import Colors from '../../constants/Colors';
 import { useColorScheme } from 'react-native';
-import { Exercise, WOD, getAllLogs } from '../../app/utils/db';
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, subDays } from 'date-fns';
+import { Exercise, Goal, Program, ProgramSession, WOD, WorkoutSession, getActiveSession, getAllLogs, getGoals, getNextProgramSession } from '../../app/utils/db';
+import { format, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns';
 import { Ionicons } from '@expo/vector-icons';
 import { AnimatedTabScreen } from '../../components/AnimatedTabScreen';
+import { router } from 'expo-router';
+import { useSettings } from '../../contexts/SettingsContext';
+import { TrainingCalendar } from '../../components/TrainingCalendar';
+import { ProgressRing } from '../../components/ProgressRing';
+import { Streaks, getStreaks } from '../../app/utils/streaks';
+import { getDayKey, getLogDate, getLogDay } from '../../app/utils/dates';
+import { formatPlannedSets, getPlannedExerciseParams, toSessionExercises } from '../../app/utils/programs';
+import { formatGoalValue, getGoalDefinition, getGoalFraction, getGoalProgress } from '../../app/utils/goals';
 
 type WorkoutLog = (Exercise | WOD) & { type: 'exercise' | 'wod' };
 
@@ -16,7 +24,7 @@ interface WeeklyStats {
   totalWorkouts: number;
   strengthWorkouts: number;
   wodWorkouts: number;
-  streakDays: number;
+  streaks: Streaks;
 }
 
 const motivationalQuotes = [
@@ -42,10 +50,14 @@ export default function HomeScreen() {
     totalWorkouts: 0,
     strengthWorkouts: 0,
     wodWorkouts: 0,
-    streakDays: 0,
+    streaks: { current: 0, longest: 0, weekly: 0, thisWeek: 0 },
   });
   const [isLoading, setIsLoading] = useState(true);
   const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [nextSession, setNextSession] = useState<{ program: Program; session: ProgramSession } | undefined>();
+  const [activeWorkout, setActiveWorkout] = useState<WorkoutSession | undefined>();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const { settings } = useSettings();
 
   const getWeeklyWorkoutData = () => {
     const today = new Date();
@@ -55,10 +67,7 @@ export default function HomeScreen() {
     
     const labels = days.map(day => format(day, 'EEE'));
     const data = days.map(day => {
-      return logs.filter(log => {
-        const logDate = new Date(log.date);
-        return format(logDate, 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd');
-      }).length;
+      return logs.filter(log => getLogDay(log) === getDayKey(day)).length;
     });
 
     return { labels, data };
@@ -69,50 +78,175 @@ export default function HomeScreen() {
       setIsLoading(true);
       const allLogs = await getAllLogs();
       setLogs(allLogs);
+      setNextSession(await getNextProgramSession());
+      setActiveWorkout(await getActiveSession());
+      setGoals(await getGoals());
       
       // Get start of current week
       const weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
       
       // Filter logs for current week
       const weekLogs = allLogs.filter(log => {
-        const logDate = new Date(log.date);
+        const logDate = getLogDate(log);
         return logDate >= weekStart && logDate <= new Date();
       });
 
-      // Calculate streak
-      let streakDays = 0;
-      let currentDate = new Date();
-      let hasWorkout = true;
-
-      while (hasWorkout) {
-        const dateStr = format(currentDate, 'yyyy-MM-dd');
-        const workoutsOnDate = allLogs.filter(log => log.date === dateStr);
-        
-        if (workoutsOnDate.length > 0) {
-          streakDays++;
-          currentDate = subDays(currentDate, 1);
-        } else {
-          hasWorkout = false;
-        }
-      }
-
       setWeeklyStats({
         totalWorkouts: weekLogs.length,
         strengthWorkouts: weekLogs.filter(log => log.type === 'exercise').length,
         wodWorkouts: weekLogs.filter(log => log.type === 'wod').length,
-        streakDays,
+        streaks: getStreaks(allLogs, { restDays: settings.restDays, weeklyGoal: settings.weeklyGoal }),
       });
     } catch (error) {
       console.error('Error loading weekly stats:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [settings.restDays, settings.weeklyGoal]);
 
   const handleScreenFocus = useCallback(async () => {
     await loadWeeklyStats();
   }, [loadWeeklyStats]);
 
+  const renderLiveWorkout = () => (
+    <TouchableOpacity activeOpacity={0.7} onPress={() => router.push('/session')}>
+      <ThemedView style={[styles.card, styles.programPrompt, { backgroundColor: colors.cardBackground }]}>
+        <Ionicons name={activeWorkout ? 'pulse' : 'play-circle-outline'} size={24} color={colors.primary} />
+        <View style={styles.sessionInfo}>
+          <ThemedText style={styles.sessionTitle}>
+            {activeWorkout ? `Resume ${activeWorkout.name}` : 'Start workout'}
+          </ThemedText>
+          <ThemedText style={styles.sessionMeta}>
+            {activeWorkout
+              ? `In progress since ${format(new Date(activeWorkout.started_at), 'h:mm a')} · ${activeWorkout.exercises.length} ${activeWorkout.exercises.length === 1 ? 'exercise' : 'exercises'}`
+              : 'Tick off sets live as you train'}
+          </ThemedText>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+      </ThemedView>
+    </TouchableOpacity>
+  );
+
+  const renderProgramSession = () => {
+    if (!nextSession) {
+      return (
+        <TouchableOpacity activeOpacity={0.7} onPress={() => router.push('/programs')}>
+          <ThemedView style={[styles.card, styles.programPrompt, { backgroundColor: colors.cardBackground }]}>
+            <Ionicons name="calendar-outline" size={24} color={colors.primary} />
+            <View style={styles.sessionInfo}>
+              <ThemedText style={styles.sessionTitle}>Follow a program</ThemedText>
+              <ThemedText style={styles.sessionMeta}>Plan weeks of 5/3/1, Smolov Jr or linear progression</ThemedText>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+          </ThemedView>
+        </TouchableOpacity>
+      );
+    }
+
+    const { program, session } = nextSession;
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const scheduled = new Date(`${session.scheduled_date}T00:00:00`);
+    const title = session.scheduled_date === today
+      ? "Today's Session"
+      : session.scheduled_date < today
+        ? `Catch Up · ${format(scheduled, 'EEE, MMM d')}`
+        : `Next Session · ${format(scheduled, 'EEE, MMM d')}`;
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <TouchableOpacity
+          style={styles.sessionHeader}
+          onPress={() => router.push({ pathname: '/programs/[id]', params: { id: String(program.id) } })}
+        >
+          <View style={styles.sessionInfo}>
+            <ThemedText style={styles.cardTitle}>{title}</ThemedText>
+            <ThemedText style={styles.sessionMeta}>
+              {program.name} · Week {session.week}, Day {session.day}
+            </ThemedText>
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        {session.exercises.map(exercise => (
+          <TouchableOpacity
+            key={exercise.name}
+            style={styles.sessionExercise}
+            onPress={() => router.push({ pathname: '/add-workout', params: getPlannedExerciseParams(exercise) })}
+          >
+            <View style={styles.sessionInfo}>
+              <ThemedText style={styles.sessionTitle}>{exercise.name}</ThemedText>
+              <ThemedText style={styles.sessionMeta}>{formatPlannedSets(exercise.sets, settings.useMetric)}</ThemedText>
+            </View>
+            <Ionicons name="add-circle" size={28} color={colors.primary} />
+          </TouchableOpacity>
+        ))}
+        {!activeWorkout && (
+          <TouchableOpacity
+            style={styles.sessionExercise}
+            onPress={() => router.push({
+              pathname: '/session',
+              params: {
+                name: `${program.name} · W${session.week}D${session.day}`,
+                exercises: JSON.stringify(toSessionExercises(session.exercises)),
+              },
+            })}
+          >
+            <Ionicons name="play-circle-outline" size={22} color={colors.primary} />
+            <ThemedText style={[styles.sessionTitle, { color: colors.primary }]}>Start as live workout</ThemedText>
+          </TouchableOpacity>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderGoals = () => {
+    if (goals.length === 0) {
+      return (
+        <TouchableOpacity activeOpacity={0.7} onPress={() => router.push('/goals/new')}>
+          <ThemedView style={[styles.card, styles.programPrompt, { backgroundColor: colors.cardBackground }]}>
+            <Ionicons name="flag-outline" size={24} color={colors.primary} />
+            <View style={styles.sessionInfo}>
+              <ThemedText style={styles.sessionTitle}>Set a goal</ThemedText>
+              <ThemedText style={styles.sessionMeta}>Training days a week, WODs a month, tonnage or a lift target</ThemedText>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+          </ThemedView>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <TouchableOpacity style={styles.sessionHeader} onPress={() => router.push('/goals')}>
+          <ThemedText style={[styles.cardTitle, styles.sessionInfo]}>Goals</ThemedText>
+          <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        <View style={styles.goalsRow}>
+          {goals.map(goal => {
+            const progress = getGoalProgress(goal, logs);
+            const fraction = getGoalFraction(progress);
+            return (
+              <View key={goal.id} style={styles.goalItem}>
+                <ProgressRing progress={fraction} color={colors.primary}>
+                  {progress.status === 'hit' ? (
+                    <Ionicons name="checkmark" size={24} color={colors.primary} />
+                  ) : (
+                    <ThemedText style={styles.goalPercent}>{`${Math.round(fraction * 100)}%`}</ThemedText>
+                  )}
+                </ProgressRing>
+                <ThemedText style={styles.goalLabel} numberOfLines={1}>
+                  {goal.exercise_name || getGoalDefinition(goal).name}
+                </ThemedText>
+                <ThemedText style={styles.statCaption} numberOfLines={1}>
+                  {`${formatGoalValue(goal, progress.value, settings.useMetric)}/${formatGoalValue(goal, goal.target, settings.useMetric)}`}
+                </ThemedText>
+              </View>
+            );
+          })}
+        </View>
+      </ThemedView>
+    );
+  };
+
   const Content = () => {
     const weeklyData = getWeeklyWorkoutData();
     
@@ -124,7 +258,15 @@ export default function HomeScreen() {
           contentInsetAdjustmentBehavior="automatic"
         >
           <View style={styles.header}>
-            <ThemedText style={styles.title}>Weekly Progress</ThemedText>
+            <View style={styles.titleRow}>
+              <ThemedText style={styles.title}>Weekly Progress</ThemedText>
+              <TouchableOpacity
+                onPress={() => router.push('/clock')}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="stopwatch-outline" size={26} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
             <ThemedText style={styles.date}>{format(new Date(), 'MMMM d, yyyy')}</ThemedText>
           </View>
 
@@ -135,6 +277,9 @@ export default function HomeScreen() {
 
           {!isLoading && (
             <>
+              {renderLiveWorkout()}
+              {renderProgramSession()}
+
               {/* Weekly Activity */}
               <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
                 <ThemedText style={styles.cardTitle}>Weekly Activity</ThemedText>
@@ -176,6 +321,18 @@ export default function HomeScreen() {
                 </View>
               </ThemedView>
 
+              {/* Training History */}
+              <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+                <ThemedText style={styles.cardTitle}>Training History</ThemedText>
+                <TrainingCalendar
+                  logs={logs}
+                  useMetric={settings.useMetric}
+                  onSelectDay={day => router.push({ pathname: '/logs', params: { day } })}
+                />
+              </ThemedView>
+
+              {renderGoals()}
+
               {/* Weekly Stats */}
               <View style={styles.statsContainer}>
                 <ThemedView style={[styles.statsCard, { backgroundColor: colors.cardBackground }]}>
@@ -187,8 +344,20 @@ export default function HomeScreen() {
                   <View style={styles.statDivider} />
                   <View style={styles.statItem}>
                     <Ionicons name="flame" size={24} color={colors.primary} />
-                    <ThemedText style={styles.statNumber}>{weeklyStats.streakDays}</ThemedText>
+                    <ThemedText style={styles.statNumber}>{weeklyStats.streaks.current}</ThemedText>
                     <ThemedText style={styles.statLabel}>Day Streak</ThemedText>
+                    <ThemedText style={styles.statCaption}>{`Best ${weeklyStats.streaks.longest}`}</ThemedText>
+                  </View>
+                </ThemedView>
+
+                <ThemedView style={[styles.statsCard, { backgroundColor: colors.cardBackground }]}>
+                  <View style={styles.statItem}>
+                    <Ionicons name="calendar" size={24} color={colors.primary} />
+                    <ThemedText style={styles.statNumber}>{weeklyStats.streaks.weekly}</ThemedText>
+                    <ThemedText style={styles.statLabel}>Week Streak</ThemedText>
+                    <ThemedText style={styles.statCaption}>
+                      {`${weeklyStats.streaks.thisWeek}/${settings.weeklyGoal} days this week`}
+                    </ThemedText>
                   </View>
                 </ThemedView>
 
@@ -235,6 +404,11 @@ const styles = StyleSheet.create({
     padding: 20,
     paddingBottom: 8,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -356,6 +530,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.6,
   },
+  statCaption: {
+    fontSize: 12,
+    opacity: 0.5,
+    marginTop: 2,
+  },
   weeklyActivityContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -400,4 +579,52 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: 12,
   },
+  programPrompt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  goalsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 16,
+  },
+  goalItem: {
+    width: '33.33%',
+    alignItems: 'center',
+  },
+  goalPercent: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  goalLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 6,
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sessionMeta: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  sessionExercise: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderTopColor: 'rgba(128,128,128,0.2)',
+  },
 });
\ No newline at end of file
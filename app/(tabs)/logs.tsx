@@ -6,23 +6,46 @@ import { ThemedView } from '../../components/ThemedView';
 import Colors from '../../constants/Colors';
 import { useColorScheme } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Exercise, WOD, getAllLogs, deleteExercise, deleteWOD } from '../../app/utils/db';
-import { useRouter } from 'expo-router';
-import { format, subDays, subMonths } from 'date-fns';
+import { Exercise, WOD, WodScaling, WorkoutSession, getAllLogs, getWorkoutSessions, deleteExercise, deleteWOD, duplicateWorkout } from '../../app/utils/db';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { format, isToday, isYesterday, subDays, subMonths } from 'date-fns';
 import { useSettings } from '../../contexts/SettingsContext';
 import { Portal } from '@gorhom/portal';
 import { AnimatedTabScreen } from '../../components/AnimatedTabScreen';
+import { getCompletedSets, getSessionVolume, groupSets, usesSets } from '../../app/utils/sets';
+import { fromKg, weightUnit } from '../../app/utils/units';
+import { compareLogs, getDateParams, getLogDate, getLogDay } from '../../app/utils/dates';
+import { WodResult } from '../../components/WodResult';
+import { WORKOUT_TYPES } from '../../constants/WorkoutTypes';
+import { WOD_SCALING_LEVELS, getScalingLabel, matchesWodFormat } from '../../app/utils/wodResults';
 
 type WorkoutLog = Exercise | WOD;
 
 type DateFilter = 'all' | 'week' | 'month' | '3months';
 type SortOrder = 'newest' | 'oldest';
 type WorkoutTypeFilter = 'all' | 'wod' | 'exercise';
+// 'all' or one of WORKOUT_TYPES
+type FormatFilter = string;
+type ScalingFilter = 'all' | WodScaling;
+
+// A live session's entries are shown as one card where its newest entry falls
+type LogItem =
+  | { kind: 'log'; log: WorkoutLog }
+  | { kind: 'session'; session: WorkoutSession; logs: WorkoutLog[] };
+
+type LogFilters = {
+  workoutType: WorkoutTypeFilter;
+  date: DateFilter;
+  sort: SortOrder;
+  format: FormatFilter;
+  scaling: ScalingFilter;
+};
 
 export default function LogsScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [sessions, setSessions] = useState<Record<number, WorkoutSession>>({});
   const [filteredLogs, setFilteredLogs] = useState<WorkoutLog[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -35,71 +58,109 @@ export default function LogsScreen() {
   const [tempWorkoutTypeFilter, setTempWorkoutTypeFilter] = useState<WorkoutTypeFilter>('all');
   const [tempDateFilter, setTempDateFilter] = useState<DateFilter>('all');
   const [tempSortOrder, setTempSortOrder] = useState<SortOrder>('newest');
-  const { settings } = useSettings();
+  const [formatFilter, setFormatFilter] = useState<FormatFilter>('all');
+  const [tempFormatFilter, setTempFormatFilter] = useState<FormatFilter>('all');
+  const [scalingFilter, setScalingFilter] = useState<ScalingFilter>('all');
+  const [tempScalingFilter, setTempScalingFilter] = useState<ScalingFilter>('all');
+  const [collapsedDays, setCollapsedDays] = useState<Set<string>>(new Set());
+  const { settings, updateSettings } = useSettings();
   const router = useRouter();
+  // Set when a day is tapped on the Home calendar
+  const { day: dayFilter } = useLocalSearchParams<{ day?: string }>();
   const slideAnim = React.useRef(new Animated.Value(0)).current;
   const searchRef = useRef<string>('');
 
-  const applyFilters = useCallback((logsToFilter: WorkoutLog[]) => {
+  // Filters default to the applied ones; the filter panel passes its pending values
+  const applyFilters = useCallback((logsToFilter: WorkoutLog[], filters?: LogFilters) => {
+    const { workoutType, date, sort, format, scaling } = filters ?? {
+      workoutType: workoutTypeFilter,
+      date: dateFilter,
+      sort: sortOrder,
+      format: formatFilter,
+      scaling: scalingFilter,
+    };
     let filtered = [...logsToFilter];
 
     // Apply workout type filter
-    if (workoutTypeFilter !== 'all') {
-      filtered = filtered.filter(log => log.type === workoutTypeFilter);
+    if (workoutType !== 'all') {
+      filtered = filtered.filter(log => log.type === workoutType);
+    }
+
+    // Apply WOD format filter
+    if (format !== 'all') {
+      filtered = filtered.filter(log => log.type === 'wod' && matchesWodFormat(log.wod_format, format));
+    }
+
+    // Apply scaling filter; WODs without a level count as scaled
+    if (scaling !== 'all') {
+      filtered = filtered.filter(log => log.type === 'wod' && (log.scaling ?? 'scaled') === scaling);
     }
 
     // Apply date filter
     const today = new Date();
-    switch (dateFilter) {
+    switch (date) {
       case 'week':
         filtered = filtered.filter(log => {
-          const logDate = new Date(log.date);
+          const logDate = getLogDate(log);
           return logDate >= subDays(today, 7);
         });
         break;
       case 'month':
         filtered = filtered.filter(log => {
-          const logDate = new Date(log.date);
+          const logDate = getLogDate(log);
           return logDate >= subMonths(today, 1);
         });
         break;
       case '3months':
         filtered = filtered.filter(log => {
-          const logDate = new Date(log.date);
+          const logDate = getLogDate(log);
           return logDate >= subMonths(today, 3);
         });
         break;
     }
 
+    if (dayFilter) {
+      filtered = filtered.filter(log => getLogDay(log) === dayFilter);
+    }
+
     // Apply sort order
-    filtered.sort((a, b) => {
-      const dateA = new Date(a.date).getTime();
-      const dateB = new Date(b.date).getTime();
-      return sortOrder === 'newest' ? dateB - dateA : dateA - dateB;
-    });
+    filtered.sort((a, b) => (sort === 'newest' ? compareLogs(b, a) : compareLogs(a, b)));
 
     return filtered;
-  }, [dateFilter, workoutTypeFilter, sortOrder]);
+  }, [dateFilter, workoutTypeFilter, sortOrder, formatFilter, scalingFilter, dayFilter]);
 
   const loadLogs = useCallback(async () => {
     try {
       setIsLoading(true);
       const allLogs = await getAllLogs();
+      const allSessions = await getWorkoutSessions();
+      setSessions(Object.fromEntries(allSessions.map(session => [session.id!, session])));
       const typedLogs: WorkoutLog[] = allLogs.map(log => {
         if (log.type === 'wod') {
           return {
             id: log.id,
             name: log.name,
             date: log.date,
+            local_date: log.local_date,
+            start_time: log.start_time,
+            tz_offset: log.tz_offset,
             notes: log.notes || '',
             type: 'wod' as const,
             description: log.description || '',
-            result: log.result || ''
+            result: log.result || '',
+            score: log.score,
+            wod_format: log.wod_format,
+            benchmark_id: log.benchmark_id,
+            scaling: log.scaling,
+            scaling_notes: log.scaling_notes,
+            session_id: log.session_id
           };
         } else {
           // Determine measurement type based on filled fields
           let measurement_type: Exercise['measurement_type'];
-          if (log.weight && log.reps) {
+          if (log.measurement_type) {
+            measurement_type = log.measurement_type;
+          } else if (log.weight && log.reps) {
             measurement_type = 'weight_reps';
           } else if (log.time && log.distance) {
             measurement_type = 'distance_time';
@@ -115,17 +176,24 @@ export default function LogsScreen() {
             id: log.id,
             name: log.name,
             date: log.date,
+            local_date: log.local_date,
+            start_time: log.start_time,
+            tz_offset: log.tz_offset,
             notes: log.notes || '',
             type: 'exercise' as const,
+            exercise_id: log.exercise_id,
+            exercise_name: log.exercise_name,
             measurement_type,
             weight: log.weight || '',
             reps: log.reps || '',
             time: log.time || '',
             distance: log.distance || '',
+            sets: log.sets || [],
+            session_id: log.session_id,
           };
         }
       });
-      const sortedLogs = typedLogs.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      const sortedLogs = typedLogs.sort((a, b) => compareLogs(b, a));
       setLogs(sortedLogs);
       setFilteredLogs(applyFilters(sortedLogs));
     } catch (error) {
@@ -149,18 +217,22 @@ export default function LogsScreen() {
         const wodLog = log as WOD;
         const description = wodLog.description?.toLowerCase() || '';
         const result = wodLog.result?.toLowerCase() || '';
+        const wodFormat = wodLog.wod_format?.toLowerCase() || '';
         return (
           name.includes(searchTerm) ||
           notes.includes(searchTerm) ||
           description.includes(searchTerm) ||
-          result.includes(searchTerm)
+          result.includes(searchTerm) ||
+          wodFormat.includes(searchTerm)
         );
       } else {
         const exerciseLog = log as Exercise;
+        const canonicalName = (exerciseLog.exercise_name || '').toLowerCase();
         const weight = exerciseLog.weight?.toString().toLowerCase() || '';
         const reps = exerciseLog.reps?.toString().toLowerCase() || '';
         return (
           name.includes(searchTerm) ||
+          canonicalName.includes(searchTerm) ||
           notes.includes(searchTerm) ||
           weight.includes(searchTerm) ||
           reps.includes(searchTerm)
@@ -196,20 +268,46 @@ export default function LogsScreen() {
     }
   }, [settings.useMetric]);
 
+  const renderSets = useCallback((exercise: Exercise) => {
+    const groups = groupSets(getCompletedSets(exercise));
+    const pendingCount = (exercise.sets || []).filter(set => !set.done).length;
+
+    return (
+      <>
+        {groups.map((group, index) => {
+          const load = exercise.measurement_type === 'weight_reps' && group.weight !== undefined
+            ? ` @ ${formatWeight(String(group.weight))}`
+            : '';
+          const rpe = group.rpe !== undefined ? ` · RPE ${group.rpe}` : '';
+          return (
+            <ThemedText key={index} style={styles.exerciseDetails}>
+              {`${group.count} × ${group.reps ?? 0}${load}${rpe}`}
+            </ThemedText>
+          );
+        })}
+        {pendingCount > 0 && (
+          <ThemedText style={[styles.exerciseDetails, styles.pendingSets]}>
+            {`${pendingCount} ${pendingCount === 1 ? 'set' : 'sets'} not completed`}
+          </ThemedText>
+        )}
+      </>
+    );
+  }, [formatWeight]);
+
   const renderExerciseDetails = useCallback((exercise: Exercise) => {
+    if (usesSets(exercise.measurement_type)) {
+      return renderSets(exercise);
+    }
+
     switch (exercise.measurement_type) {
-      case 'weight_reps':
-        return <ThemedText style={styles.exerciseDetails}>{`${formatWeight(exercise.weight)} - ${exercise.reps} reps`}</ThemedText>;
       case 'time_only':
         return <ThemedText style={styles.exerciseDetails}>{`Time: ${formatTime(exercise.time)}`}</ThemedText>;
       case 'distance_time':
         return <ThemedText style={styles.exerciseDetails}>{`${formatDistance(exercise.distance)} - ${formatTime(exercise.time)}`}</ThemedText>;
-      case 'reps_only':
-        return <ThemedText style={styles.exerciseDetails}>{`${exercise.reps} reps`}</ThemedText>;
       default:
         return <ThemedText style={styles.exerciseDetails}>{''}</ThemedText>;
     }
-  }, [formatWeight, formatTime, formatDistance]);
+  }, [renderSets, formatTime, formatDistance]);
 
   const handleEdit = (log: WorkoutLog) => {
     if (!log.id) return;
@@ -220,18 +318,25 @@ export default function LogsScreen() {
       workoutType: log.type,
       name: log.name,
       notes: log.notes || '',
-      date: log.date,
+      ...getDateParams(log),
       ...(log.type === 'wod' 
         ? {
             description: (log as WOD).description || '',
-            result: (log as WOD).result || ''
+            result: (log as WOD).result || '',
+            score: (log as WOD).score ? JSON.stringify((log as WOD).score) : '',
+            wod_format: (log as WOD).wod_format || '',
+            benchmark_id: (log as WOD).benchmark_id || '',
+            scaling: (log as WOD).scaling || '',
+            scaling_notes: (log as WOD).scaling_notes || ''
           }
         : {
             weight: (log as Exercise).weight?.toString() || '',
             reps: (log as Exercise).reps?.toString() || '',
             time: (log as Exercise).time?.toString() || '',
             distance: (log as Exercise).distance?.toString() || '',
-            measurement_type: (log as Exercise).measurement_type || ''
+            measurement_type: (log as Exercise).measurement_type || '',
+            exercise_id: (log as Exercise).exercise_id?.toString() || '',
+            sets: JSON.stringify((log as Exercise).sets || [])
           }
       )
     };
@@ -270,9 +375,19 @@ export default function LogsScreen() {
     }
   };
 
+  const handleDuplicate = async (log: WorkoutLog) => {
+    try {
+      await duplicateWorkout(log, new Date().toISOString());
+      await loadLogs();
+    } catch (error) {
+      console.error('Error duplicating log:', error);
+      Alert.alert('Error', 'Failed to duplicate workout');
+    }
+  };
+
   const WorkoutCard = ({ log }: { log: WorkoutLog }) => {
     const isWOD = log.type === 'wod';
-    const formattedDate = format(new Date(log.date), 'MMM d, yyyy');
+    const formattedDate = format(getLogDate(log), 'MMM d, yyyy');
     const errorColor = colorScheme === 'dark' ? '#ff6b6b' : '#ff4444';
 
     return (
@@ -286,6 +401,24 @@ export default function LogsScreen() {
             <View style={styles.workoutInfo}>
               <ThemedText style={styles.workoutName}>{log.name}</ThemedText>
               <ThemedText style={styles.workoutDate}>{formattedDate}</ThemedText>
+              {isWOD && (!!(log as WOD).wod_format || !!(log as WOD).scaling) && (
+                <View style={styles.chipRow}>
+                  {!!(log as WOD).wod_format && (
+                    <View style={[styles.formatChip, { backgroundColor: colors.primary + '20' }]}>
+                      <ThemedText style={[styles.formatChipText, { color: colors.primary }]}>
+                        {(log as WOD).wod_format}
+                      </ThemedText>
+                    </View>
+                  )}
+                  {!!(log as WOD).scaling && (
+                    <View style={[styles.formatChip, { backgroundColor: colors.accent + '20' }]}>
+                      <ThemedText style={[styles.formatChipText, { color: colors.accent }]}>
+                        {getScalingLabel((log as WOD).scaling)}
+                      </ThemedText>
+                    </View>
+                  )}
+                </View>
+              )}
             </View>
             <View style={[styles.workoutType, { backgroundColor: isWOD ? colors.primary : colors.secondary }]}>
               <ThemedText style={styles.workoutTypeText}>
@@ -298,8 +431,9 @@ export default function LogsScreen() {
             {isWOD ? (
               <>
                 <ThemedText style={styles.workoutDescription}>{(log as WOD).description}</ThemedText>
-                {(log as WOD).result && (
-                  <ThemedText style={styles.workoutResult}>Result: {(log as WOD).result}</ThemedText>
+                <WodResult score={(log as WOD).score} result={(log as WOD).result} />
+                {(log as WOD).scaling === 'custom' && !!(log as WOD).scaling_notes && (
+                  <ThemedText style={styles.notes}>Scaling: {(log as WOD).scaling_notes}</ThemedText>
                 )}
               </>
             ) : (
@@ -312,6 +446,17 @@ export default function LogsScreen() {
             )}
           </View>
 
+          <TouchableOpacity
+            onPress={(e) => {
+              e.stopPropagation();
+              handleDuplicate(log);
+            }}
+            style={[styles.cardDuplicateButton, { backgroundColor: colors.primary + '15', borderColor: colors.primary + '33' }]}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons name="copy-outline" size={22} color={colors.primary} />
+          </TouchableOpacity>
+
           <TouchableOpacity 
             onPress={(e) => {
               e.stopPropagation();
@@ -327,10 +472,178 @@ export default function LogsScreen() {
     );
   };
 
+  const getLogItems = (logsToShow: WorkoutLog[]): LogItem[] => {
+    const items: LogItem[] = [];
+    const sessionItems = new Map<number, { kind: 'session'; session: WorkoutSession; logs: WorkoutLog[] }>();
+    for (const log of logsToShow) {
+      const session = log.session_id !== undefined ? sessions[log.session_id] : undefined;
+      if (!session) {
+        items.push({ kind: 'log', log });
+        continue;
+      }
+      const existing = sessionItems.get(session.id!);
+      if (existing) {
+        existing.logs.push(log);
+      } else {
+        const item = { kind: 'session' as const, session, logs: [log] };
+        sessionItems.set(session.id!, item);
+        items.push(item);
+      }
+    }
+    return items;
+  };
+
+  // Logs bucketed by local day, keeping the current sort order
+  const getDayGroups = (logsToShow: WorkoutLog[]): { day: string; logs: WorkoutLog[] }[] => {
+    const groups: { day: string; logs: WorkoutLog[] }[] = [];
+    for (const log of logsToShow) {
+      const day = getLogDay(log);
+      const last = groups[groups.length - 1];
+      if (last?.day === day) {
+        last.logs.push(log);
+      } else {
+        groups.push({ day, logs: [log] });
+      }
+    }
+    return groups;
+  };
+
+  const toggleDay = (day: string) => {
+    setCollapsedDays(prev => {
+      const next = new Set(prev);
+      if (next.has(day)) {
+        next.delete(day);
+      } else {
+        next.add(day);
+      }
+      return next;
+    });
+  };
+
+  const getDaySummary = (dayLogs: WorkoutLog[]): string => {
+    const volume = dayLogs.reduce(
+      (total, log) => total + (log.type === 'exercise' && log.measurement_type === 'weight_reps' ? getSessionVolume(log) : 0),
+      0
+    );
+    // Only live sessions know how long they took
+    const sessionIds = new Set(dayLogs.map(log => log.session_id).filter((id): id is number => id !== undefined));
+    const minutes = [...sessionIds].reduce((total, id) => {
+      const session = sessions[id];
+      if (!session?.finished_at) return total;
+      return total + Math.round((new Date(session.finished_at).getTime() - new Date(session.started_at).getTime()) / 60000);
+    }, 0);
+
+    const exerciseCount = dayLogs.filter(log => log.type === 'exercise').length;
+    const wodCount = dayLogs.length - exerciseCount;
+    const parts: string[] = [];
+    if (exerciseCount > 0) parts.push(`${exerciseCount} ${exerciseCount === 1 ? 'exercise' : 'exercises'}`);
+    if (wodCount > 0) parts.push(`${wodCount} ${wodCount === 1 ? 'WOD' : 'WODs'}`);
+    if (volume > 0) {
+      parts.push(`${Math.round(fromKg(volume, settings.useMetric)).toLocaleString()} ${weightUnit(settings.useMetric)}`);
+    }
+    if (minutes > 0) parts.push(`${minutes} min`);
+    return parts.join(' · ');
+  };
+
+  const getDayLabel = (day: string) => {
+    const date = new Date(`${day}T00:00:00`);
+    if (isToday(date)) return 'Today';
+    if (isYesterday(date)) return 'Yesterday';
+    return format(date, 'EEE, MMM d, yyyy');
+  };
+
+  // Headers and bodies as flat siblings so the ScrollView can make the headers sticky
+  const renderGroupedLogs = () => getDayGroups(filteredLogs).flatMap(({ day, logs: dayLogs }) => {
+    const isCollapsed = collapsedDays.has(day);
+    const header = (
+      <TouchableOpacity
+        key={`header-${day}`}
+        activeOpacity={0.8}
+        onPress={() => toggleDay(day)}
+        style={[styles.dayHeader, { backgroundColor: colors.background }]}
+      >
+        <Ionicons name={isCollapsed ? 'chevron-forward' : 'chevron-down'} size={18} color={colors.primary} />
+        <ThemedText style={styles.dayTitle}>{getDayLabel(day)}</ThemedText>
+        <ThemedText style={styles.daySummary}>{getDaySummary(dayLogs)}</ThemedText>
+      </TouchableOpacity>
+    );
+    if (isCollapsed) return [header];
+    return [
+      header,
+      <View key={`body-${day}`} style={styles.dayBody}>
+        {getLogItems(dayLogs).map((item, index) =>
+          item.kind === 'session'
+            ? <SessionCard key={`session-${item.session.id}`} session={item.session} logs={item.logs} />
+            : <WorkoutCard key={index} log={item.log} />
+        )}
+      </View>
+    ];
+  });
+
+  const SessionCard = ({ session, logs: sessionLogs }: { session: WorkoutSession; logs: WorkoutLog[] }) => {
+    const errorColor = colorScheme === 'dark' ? '#ff6b6b' : '#ff4444';
+    const minutes = session.finished_at
+      ? Math.max(1, Math.round((new Date(session.finished_at).getTime() - new Date(session.started_at).getTime()) / 60000))
+      : undefined;
+    const setCount = sessionLogs.reduce(
+      (total, log) => total + (log.type === 'exercise' ? getCompletedSets(log).length : 0),
+      0
+    );
+
+    return (
+      <View style={styles.cardContainer}>
+        <ThemedView style={[styles.workoutCard, styles.sessionCard, { backgroundColor: colors.cardBackground }]}>
+          <View style={styles.workoutHeader}>
+            <View style={styles.workoutInfo}>
+              <ThemedText style={styles.workoutName}>{session.name}</ThemedText>
+              <ThemedText style={styles.workoutDate}>
+                {format(new Date(session.started_at), 'MMM d, yyyy · h:mm a')}
+                {minutes !== undefined ? ` · ${minutes} min` : ''}
+              </ThemedText>
+              <ThemedText style={styles.workoutDate}>
+                {`${sessionLogs.length} ${sessionLogs.length === 1 ? 'exercise' : 'exercises'} · ${setCount} ${setCount === 1 ? 'set' : 'sets'}`}
+              </ThemedText>
+            </View>
+            <View style={[styles.workoutType, { backgroundColor: colors.accent }]}>
+              <ThemedText style={styles.workoutTypeText}>Session</ThemedText>
+            </View>
+          </View>
+
+          {sessionLogs.map(log => (
+            <TouchableOpacity
+              key={log.id}
+              style={styles.sessionEntry}
+              onPress={() => handleEdit(log)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.workoutInfo}>
+                <ThemedText style={styles.sessionEntryName}>{log.name}</ThemedText>
+                {log.type === 'exercise'
+                  ? renderExerciseDetails(log)
+                  : <WodResult score={log.score} result={log.result} />}
+              </View>
+              <TouchableOpacity
+                onPress={(e) => {
+                  e.stopPropagation();
+                  handleDeletePress(log);
+                }}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="trash-outline" size={18} color={errorColor} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))}
+        </ThemedView>
+      </View>
+    );
+  };
+
   const showFilterPanel = () => {
     setTempWorkoutTypeFilter(workoutTypeFilter);
     setTempDateFilter(dateFilter);
     setTempSortOrder(sortOrder);
+    setTempFormatFilter(formatFilter);
+    setTempScalingFilter(scalingFilter);
     setFilterModalVisible(true);
     Animated.spring(slideAnim, {
       toValue: 1,
@@ -353,12 +666,19 @@ export default function LogsScreen() {
 
   const Content = () => {
     if (isLoading) return null;
+    const isGrouped = settings.logsView === 'grouped' && filteredLogs.length > 0;
+    const groupedLogs = isGrouped ? renderGroupedLogs() : [];
+    // Offset by one for the page header above the list
+    const stickyHeaderIndices = groupedLogs
+      .map((element, index) => (String(element.key).startsWith('header-') ? index + 1 : -1))
+      .filter(index => index >= 0);
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
         <ScrollView 
           style={styles.scrollView} 
           showsVerticalScrollIndicator={false}
           contentInsetAdjustmentBehavior="automatic"
+          stickyHeaderIndices={stickyHeaderIndices}
         >
           <View style={styles.header}>
             <ThemedText style={styles.title}>Workout Logs</ThemedText>
@@ -401,6 +721,12 @@ export default function LogsScreen() {
                   </TouchableOpacity>
                 )}
               </View>
+              <TouchableOpacity
+                onPress={() => updateSettings({ logsView: settings.logsView === 'grouped' ? 'flat' : 'grouped' })}
+                style={[styles.filterButton, { height: Platform.OS === 'ios' ? 41 : 45 }]}
+              >
+                <Ionicons name={settings.logsView === 'grouped' ? 'list' : 'calendar-outline'} size={20} color={colors.text} />
+              </TouchableOpacity>
               <TouchableOpacity
                 onPress={showFilterPanel}
                 style={[styles.filterButton, { height: Platform.OS === 'ios' ? 41 : 45 }]}
@@ -408,16 +734,27 @@ export default function LogsScreen() {
                 <Ionicons name="filter" size={20} color={colors.text} />
               </TouchableOpacity>
             </View>
+            {dayFilter && (
+              <TouchableOpacity
+                style={[styles.dayFilterChip, { backgroundColor: colors.primary + '20' }]}
+                onPress={() => router.setParams({ day: undefined })}
+              >
+                <ThemedText style={[styles.dayFilterText, { color: colors.primary }]}>{getDayLabel(dayFilter)}</ThemedText>
+                <Ionicons name="close" size={16} color={colors.primary} />
+              </TouchableOpacity>
+            )}
           </View>
 
-          {filteredLogs.length > 0 ? (
+          {isGrouped ? groupedLogs : filteredLogs.length > 0 ? (
             <ScrollView 
               style={styles.logsContainer}
               showsVerticalScrollIndicator={false}
             >
-              {filteredLogs.map((log, index) => (
-                <WorkoutCard key={index} log={log} />
-              ))}
+              {getLogItems(filteredLogs).map((item, index) =>
+                item.kind === 'session'
+                  ? <SessionCard key={`session-${item.session.id}`} session={item.session} logs={item.logs} />
+                  : <WorkoutCard key={index} log={item.log} />
+              )}
             </ScrollView>
           ) : searchQuery !== '' ? (
             <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
@@ -477,7 +814,15 @@ export default function LogsScreen() {
     setWorkoutTypeFilter(tempWorkoutTypeFilter);
     setDateFilter(tempDateFilter);
     setSortOrder(tempSortOrder);
-    setFilteredLogs(applyFilters(logs));
+    setFormatFilter(tempFormatFilter);
+    setScalingFilter(tempScalingFilter);
+    setFilteredLogs(applyFilters(logs, {
+      workoutType: tempWorkoutTypeFilter,
+      date: tempDateFilter,
+      sort: tempSortOrder,
+      format: tempFormatFilter,
+      scaling: tempScalingFilter,
+    }));
     closePanel();
   };
 
@@ -569,6 +914,48 @@ export default function LogsScreen() {
               </View>
             </View>
 
+            <View style={styles.filterSection}>
+              <ThemedText style={styles.filterSectionTitle}>WOD Format</ThemedText>
+              <View style={styles.filterOptions}>
+                {['all', ...WORKOUT_TYPES].map(format => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[
+                      styles.filterOption,
+                      tempFormatFilter === format && { backgroundColor: colors.primary + '20' }
+                    ]}
+                    onPress={() => setTempFormatFilter(format)}
+                  >
+                    <ThemedText style={[
+                      styles.filterOptionText,
+                      tempFormatFilter === format && { color: colors.primary }
+                    ]}>{format === 'all' ? 'All' : format}</ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.filterSection}>
+              <ThemedText style={styles.filterSectionTitle}>Scaling</ThemedText>
+              <View style={styles.filterOptions}>
+                {[{ id: 'all' as const, label: 'All' }, ...WOD_SCALING_LEVELS].map(level => (
+                  <TouchableOpacity
+                    key={level.id}
+                    style={[
+                      styles.filterOption,
+                      tempScalingFilter === level.id && { backgroundColor: colors.primary + '20' }
+                    ]}
+                    onPress={() => setTempScalingFilter(level.id)}
+                  >
+                    <ThemedText style={[
+                      styles.filterOptionText,
+                      tempScalingFilter === level.id && { color: colors.primary }
+                    ]}>{level.label}</ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             <View style={styles.filterSection}>
               <ThemedText style={styles.filterSectionTitle}>Date Range</ThemedText>
               <View style={styles.filterOptions}>
@@ -691,6 +1078,42 @@ const styles = StyleSheet.create({
     padding: 20,
     gap: 16,
   },
+  dayFilterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  dayFilterText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  dayTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  daySummary: {
+    flex: 1,
+    fontSize: 13,
+    opacity: 0.6,
+    textAlign: 'right',
+  },
+  dayBody: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+    gap: 16,
+  },
   workoutCard: {
     borderRadius: 16,
     padding: 16,
@@ -736,6 +1159,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#FFFFFF',
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  formatChip: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  formatChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   workoutDetails: {
     gap: 8,
   },
@@ -743,15 +1182,15 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.8,
   },
-  workoutResult: {
-    fontSize: 14,
-    fontWeight: '500',
-  },
   exerciseDetails: {
     fontSize: 14,
     opacity: 0.8,
     marginTop: 4,
   },
+  pendingSets: {
+    fontStyle: 'italic',
+    opacity: 0.6,
+  },
   notes: {
     fontSize: 14,
     fontStyle: 'italic',
@@ -809,10 +1248,34 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20,
   },
+  sessionCard: {
+    paddingBottom: 16,
+  },
+  sessionEntry: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingTop: 12,
+    marginTop: 12,
+    borderTopWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderTopColor: 'rgba(128,128,128,0.2)',
+  },
+  sessionEntryName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   cardContainer: {
     position: 'relative',
     marginBottom: 16,
   },
+  cardDuplicateButton: {
+    position: 'absolute',
+    bottom: 12,
+    right: 68,
+    padding: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
   cardDeleteButton: {
     position: 'absolute',
     bottom: 12,
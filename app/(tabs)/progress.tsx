@@ -1,17 +1,40 @@
 import React, { useState, useCallback, useRef } from 'react';
-import { StyleSheet, View, ScrollView, Dimensions, Platform, TextInput } from 'react-native';
+import { StyleSheet, View, ScrollView, Dimensions, Platform, TextInput, Modal } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedText } from '../../components/ThemedText';
 import { ThemedView } from '../../components/ThemedView';
 import Colors from '../../constants/Colors';
 import { useColorScheme } from 'react-native';
-import { Exercise, WOD, getAllLogs } from '../../app/utils/db';
+import { BodyMetric, Exercise, WOD, getAllLogs, getBodyMetrics } from '../../app/utils/db';
 import { LineChart } from 'react-native-chart-kit';
 import { format } from 'date-fns';
 import { useSettings } from '../../contexts/SettingsContext';
+import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { TouchableOpacity } from 'react-native';
 import { AnimatedTabScreen } from '../../components/AnimatedTabScreen';
+import { getCompletedSets, getMaxRepsSet, getTopSet } from '../../app/utils/sets';
+import { getExerciseDisplayName } from '../../app/utils/exercises';
+import { OneRepMaxFormula, getBestOneRepMax, getRepMaxTable, roundOneRepMax } from '../../app/utils/oneRepMax';
+import { RepMaxTable } from '../../components/RepMaxTable';
+import { getBenchmarkHistory } from '../../app/utils/benchmarks';
+import { formatWodScore, getScalingLabel } from '../../app/utils/wodResults';
+import { getPeriodStart, getVolumeTrend, getWeeklyVolumes } from '../../app/utils/volume';
+import { formatWeight, fromKg, weightUnit } from '../../app/utils/units';
+import { compareLogs, getLogDate } from '../../app/utils/dates';
+import { getAchievements } from '../../app/utils/achievements';
+import {
+  MOVING_AVERAGE_DAYS,
+  formatMetricValue,
+  getLatestBodyweight,
+  getMetricSeries,
+  getMetricUnit,
+  getMovingAverage,
+  getRelativeStrength,
+  getTrackedMetrics,
+  toDisplayValue,
+} from '../../app/utils/bodyMetrics';
+import { BODY_METRICS, BodyMetricKey } from '../../constants/BodyMetrics';
 
 type WorkoutLog = (Exercise | WOD) & { type: 'exercise' | 'wod' };
 
@@ -42,13 +65,25 @@ type PRData = {
     distance?: string;
     date: Date;
   };
+  bestEstimate?: {
+    e1rm: number;
+    weight: number;
+    reps: number;
+    date: Date;
+  };
   type: 'weight_reps' | 'time_only' | 'distance_time' | 'reps_only';
 };
 
 type Settings = {
   useMetric: boolean;
+  oneRepMaxFormula: OneRepMaxFormula;
+  restDays: number[];
+  weeklyGoal: number;
 };
 
+// Most recent check-ins plotted on the body metrics chart
+const BODY_CHART_POINTS = 30;
+
 type ExerciseDataBase = {
   date: Date;
   value: number;
@@ -57,6 +92,7 @@ type ExerciseDataBase = {
 type WeightExerciseData = ExerciseDataBase & {
   type: 'weight';
   reps: number;
+  e1rm: number;
 };
 
 type TimeExerciseData = ExerciseDataBase & {
@@ -77,6 +113,8 @@ type ExerciseData = WeightExerciseData | TimeExerciseData | TimeDistanceExercise
 type ChartData = {
   name: string;
   data: number[];
+  // Best estimated 1RM per session, weight charts only
+  e1rm?: number[];
   dates: string[];
   type: 'weight' | 'time' | 'reps';
   formatter: (value: number) => string;
@@ -89,86 +127,39 @@ export default function ProgressScreen() {
   const [filteredExercises, setFilteredExercises] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
+  const [repMaxExercise, setRepMaxExercise] = useState<string | null>(null);
+  const [expandedBenchmark, setExpandedBenchmark] = useState<string | null>(null);
+  const [bodyMetrics, setBodyMetrics] = useState<BodyMetric[]>([]);
+  const [bodyMetric, setBodyMetric] = useState<BodyMetricKey>('weight');
   const { settings } = useSettings() as { settings: Settings };
   const screenWidth = Dimensions.get('window').width;
   const searchRef = useRef<string>('');
 
-  const loadLogs = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const allLogs = await getAllLogs();
-      const typedLogs: WorkoutLog[] = allLogs.map(log => {
-        if (log.type === 'wod') {
-          return {
-            id: log.id,
-            name: log.name,
-            date: log.date,
-            notes: log.notes || '',
-            type: 'wod' as const,
-            description: log.description || '',
-            result: log.result || ''
-          };
-        } else {
-          // Determine measurement type based on filled fields
-          let measurement_type: Exercise['measurement_type'];
-          if (log.measurement_type) {
-            measurement_type = log.measurement_type;
-          } else if (log.weight && log.reps) {
-            measurement_type = 'weight_reps';
-          } else if (log.time && log.distance) {
-            measurement_type = 'distance_time';
-          } else if (log.time) {
-            measurement_type = 'time_only';
-          } else if (log.reps) {
-            measurement_type = 'reps_only';
-          } else {
-            measurement_type = 'weight_reps'; // fallback
-          }
-
-          return {
-            id: log.id,
-            name: log.name,
-            date: log.date,
-            notes: log.notes || '',
-            type: 'exercise' as const,
-            measurement_type,
-            weight: log.weight || '',
-            reps: log.reps || '',
-            time: log.time || '',
-            distance: log.distance || '',
-          };
-        }
-      });
-      const sortedLogs = typedLogs.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      setLogs(sortedLogs);
-      
-      const exerciseProgress = getExerciseProgressData(sortedLogs);
-      setFilteredExercises(exerciseProgress);
-    } catch (error) {
-      console.error('Error loading logs:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
   const getExerciseProgressData = useCallback((currentLogs: WorkoutLog[]): ChartData[] => {
     const exerciseLogs = currentLogs.filter(log => log.type === 'exercise') as Exercise[];
-    const exerciseNames = [...new Set(exerciseLogs.map(log => log.name))];
+    const exerciseNames = [...new Set(exerciseLogs.map(getExerciseDisplayName))];
     
     return exerciseNames.map(name => {
       const exerciseData = exerciseLogs
-        .filter(log => log.name === name)
+        .filter(log => getExerciseDisplayName(log) === name)
         .map(log => {
-          const date = new Date(log.date);
+          const date = getLogDate(log);
           
           switch (log.measurement_type) {
-            case 'weight_reps':
+            case 'weight_reps': {
+              // Chart the heaviest completed set of each session
+              const completedSets = getCompletedSets(log);
+              const topSet = getTopSet(completedSets);
+              const estimate = getBestOneRepMax(completedSets, settings.oneRepMaxFormula);
               return {
                 date,
-                value: parseFloat(log.weight || '0'),
-                reps: parseInt(log.reps || '0'),
+                value: topSet?.weight ?? 0,
+                reps: topSet?.reps ?? 0,
+                // Sessions with only high-rep sets have no estimate; their top weight is a floor
+                e1rm: roundOneRepMax(estimate?.e1rm ?? topSet?.weight ?? 0),
                 type: 'weight' as const
               };
+            }
             
             case 'time_only':
               console.log('Processing time_only:', log.time);
@@ -194,7 +185,7 @@ export default function ProgressScreen() {
             case 'reps_only':
               return {
                 date,
-                value: parseInt(log.reps || '0'),
+                value: getMaxRepsSet(getCompletedSets(log))?.reps ?? 0,
                 type: 'reps' as const
               };
             
@@ -241,9 +232,14 @@ export default function ProgressScreen() {
       };
 
       const chartType = getChartType(exerciseData);
+      // Weights are stored in kg; chart them in the unit the axis is labelled with
+      const toDisplayWeight = (kg: number) => Math.round(fromKg(kg, settings.useMetric) * 10) / 10;
       return {
         name,
-        data: exerciseData.map(d => d.value),
+        data: exerciseData.map(d => (chartType === 'weight' ? toDisplayWeight(d.value) : d.value)),
+        e1rm: chartType === 'weight'
+          ? exerciseData.map(d => toDisplayWeight(d.type === 'weight' ? d.e1rm : d.value))
+          : undefined,
         dates: exerciseData.map(d => format(d.date, 'MMM d')),
         type: chartType,
         formatter: chartType === 'time' ? formatSeconds : String
@@ -252,7 +248,76 @@ export default function ProgressScreen() {
     .flat()
     .filter((data): data is NonNullable<typeof data> => !!data)
     .sort((a, b) => b.data.length - a.data.length);
-  }, []);
+  }, [settings.oneRepMaxFormula, settings.useMetric]);
+
+  const loadLogs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allLogs, metrics] = await Promise.all([getAllLogs(), getBodyMetrics()]);
+      setBodyMetrics(metrics);
+      const typedLogs: WorkoutLog[] = allLogs.map(log => {
+        if (log.type === 'wod') {
+          return {
+            id: log.id,
+            name: log.name,
+            date: log.date,
+            local_date: log.local_date,
+            notes: log.notes || '',
+            type: 'wod' as const,
+            description: log.description || '',
+            result: log.result || '',
+            score: log.score,
+            wod_format: log.wod_format,
+            benchmark_id: log.benchmark_id,
+            scaling: log.scaling,
+            scaling_notes: log.scaling_notes
+          };
+        } else {
+          // Determine measurement type based on filled fields
+          let measurement_type: Exercise['measurement_type'];
+          if (log.measurement_type) {
+            measurement_type = log.measurement_type;
+          } else if (log.weight && log.reps) {
+            measurement_type = 'weight_reps';
+          } else if (log.time && log.distance) {
+            measurement_type = 'distance_time';
+          } else if (log.time) {
+            measurement_type = 'time_only';
+          } else if (log.reps) {
+            measurement_type = 'reps_only';
+          } else {
+            measurement_type = 'weight_reps'; // fallback
+          }
+
+          return {
+            id: log.id,
+            name: log.name,
+            date: log.date,
+            local_date: log.local_date,
+            notes: log.notes || '',
+            type: 'exercise' as const,
+            exercise_id: log.exercise_id,
+            exercise_name: log.exercise_name,
+            measurement_type,
+            weight: log.weight || '',
+            reps: log.reps || '',
+            time: log.time || '',
+            distance: log.distance || '',
+            sets: log.sets || [],
+          };
+        }
+      });
+      const sortedLogs = typedLogs.sort(compareLogs);
+      setLogs(sortedLogs);
+      
+      const exerciseProgress = getExerciseProgressData(sortedLogs);
+      setFilteredExercises(exerciseProgress);
+    } catch (error) {
+      console.error('Error loading logs:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getExerciseProgressData]);
 
   const timeToSeconds = (timeStr: string | undefined): number => {
     if (!timeStr) return 0;
@@ -303,10 +368,10 @@ export default function ProgressScreen() {
 
   const getPRData = useCallback(() => {
     const exerciseLogs = logs.filter(log => log.type === 'exercise') as Exercise[];
-    const exerciseNames = [...new Set(exerciseLogs.map(log => log.name))];
+    const exerciseNames = [...new Set(exerciseLogs.map(getExerciseDisplayName))];
 
     return exerciseNames.map(name => {
-      const exerciseData = exerciseLogs.filter(log => log.name === name);
+      const exerciseData = exerciseLogs.filter(log => getExerciseDisplayName(log) === name);
       if (exerciseData.length === 0) return null;
       
       const measurementType = exerciseData[0]?.measurement_type;
@@ -314,11 +379,14 @@ export default function ProgressScreen() {
 
       switch (measurementType) {
         case 'weight_reps': {
+          // Every completed set competes for the best weight at its rep count
           const bestAttempts = exerciseData.reduce((acc, data) => {
-            const reps = parseInt(data.reps || '0');
-            const weight = parseFloat(data.weight || '0');
-            if (reps > 0 && weight > 0 && (!acc[reps] || weight > acc[reps].weight)) {
-              acc[reps] = { weight, date: new Date(data.date) };
+            for (const set of getCompletedSets(data)) {
+              const reps = set.reps ?? 0;
+              const weight = set.weight ?? 0;
+              if (reps > 0 && weight > 0 && (!acc[reps] || weight > acc[reps].weight)) {
+                acc[reps] = { weight, date: getLogDate(data) };
+              }
             }
             return acc;
           }, {} as Record<number, { weight: number; date: Date }>);
@@ -328,6 +396,13 @@ export default function ProgressScreen() {
 
           if (!bestReps) return null;
 
+          // Puts a heavy single and a lighter set of five on the same scale
+          const bestEstimate = exerciseData.reduce<PRData['bestEstimate']>((best, data) => {
+            const estimate = getBestOneRepMax(getCompletedSets(data), settings.oneRepMaxFormula);
+            if (!estimate || (best && best.e1rm >= estimate.e1rm)) return best;
+            return { ...estimate, e1rm: roundOneRepMax(estimate.e1rm), date: getLogDate(data) };
+          }, undefined);
+
           return {
             name,
             bestAttempt: {
@@ -335,6 +410,7 @@ export default function ProgressScreen() {
               reps: parseInt(bestReps[0]),
               date: bestReps[1].date
             },
+            bestEstimate,
             type: 'weight_reps' as const
           };
         }
@@ -346,7 +422,7 @@ export default function ProgressScreen() {
               console.log('Time from DB:', data.time, 'parsed as:', time);
               return { 
                 time,
-                date: new Date(data.date) 
+                date: getLogDate(data) 
               };
             })
             .filter(({ time }) => time > 0);
@@ -378,7 +454,7 @@ export default function ProgressScreen() {
             if (!acc[data.distance]) {
               acc[data.distance] = [];
             }
-            acc[data.distance].push({ time, date: new Date(data.date) });
+            acc[data.distance].push({ time, date: getLogDate(data) });
             return acc;
           }, {} as Record<string, { time: number; date: Date }[]>);
 
@@ -401,7 +477,7 @@ export default function ProgressScreen() {
 
         case 'reps_only': {
           const attempts = exerciseData
-            .map(data => ({ reps: parseInt(data.reps || '0'), date: new Date(data.date) }))
+            .map(data => ({ reps: getMaxRepsSet(getCompletedSets(data))?.reps ?? 0, date: getLogDate(data) }))
             .filter(({ reps }) => reps > 0);
 
           if (attempts.length === 0) return null;
@@ -427,7 +503,223 @@ export default function ProgressScreen() {
     .flat()
     .filter((data): data is NonNullable<typeof data> => !!data)
     .sort((a, b) => b.bestAttempt.date.getTime() - a.bestAttempt.date.getTime());
-  }, [logs]);
+  }, [logs, settings.oneRepMaxFormula]);
+
+  // Full 1RM–10RM breakdown behind a weight_reps PR card
+  const getRepMaxData = useCallback((name: string) => {
+    const sessions = (logs.filter(log => log.type === 'exercise') as Exercise[])
+      .filter(log => getExerciseDisplayName(log) === name)
+      .map(log => ({ sets: getCompletedSets(log), date: getLogDate(log) }));
+    return getRepMaxTable(sessions, settings.oneRepMaxFormula);
+  }, [logs, settings.oneRepMaxFormula]);
+
+  const openExerciseDetail = useCallback((name: string) => {
+    setRepMaxExercise(null);
+    router.push({ pathname: '/exercise/[name]', params: { name } });
+  }, []);
+
+  const formatWodResult = (wod: WOD) => (wod.score ? formatWodScore(wod.score) : wod.result || '—');
+
+  const renderBenchmarks = () => {
+    const history = getBenchmarkHistory(logs.filter(log => log.type === 'wod') as WOD[])
+      .filter(({ benchmark }) => benchmark.name.toLowerCase().includes(searchQuery.toLowerCase()));
+    if (history.length === 0) return null;
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>Benchmarks</ThemedText>
+        {history.map(({ benchmark, attempts, best, bestRx, bestScaled }) => {
+          const isExpanded = expandedBenchmark === benchmark.id;
+          return (
+            <View key={benchmark.id} style={styles.benchmarkItem}>
+              <TouchableOpacity
+                style={styles.benchmarkHeader}
+                onPress={() => setExpandedBenchmark(isExpanded ? null : benchmark.id)}
+              >
+                <View style={styles.benchmarkInfo}>
+                  <ThemedText style={styles.benchmarkName}>{benchmark.name}</ThemedText>
+                  <ThemedText style={styles.benchmarkMeta}>
+                    {`${benchmark.category} · ${attempts.length} ${attempts.length === 1 ? 'attempt' : 'attempts'}`}
+                  </ThemedText>
+                </View>
+                <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color={colors.tabIconDefault} />
+              </TouchableOpacity>
+
+              <View style={styles.benchmarkBests}>
+                {[{ label: 'Rx', best: bestRx, color: colors.primary }, { label: 'Scaled', best: bestScaled, color: colors.tabIconDefault }]
+                  .filter(({ best }) => !!best)
+                  .map(({ label, best, color }) => (
+                    <View key={label} style={styles.benchmarkBest}>
+                      <View style={[styles.e1rmBadge, { backgroundColor: color }]}>
+                        <ThemedText style={styles.prLabel}>{label}</ThemedText>
+                      </View>
+                      <ThemedText style={styles.benchmarkScore}>{formatWodResult(best as WOD)}</ThemedText>
+                    </View>
+                  ))}
+              </View>
+
+              {isExpanded && attempts.map(attempt => {
+                const isBest = attempt === best;
+                return (
+                  <View key={attempt.id} style={styles.benchmarkAttempt}>
+                    <ThemedText style={styles.benchmarkAttemptDate}>{format(getLogDate(attempt), 'MMM d, yyyy')}</ThemedText>
+                    <ThemedText style={[styles.benchmarkAttemptScore, isBest && { color: colors.primary, fontWeight: '600' }]}>
+                      {formatWodResult(attempt)}
+                    </ThemedText>
+                    {isBest && <Ionicons name="trophy" size={14} color={colors.accent} />}
+                    <ThemedText style={styles.benchmarkAttemptScaling}>
+                      {getScalingLabel(attempt.scaling)}
+                    </ThemedText>
+                  </View>
+                );
+              })}
+            </View>
+          );
+        })}
+      </ThemedView>
+    );
+  };
+
+  // This week's tonnage against recent weeks; the full breakdown lives on /volume
+  const renderVolumeSummary = () => {
+    const exerciseLogs = logs.filter(log => log.type === 'exercise') as Exercise[];
+    const weeks = getWeeklyVolumes(exerciseLogs, getPeriodStart('12w', exerciseLogs));
+    const thisWeek = weeks[weeks.length - 1]?.volume ?? 0;
+    const trend = getVolumeTrend(weeks);
+    const formatVolume = (kg: number) =>
+      `${Math.round(fromKg(kg, settings.useMetric)).toLocaleString()}${weightUnit(settings.useMetric)}`;
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <TouchableOpacity style={styles.cardTitleRow} onPress={() => router.push('/volume')}>
+          <ThemedText style={[styles.cardTitle, styles.cardTitleText]}>Training Volume</ThemedText>
+          <Ionicons name="chevron-forward" size={20} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        <ThemedText style={styles.volumeValue}>{formatVolume(thisWeek)}</ThemedText>
+        <ThemedText style={styles.volumeMeta}>
+          {trend
+            ? `This week · last week ${formatVolume(trend.current)}, ${formatVolume(trend.baseline)} average before`
+            : 'This week'}
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  // Latest unlocked milestones; the full log lives on /achievements
+  const renderAchievementsSummary = () => {
+    const achievements = getAchievements(
+      logs,
+      { restDays: settings.restDays, weeklyGoal: settings.weeklyGoal },
+      settings.useMetric
+    );
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <TouchableOpacity style={styles.cardTitleRow} onPress={() => router.push('/achievements')}>
+          <ThemedText style={[styles.cardTitle, styles.cardTitleText]}>Achievements</ThemedText>
+          <Ionicons name="chevron-forward" size={20} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        {achievements.slice(0, 3).map(achievement => (
+          <View key={achievement.id} style={styles.achievementRow}>
+            <Ionicons name={achievement.icon} size={20} color={colors.primary} />
+            <ThemedText style={styles.achievementTitle}>{achievement.title}</ThemedText>
+            <ThemedText style={styles.volumeMeta}>{format(achievement.date, 'MMM d, yyyy')}</ThemedText>
+          </View>
+        ))}
+        <ThemedText style={styles.volumeMeta}>
+          {achievements.length} unlocked
+        </ThemedText>
+      </ThemedView>
+    );
+  };
+
+  // Trend for one metric with its moving average; entries are edited on /body
+  const renderBodyMetrics = () => {
+    const tracked = getTrackedMetrics(bodyMetrics);
+    if (tracked.length === 0) {
+      return (
+        <TouchableOpacity activeOpacity={0.7} onPress={() => router.push('/body/new')}>
+          <ThemedView style={[styles.card, styles.bodyPrompt, { backgroundColor: colors.cardBackground }]}>
+            <Ionicons name="body-outline" size={24} color={colors.primary} />
+            <View style={styles.bodyPromptInfo}>
+              <ThemedText style={styles.achievementTitle}>Log bodyweight</ThemedText>
+              <ThemedText style={styles.volumeMeta}>Track bodyweight, body fat and measurements over time</ThemedText>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+          </ThemedView>
+        </TouchableOpacity>
+      );
+    }
+
+    const metric = tracked.includes(bodyMetric) ? bodyMetric : tracked[0];
+    const series = getMetricSeries(bodyMetrics, metric);
+    // Averaged over the full series so the first plotted point still has its week behind it
+    const average = getMovingAverage(series).slice(-BODY_CHART_POINTS);
+    const points = series.slice(-BODY_CHART_POINTS);
+    const labelEvery = Math.ceil(points.length / 6);
+    const latest = series[series.length - 1];
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <TouchableOpacity style={styles.cardTitleRow} onPress={() => router.push('/body')}>
+          <ThemedText style={[styles.cardTitle, styles.cardTitleText]}>Body Metrics</ThemedText>
+          <Ionicons name="chevron-forward" size={20} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        {tracked.length > 1 && (
+          <View style={styles.chipRow}>
+            {BODY_METRICS.filter(option => tracked.includes(option.id)).map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, option.id === metric && { backgroundColor: colors.primary }]}
+                onPress={() => setBodyMetric(option.id)}
+              >
+                <ThemedText style={[styles.chipText, option.id === metric && { color: '#FFFFFF' }]}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <ThemedText style={styles.volumeValue}>
+          {formatMetricValue(metric, latest.value, settings.useMetric)}
+        </ThemedText>
+        <ThemedText style={styles.volumeMeta}>Latest · {format(latest.date, 'MMM d, yyyy')}</ThemedText>
+        {points.length > 1 && (
+          <View style={styles.chartWrapper}>
+            <LineChart
+              data={{
+                labels: points.map((point, index) => (index % labelEvery === 0 ? format(point.date, 'MMM d') : '')),
+                datasets: [
+                  {
+                    data: points.map(point => toDisplayValue(metric, point.value, settings.useMetric)),
+                    color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                    strokeWidth: 2,
+                  },
+                  {
+                    data: average.map(point => toDisplayValue(metric, point.value, settings.useMetric)),
+                    color: (opacity = 1) => colors.accent + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                    strokeWidth: 3,
+                  },
+                ],
+                legend: ['Entries', `${MOVING_AVERAGE_DAYS}-day avg`]
+              }}
+              width={screenWidth - 48}
+              height={220}
+              chartConfig={chartConfig}
+              style={styles.chart}
+              bezier
+              withDots
+              withInnerLines={false}
+              withOuterLines={false}
+              withShadow={false}
+              yAxisLabel=""
+              yAxisSuffix={getMetricUnit(metric, settings.useMetric)}
+            />
+          </View>
+        )}
+      </ThemedView>
+    );
+  };
 
   const getChartSuffix = (type: ChartData['type']): string => {
     switch (type) {
@@ -464,7 +756,15 @@ export default function ProgressScreen() {
           contentInsetAdjustmentBehavior="automatic"
         >
           <View style={styles.header}>
-            <ThemedText style={styles.title}>Progress Insights</ThemedText>
+            <View style={styles.titleRow}>
+              <ThemedText style={styles.title}>Progress Insights</ThemedText>
+              <TouchableOpacity
+                onPress={() => router.push('/calculator')}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              >
+                <Ionicons name="calculator-outline" size={26} color={colors.primary} />
+              </TouchableOpacity>
+            </View>
             <View style={[styles.searchContainer, { backgroundColor: colors.cardBackground }]}>
               <Ionicons 
                 name="search" 
@@ -507,6 +807,9 @@ export default function ProgressScreen() {
           {logs.length > 0 ? (
             <>
               <View style={styles.logsContainer}>
+                {renderVolumeSummary()}
+                {renderAchievementsSummary()}
+                {renderBodyMetrics()}
                 {getPRData()
                   .filter(exercise => exercise.name.toLowerCase().includes(searchQuery.toLowerCase()))
                   .length > 0 ? (
@@ -541,6 +844,7 @@ export default function ProgressScreen() {
                   </ThemedView>
                 )}
               </View>
+              {renderBenchmarks()}
             </>
           ) : (
             <ThemedText style={styles.noDataText}>No workout data available</ThemedText>
@@ -548,16 +852,27 @@ export default function ProgressScreen() {
 
           {filteredExercises.map((exercise, index) => (
             <ThemedView key={index} style={[styles.card, { backgroundColor: colors.cardBackground}]}>
-              <ThemedText style={styles.cardTitle}>{exercise.name} Progress</ThemedText>
+              <TouchableOpacity style={styles.cardTitleRow} onPress={() => openExerciseDetail(exercise.name)}>
+                <ThemedText style={[styles.cardTitle, styles.cardTitleText]}>{exercise.name} Progress</ThemedText>
+                <Ionicons name="chevron-forward" size={20} color={colors.tabIconDefault} />
+              </TouchableOpacity>
               <View style={styles.chartWrapper}>
                 <LineChart
                   data={{
                     labels: exercise.dates,
-                    datasets: [{ 
-                      data: exercise.data,
-                      color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
-                      strokeWidth: 3,
-                    }]
+                    datasets: [
+                      { 
+                        data: exercise.data,
+                        color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                        strokeWidth: 3,
+                      },
+                      ...(exercise.e1rm ? [{
+                        data: exercise.e1rm,
+                        color: (opacity = 1) => colors.accent + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                        strokeWidth: 2,
+                      }] : [])
+                    ],
+                    legend: exercise.e1rm ? ['Top set', 'e1RM'] : undefined
                   }}
                   width={screenWidth - 48}
                   height={220}
@@ -596,17 +911,72 @@ export default function ProgressScreen() {
           ))}
           <View style={styles.bottomSpacer} />
         </ScrollView>
+
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={repMaxExercise !== null}
+          onRequestClose={() => setRepMaxExercise(null)}
+        >
+          <View style={styles.sheetOverlay}>
+            <TouchableOpacity
+              style={{ flex: 1 }}
+              activeOpacity={1}
+              onPress={() => setRepMaxExercise(null)}
+            />
+            <ThemedView style={[styles.sheetContent, { backgroundColor: colors.cardBackground }]}>
+              <View style={styles.sheetHeader}>
+                <View style={styles.sheetTitleContainer}>
+                  <ThemedText style={styles.sheetTitle}>{repMaxExercise}</ThemedText>
+                  <ThemedText style={styles.sheetSubtitle}>Rep maxes</ThemedText>
+                </View>
+                <TouchableOpacity onPress={() => setRepMaxExercise(null)}>
+                  <Ionicons name="close" size={24} color={colors.text} />
+                </TouchableOpacity>
+              </View>
+              {repMaxExercise !== null && (
+                <>
+                  <RepMaxTable
+                    entries={getRepMaxData(repMaxExercise)}
+                    useMetric={settings.useMetric}
+                  />
+                  <TouchableOpacity
+                    style={[styles.sheetButton, { backgroundColor: colors.primary }]}
+                    onPress={() => openExerciseDetail(repMaxExercise)}
+                  >
+                    <ThemedText style={styles.sheetButtonText}>Full history</ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.sheetButton, styles.sheetButtonSecondary, { borderColor: colors.primary }]}
+                    onPress={() => {
+                      setRepMaxExercise(null);
+                      router.push({ pathname: '/calculator', params: { exercise: repMaxExercise } });
+                    }}
+                  >
+                    <ThemedText style={[styles.sheetButtonText, { color: colors.primary }]}>Percentages</ThemedText>
+                  </TouchableOpacity>
+                </>
+              )}
+            </ThemedView>
+          </View>
+        </Modal>
       </SafeAreaView>
     );
   };
 
+  // kg; relative strength on the PR cards is measured against this
+  const latestBodyweight = getLatestBodyweight(bodyMetrics);
+
   const renderPR = useCallback((pr: PRData) => {
     const currentColors = Colors[colorScheme ?? 'light'] as Colors[ColorScheme];
 
     switch (pr.type) {
       case 'weight_reps':
         return (
-          <View style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}>
+          <TouchableOpacity
+            style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}
+            onPress={() => setRepMaxExercise(pr.name)}
+          >
             <View style={styles.prHeader}>
               <ThemedText style={styles.prExerciseName}>
                 {pr.name}
@@ -618,16 +988,41 @@ export default function ProgressScreen() {
               </View>
             </View>
             <ThemedText style={styles.prWeight}>
-              {settings.useMetric ? 
-                `${pr.bestAttempt.weight}kg` : 
-                `${Math.round((pr.bestAttempt.weight || 0) * 2.20462)}lb`}
+              {formatWeight(pr.bestAttempt.weight, settings.useMetric)}
             </ThemedText>
-          </View>
+            {pr.bestEstimate && (
+              <View style={styles.e1rmRow}>
+                <View style={[styles.e1rmBadge, { backgroundColor: currentColors.accent }]}>
+                  <ThemedText style={styles.prLabel}>e1RM PR</ThemedText>
+                </View>
+                <ThemedText style={styles.e1rmValue}>
+                  {formatWeight(pr.bestEstimate.e1rm, settings.useMetric)}
+                </ThemedText>
+              </View>
+            )}
+            {pr.bestEstimate && (
+              <ThemedText style={styles.prDate}>
+                {`from ${formatWeight(pr.bestEstimate.weight, settings.useMetric)} × ${pr.bestEstimate.reps} · ${format(pr.bestEstimate.date, 'MMM d')}`}
+              </ThemedText>
+            )}
+            {latestBodyweight !== undefined && (pr.bestAttempt.weight ?? 0) > 0 && (
+              <ThemedText style={styles.prDate}>
+                {`${getRelativeStrength(pr.bestAttempt.weight!, latestBodyweight)}× bodyweight (${formatWeight(latestBodyweight, settings.useMetric)})`}
+              </ThemedText>
+            )}
+            <View style={styles.prLinkRow}>
+              <ThemedText style={[styles.prLink, { color: currentColors.primary }]}>Rep maxes</ThemedText>
+              <Ionicons name="chevron-forward" size={14} color={currentColors.primary} />
+            </View>
+          </TouchableOpacity>
         );
 
       case 'time_only':
         return (
-          <View style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}>
+          <TouchableOpacity
+            style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}
+            onPress={() => openExerciseDetail(pr.name)}
+          >
             <View style={styles.prHeader}>
               <ThemedText style={styles.prExerciseName}>
                 {pr.name}
@@ -636,12 +1031,15 @@ export default function ProgressScreen() {
             <ThemedText style={styles.prWeight}>
               {pr.bestAttempt.time}
             </ThemedText>
-          </View>
+          </TouchableOpacity>
         );
 
       case 'distance_time':
         return (
-          <View style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}>
+          <TouchableOpacity
+            style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}
+            onPress={() => openExerciseDetail(pr.name)}
+          >
             <View style={styles.prHeader}>
               <ThemedText style={styles.prExerciseName}>
                 {pr.name}
@@ -655,12 +1053,15 @@ export default function ProgressScreen() {
             <ThemedText style={styles.prWeight}>
               {pr.bestAttempt.time}
             </ThemedText>
-          </View>
+          </TouchableOpacity>
         );
 
       case 'reps_only':
         return (
-          <View style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}>
+          <TouchableOpacity
+            style={[styles.prCard, { backgroundColor: currentColors.primary + '10' }]}
+            onPress={() => openExerciseDetail(pr.name)}
+          >
             <View style={styles.prHeader}>
               <ThemedText style={styles.prExerciseName}>
                 {pr.name}
@@ -669,10 +1070,10 @@ export default function ProgressScreen() {
             <ThemedText style={styles.prWeight}>
               {pr.bestAttempt.reps} {pr.bestAttempt.reps === 1 ? 'rep' : 'reps'}
             </ThemedText>
-          </View>
+          </TouchableOpacity>
         );
     }
-  }, [colorScheme, settings, formatDistance]);
+  }, [colorScheme, settings, formatDistance, openExerciseDetail, latestBodyweight]);
 
   return (
     <AnimatedTabScreen onScreenFocus={handleScreenFocus}>
@@ -696,6 +1097,11 @@ const styles = StyleSheet.create({
   header: {
     padding: 20,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 28,
     fontWeight: 'bold',
@@ -877,6 +1283,136 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  e1rmRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+    marginBottom: 2,
+  },
+  e1rmBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  e1rmValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  prLinkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  prLink: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  benchmarkItem: {
+    paddingVertical: 10,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  benchmarkHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  benchmarkInfo: {
+    flex: 1,
+  },
+  benchmarkName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  benchmarkMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  benchmarkBests: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+    marginTop: 6,
+  },
+  benchmarkBest: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  benchmarkScore: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  benchmarkAttempt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  benchmarkAttemptDate: {
+    fontSize: 13,
+    opacity: 0.6,
+    width: 90,
+  },
+  benchmarkAttemptScore: {
+    flex: 1,
+    fontSize: 14,
+  },
+  benchmarkAttemptScaling: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  sheetButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  sheetButtonSecondary: {
+    marginTop: 8,
+    borderWidth: 1,
+  },
+  sheetButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardTitleText: {
+    flex: 1,
+  },
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheetContent: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 24,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+  },
+  sheetTitleContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sheetTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  sheetSubtitle: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
   noResultsContainer: {
     alignItems: 'center',
     padding: 24,
@@ -903,4 +1439,49 @@ const styles = StyleSheet.create({
   logsContainer: {
     paddingTop: 20,
   },
+  volumeValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    lineHeight: 34,
+  },
+  volumeMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  achievementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  achievementTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  bodyPrompt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  bodyPromptInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
 }); 
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react';
-import { StyleSheet, View, ScrollView, Platform, Switch } from 'react-native';
+import { StyleSheet, View, ScrollView, Platform, Switch, TouchableOpacity } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ThemedText } from '../../components/ThemedText';
 import { ThemedView } from '../../components/ThemedView';
@@ -8,6 +8,11 @@ import { useColorScheme } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../../contexts/SettingsContext';
 import { AnimatedTabScreen } from '../../components/AnimatedTabScreen';
+import { ONE_REP_MAX_FORMULAS } from '../../app/utils/oneRepMax';
+import { weightUnit } from '../../app/utils/units';
+import { REST_PRESETS, formatRestPreset } from '../../app/utils/restTimer';
+import { WEEKDAYS, WEEKLY_GOAL_OPTIONS } from '../../app/utils/streaks';
+import { router } from 'expo-router';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
@@ -51,6 +56,53 @@ export default function SettingsScreen() {
     </ThemedView>
   );
 
+  const OptionSettingItem = <T extends string>({
+    icon,
+    title,
+    description,
+    options,
+    value,
+    onValueChange
+  }: {
+    icon: React.ComponentProps<typeof Ionicons>['name'];
+    title: string;
+    description: string;
+    options: { id: T; label: string }[];
+    value: T;
+    onValueChange: (newValue: T) => void;
+  }) => (
+    <ThemedView style={[styles.settingCard, { backgroundColor: colors.cardBackground }]}>
+      <View style={styles.settingHeader}>
+        <View style={styles.settingIcon}>
+          <Ionicons name={icon} size={24} color={colors.primary} />
+        </View>
+        <View style={styles.settingInfo}>
+          <ThemedText style={styles.settingTitle}>{title}</ThemedText>
+          <ThemedText style={styles.settingDescription}>{description}</ThemedText>
+        </View>
+      </View>
+      <View style={styles.optionRow}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.id}
+            style={[
+              styles.option,
+              value === option.id && { backgroundColor: colors.primary }
+            ]}
+            onPress={() => onValueChange(option.id)}
+          >
+            <ThemedText style={[
+              styles.optionText,
+              value === option.id && styles.optionTextSelected
+            ]}>
+              {option.label}
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ThemedView>
+  );
+
   const Content = () => (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -71,6 +123,84 @@ export default function SettingsScreen() {
               value={settings.useMetric}
               onValueChange={(value) => updateSettings({ useMetric: value })}
             />
+            <OptionSettingItem
+              icon="calculator"
+              title="e1RM Formula"
+              description={`Estimated one-rep max: ${ONE_REP_MAX_FORMULAS.find(f => f.id === settings.oneRepMaxFormula)?.description}`}
+              options={ONE_REP_MAX_FORMULAS}
+              value={settings.oneRepMaxFormula}
+              onValueChange={(value) => updateSettings({ oneRepMaxFormula: value })}
+            />
+            <SettingItem
+              icon="timer-outline"
+              title="Rest Timer"
+              description="Start a rest countdown after logging an exercise"
+              value={settings.showRestTimer}
+              onValueChange={(value) => updateSettings({ showRestTimer: value })}
+            />
+            {settings.showRestTimer && (
+              <OptionSettingItem
+                icon="hourglass-outline"
+                title="Default Rest"
+                description="Used for exercises without their own rest time"
+                options={REST_PRESETS.map(seconds => ({ id: String(seconds), label: formatRestPreset(seconds) }))}
+                value={String(settings.defaultRestSeconds)}
+                onValueChange={(value) => updateSettings({ defaultRestSeconds: Number(value) })}
+              />
+            )}
+            <OptionSettingItem
+              icon="calendar-outline"
+              title="Weekly Goal"
+              description="Training days per week that keep the week streak going"
+              options={WEEKLY_GOAL_OPTIONS.map(days => ({ id: String(days), label: String(days) }))}
+              value={String(settings.weeklyGoal)}
+              onValueChange={(value) => updateSettings({ weeklyGoal: Number(value) })}
+            />
+            <ThemedView style={[styles.settingCard, { backgroundColor: colors.cardBackground }]}>
+              <View style={styles.settingHeader}>
+                <View style={styles.settingIcon}>
+                  <Ionicons name="bed-outline" size={24} color={colors.primary} />
+                </View>
+                <View style={styles.settingInfo}>
+                  <ThemedText style={styles.settingTitle}>Rest Days</ThemedText>
+                  <ThemedText style={styles.settingDescription}>Planned rest days don't break your day streak</ThemedText>
+                </View>
+              </View>
+              <View style={styles.optionRow}>
+                {WEEKDAYS.map((label, day) => {
+                  const selected = settings.restDays.includes(day);
+                  return (
+                    <TouchableOpacity
+                      key={label}
+                      style={[styles.option, selected && { backgroundColor: colors.primary }]}
+                      onPress={() => updateSettings({
+                        restDays: selected
+                          ? settings.restDays.filter(restDay => restDay !== day)
+                          : [...settings.restDays, day].sort()
+                      })}
+                    >
+                      <ThemedText style={[styles.optionText, selected && styles.optionTextSelected]}>{label}</ThemedText>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </ThemedView>
+            <TouchableOpacity onPress={() => router.push('/plates')}>
+              <ThemedView style={[styles.settingCard, { backgroundColor: colors.cardBackground }]}>
+                <View style={styles.settingHeader}>
+                  <View style={styles.settingIcon}>
+                    <Ionicons name="barbell" size={24} color={colors.primary} />
+                  </View>
+                  <View style={styles.settingInfo}>
+                    <ThemedText style={styles.settingTitle}>Bar & Plates</ThemedText>
+                    <ThemedText style={styles.settingDescription}>
+                      {`${settings.plateInventory[weightUnit(settings.useMetric)].bar}${weightUnit(settings.useMetric)} bar · plates used by the plate calculator`}
+                    </ThemedText>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color={colors.tabIconDefault} />
+                </View>
+              </ThemedView>
+            </TouchableOpacity>
           </View>
         </ScrollView>
       </SafeAreaView>
@@ -141,5 +271,25 @@ const styles = StyleSheet.create({
   settingDescription: {
     fontSize: 14,
     opacity: 0.6,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    marginLeft: 52,
+  },
+  option: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionTextSelected: {
+    color: '#FFFFFF',
   }
 }); 
\ No newline at end of file
@@ -6,9 +6,10 @@ import * as SplashScreen from 'expo-splash-screen';
 import { useEffect } from 'react';
 import { useColorScheme } from 'react-native';
 import { SettingsProvider } from '../contexts/SettingsContext';
+import { RestTimerProvider } from '../contexts/RestTimerContext';
+import { RestTimerOverlay } from '../components/RestTimerOverlay';
 import { PortalProvider } from '@gorhom/portal';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { migrateDatabase } from '../app/utils/db';
 import db from './utils/db';
 
 export {
@@ -44,10 +45,9 @@ export default function RootLayout() {
   useEffect(() => {
     const initializeApp = async () => {
       try {
-        // Migrate the database instead of resetting it
-        await migrateDatabase();
-        await db.debugDatabase();
+        // Apply any pending schema migrations before the first screen queries
         await db.initializeDatabase();
+        await db.debugDatabase();
       } catch (error) {
         console.error('Error initializing app:', error);
       }
@@ -58,7 +58,9 @@ export default function RootLayout() {
 
   return (
     <SettingsProvider>
-      <RootLayoutNav />
+      <RestTimerProvider>
+        <RootLayoutNav />
+      </RestTimerProvider>
     </SettingsProvider>
   );
 }
@@ -99,7 +101,92 @@ function RootLayoutNav() {
                 gestureDirection: 'vertical',
               }} 
             />
+            <Stack.Screen 
+              name="exercise/[name]" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="calculator" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="volume" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="achievements" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="plates" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="clock" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="session" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="programs/index" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="programs/new" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="programs/[id]" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="goals/index" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="goals/new" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="body/index" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
+            <Stack.Screen 
+              name="body/new" 
+              options={{ 
+                headerShown: false,
+              }} 
+            />
           </Stack>
+          <RestTimerOverlay />
         </GestureHandlerRootView>
       </ThemeProvider>
     </PortalProvider>
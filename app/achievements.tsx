@@ -0,0 +1,198 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import Colors from '../constants/Colors';
+import { useSettings } from '../contexts/SettingsContext';
+import { WorkoutLog, getAllLogs } from './utils/db';
+import { getAchievements, getNextMilestones } from './utils/achievements';
+
+export default function AchievementsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      getAllLogs()
+        .then(setLogs)
+        .catch(error => console.error('Error loading achievements:', error))
+        .finally(() => setIsLoading(false));
+    }, [])
+  );
+
+  const rules = useMemo(
+    () => ({ restDays: settings.restDays, weeklyGoal: settings.weeklyGoal }),
+    [settings.restDays, settings.weeklyGoal]
+  );
+  const achievements = useMemo(
+    () => getAchievements(logs, rules, settings.useMetric),
+    [logs, rules, settings.useMetric]
+  );
+  const nextMilestones = useMemo(() => getNextMilestones(logs, rules), [logs, rules]);
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Achievements</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {!isLoading && nextMilestones.length > 0 && (
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ThemedText style={styles.sectionTitle}>Up Next</ThemedText>
+            {nextMilestones.map(milestone => (
+              <View key={milestone.title} style={styles.milestone}>
+                <View style={styles.milestoneHeader}>
+                  <ThemedText style={styles.achievementTitle}>{milestone.title}</ThemedText>
+                  <ThemedText style={styles.achievementMeta}>{milestone.current}/{milestone.target}</ThemedText>
+                </View>
+                <View style={[styles.progressTrack, { backgroundColor: colors.primary + '20' }]}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { backgroundColor: colors.primary, width: `${Math.min(100, (milestone.current / milestone.target) * 100)}%` }
+                    ]}
+                  />
+                </View>
+              </View>
+            ))}
+          </ThemedView>
+        )}
+
+        {!isLoading && achievements.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            No achievements yet. Log a workout to unlock your first.
+          </ThemedText>
+        )}
+        {achievements.length > 0 && (
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ThemedText style={styles.sectionTitle}>Unlocked · {achievements.length}</ThemedText>
+            {achievements.map(achievement => (
+              <View key={achievement.id} style={styles.achievementRow}>
+                <View style={[styles.achievementIcon, { backgroundColor: colors.primary + '20' }]}>
+                  <Ionicons name={achievement.icon} size={20} color={colors.primary} />
+                </View>
+                <View style={styles.achievementInfo}>
+                  <ThemedText style={styles.achievementTitle}>{achievement.title}</ThemedText>
+                  <ThemedText style={styles.achievementMeta}>{achievement.description}</ThemedText>
+                </View>
+                <ThemedText style={styles.achievementMeta}>{format(achievement.date, 'MMM d, yyyy')}</ThemedText>
+              </View>
+            ))}
+          </ThemedView>
+        )}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  milestone: {
+    paddingVertical: 8,
+  },
+  milestoneHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 8,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  achievementRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  achievementIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  achievementInfo: {
+    flex: 1,
+  },
+  achievementTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  achievementMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -6,22 +6,33 @@ import { ThemedView } from '../components/ThemedView';
 import Colors from '../constants/Colors';
 import { useColorScheme } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Exercise, WOD, addExercise, addWOD, updateWOD, updateExercise } from '../app/utils/db';
+import { CatalogExercise, Exercise, ExerciseSet, TemplateEntry, WodScaling, WodScore, WodScoreType, WorkoutLog, WorkoutTemplate, addExercise, addWOD, updateWOD, updateExercise, getAllLogs, getExerciseCatalog, getTemplates, addTemplate, updateTemplate, deleteTemplate } from '../app/utils/db';
+import { usesSets } from '../app/utils/sets';
+import { formatWeight, formatWeightInput, parseDecimal, toKg, weightUnit } from '../app/utils/units';
+import { TABATA_INTERVALS, WOD_SCALING_LEVELS, WOD_SCORE_TYPES, formatClock, formatWodScore, getScoreTypeForFormat, isWodScoreComplete, parseClock } from '../app/utils/wodResults';
+import { useSettings } from '../contexts/SettingsContext';
+import { useRestTimer } from '../contexts/RestTimerContext';
 import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import * as Haptics from 'expo-haptics';
 import { Ionicons } from '@expo/vector-icons';
 import { FloatingLabelInput } from '@/components/FloatingLabelInput';
+import { ExerciseAutocomplete } from '@/components/ExerciseAutocomplete';
+import { PlateBreakdown } from '@/components/PlateBreakdown';
+import { OTHER_WORKOUT_TYPE, WOD_FORMAT_SEPARATOR, WORKOUT_TYPES } from '../constants/WorkoutTypes';
+import { BENCHMARKS, BENCHMARK_CATEGORIES, Benchmark, BenchmarkCategory } from '../constants/Benchmarks';
+import { findBenchmark, findBenchmarkByName, getBenchmarkDescription } from '../app/utils/benchmarks';
+import { getTemplateParams, getTemplateSummary, toTemplateEntry } from '../app/utils/templates';
+import { LiftMax, MAX_BASES, MaxBasis, getLiftMax, getMaxWeight, getPercentageLoad } from '../app/utils/loadCalculator';
+import { getExerciseDisplayName, linkToCatalog, normalizeExerciseName } from '../app/utils/exercises';
+import { REST_PRESETS, formatRestPreset, getRestDuration, setRestDuration } from '../app/utils/restTimer';
+import { getDayKey, getLocalDateFields, parseDayKey, toLocalDateTime } from '../app/utils/dates';
+import { NewRecord, findNewRecords } from '../app/utils/records';
+import { Achievement, getAchievements, getNewAchievements } from '../app/utils/achievements';
 
-const WORKOUT_TYPES = [
-  'AMRAP',
-  'EMOM',
-  'For Time',
-  'Chipper',
-  'TABATA',
-  'RFT',
-  'Death by',
-  'AFAP',
-  'Other'
-];
+type Celebration = {
+  records: NewRecord[];
+  achievements: Achievement[];
+};
 
 const MEASUREMENT_TYPES = [
   { id: 'weight_reps', label: 'Weight & Reps' },
@@ -32,24 +43,119 @@ const MEASUREMENT_TYPES = [
 
 type MeasurementType = 'weight_reps' | 'time_only' | 'distance_time' | 'reps_only';
 
+// Editable state for one row of the set editor
+type SetDraft = {
+  weight: string;
+  reps: string;
+  rpe: string;
+  done: boolean;
+};
+
+const EMPTY_SET: SetDraft = { weight: '', reps: '', rpe: '', done: true };
+
+const getInitialSets = (params: Record<string, string | string[] | undefined>, useMetric: boolean): SetDraft[] => {
+  if (params.sets) {
+    try {
+      const sets = JSON.parse(params.sets as string) as ExerciseSet[];
+      if (sets.length > 0) {
+        return sets.map(set => ({
+          weight: formatWeightInput(set.weight, useMetric),
+          reps: set.reps !== undefined ? String(set.reps) : '',
+          rpe: set.rpe !== undefined ? String(set.rpe) : '',
+          done: set.done,
+        }));
+      }
+    } catch (error) {
+      console.error('Error parsing sets param:', error);
+    }
+  }
+
+  // Entries logged before sets existed only have a single weight/reps pair
+  if (params.weight || params.reps) {
+    return [{
+      ...EMPTY_SET,
+      weight: params.weight ? formatWeightInput(parseFloat(params.weight as string), useMetric) : '',
+      reps: (params.reps as string) || '',
+    }];
+  }
+
+  return [{ ...EMPTY_SET }];
+};
+
+// Editable state for a structured WOD score; 'text' keeps the free-text result
+type ScoreDraft = {
+  type: WodScoreType | 'text';
+  rounds: string;
+  reps: string;
+  time: string;
+  timeCap: string;
+  capped: boolean;
+  minutes: string;
+  intervals: string[];
+};
+
+const EMPTY_INTERVALS = Array.from({ length: TABATA_INTERVALS }, () => '');
+
+const getInitialScore = (params: Record<string, string | string[] | undefined>): ScoreDraft => {
+  const draft: ScoreDraft = {
+    type: 'text',
+    rounds: '',
+    reps: '',
+    time: '',
+    timeCap: '',
+    capped: false,
+    minutes: '',
+    intervals: EMPTY_INTERVALS,
+  };
+  if (!params.score) return draft;
+
+  try {
+    const score = JSON.parse(params.score as string) as WodScore;
+    return {
+      type: score.type,
+      rounds: score.rounds !== undefined ? String(score.rounds) : '',
+      reps: score.reps !== undefined ? String(score.reps) : '',
+      time: score.time !== undefined ? formatClock(score.time) : '',
+      timeCap: score.time_cap !== undefined ? formatClock(score.time_cap) : '',
+      capped: !!score.capped,
+      minutes: score.minutes !== undefined ? String(score.minutes) : '',
+      intervals: score.intervals?.length ? score.intervals.map(String) : EMPTY_INTERVALS,
+    };
+  } catch (error) {
+    console.error('Error parsing score param:', error);
+    return draft;
+  }
+};
+
 export default function AddWorkoutScreen() {
   const params = useLocalSearchParams();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const { settings, updateSettings } = useSettings();
+  const { startRestTimer } = useRestTimer();
   const [isWOD, setIsWOD] = useState(params.workoutType === 'wod');
   
   // Common fields
   const [name, setName] = useState(params.name as string || '');
-  const [selectedDate, setSelectedDate] = useState(params.date ? new Date(params.date as string) : new Date());
+  // Entries show on the day they were logged, wherever that was
+  const [selectedDate, setSelectedDate] = useState(
+    params.local_date
+      ? toLocalDateTime(params.local_date as string, params.start_time as string | undefined)
+      : params.date ? new Date(params.date as string) : new Date()
+  );
+  const [isDateChanged, setIsDateChanged] = useState(false);
   const [isDatePickerVisible, setDatePickerVisible] = useState(false);
   const [notes, setNotes] = useState(params.notes as string || '');
 
   // Exercise fields
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [exerciseId, setExerciseId] = useState<number | undefined>(
+    params.exercise_id ? parseInt(params.exercise_id as string) : undefined
+  );
   const [measurementType, setMeasurementType] = useState<Exercise['measurement_type']>(
     params.measurement_type as Exercise['measurement_type'] || 'weight_reps'
   );
-  const [weight, setWeight] = useState(params.weight as string || '');
-  const [reps, setReps] = useState(params.reps as string || '');
+  const [sets, setSets] = useState<SetDraft[]>(() => getInitialSets(params, settings.useMetric));
   const [distance, setDistance] = useState(params.distance as string || '');
   const [time, setTime] = useState(params.time as string || '');
 
@@ -59,6 +165,33 @@ export default function AddWorkoutScreen() {
   const [customType, setCustomType] = useState('');
   const [description, setDescription] = useState(params.description as string || '');
   const [result, setResult] = useState(params.result as string || '');
+  const [score, setScore] = useState<ScoreDraft>(() => getInitialScore(params));
+  const [benchmarkId, setBenchmarkId] = useState<string | undefined>(params.benchmark_id as string || undefined);
+  const [scaling, setScaling] = useState<WodScaling | undefined>(params.scaling as WodScaling || undefined);
+  const [scalingNotes, setScalingNotes] = useState(params.scaling_notes as string || '');
+  const [isBenchmarkPickerVisible, setBenchmarkPickerVisible] = useState(false);
+  const [benchmarkCategory, setBenchmarkCategory] = useState<BenchmarkCategory>('Girls');
+
+  // Rest picked for this exercise, saved as its default once the entry is logged
+  const [restSeconds, setRestSeconds] = useState<number | undefined>();
+  const restDuration = restSeconds ?? getRestDuration(settings.restDurations, settings.defaultRestSeconds, name);
+
+  // % of max helper
+  const [isPercentHelperVisible, setPercentHelperVisible] = useState(false);
+  const [liftMax, setLiftMax] = useState<LiftMax>({});
+  const [maxBasis, setMaxBasis] = useState<MaxBasis>('e1rm');
+  const [helperPercent, setHelperPercent] = useState('80');
+  const [isPlatesVisible, setPlatesVisible] = useState(false);
+
+  // Shown after saving a workout that set a PR or unlocked an achievement
+  const [celebration, setCelebration] = useState<Celebration | undefined>();
+
+  // Templates
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [isTemplatePickerVisible, setTemplatePickerVisible] = useState(false);
+  const [expandedTemplateId, setExpandedTemplateId] = useState<number | undefined>();
+  const [isSaveTemplateVisible, setSaveTemplateVisible] = useState(false);
+  const [templateName, setTemplateName] = useState('');
 
   const [scrollOffset, setScrollOffset] = useState(0);
   const scrollViewRef = useRef<ScrollView>(null);
@@ -76,26 +209,31 @@ export default function AddWorkoutScreen() {
   // Add new state for actual modal visibility
   const [modalVisible, setModalVisible] = useState(false);
 
+  // Splits a stored format such as "EMOM + AMRAP" back into picker selections
+  const applyWodFormat = (format: string) => {
+    const types = format.split(WOD_FORMAT_SEPARATOR);
+    const standardTypes = types.filter(t => WORKOUT_TYPES.includes(t) && t !== OTHER_WORKOUT_TYPE);
+    const customTypes = types.filter(t => !WORKOUT_TYPES.includes(t));
+
+    setSelectedTypes(customTypes.length > 0 ? [...standardTypes, OTHER_WORKOUT_TYPE] : standardTypes);
+    setCustomType(customTypes.join(WOD_FORMAT_SEPARATOR));
+  };
+
   useEffect(() => {
-    if (params.editMode === 'true' && params.workoutType === 'wod' && params.type) {
-      // Handle WOD type parsing
-      const types = (params.type as string).split(' + ');
-      const standardTypes = types.filter(t => WORKOUT_TYPES.includes(t));
-      const customTypes = types.filter(t => !WORKOUT_TYPES.includes(t));
-      
-      if (standardTypes.length > 0) {
-        setSelectedTypes(standardTypes);
-      }
-      
-      if (customTypes.length > 0) {
-        if (!selectedTypes.includes('Other')) {
-          setSelectedTypes(prev => [...prev, 'Other']);
-        }
-        setCustomType(customTypes.join(' + '));
-      }
+    if (params.workoutType === 'wod' && params.wod_format) {
+      applyWodFormat(params.wod_format as string);
     }
   }, []); // Run only once on mount
 
+  useEffect(() => {
+    getExerciseCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading exercise catalog:', error));
+    getTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Error loading templates:', error));
+  }, []);
+
   useEffect(() => {
     if (isTypePickerVisible) {
       setModalVisible(true);
@@ -146,42 +284,475 @@ export default function AddWorkoutScreen() {
 
   const handleConfirm = (date: Date) => {
     setSelectedDate(date);
+    setIsDateChanged(true);
     hideDatePicker();
   };
 
+  // An edited entry keeps its original day and zone unless a new date is picked
+  const getDateFields = (): Pick<WorkoutLog, 'date' | 'local_date' | 'start_time' | 'tz_offset'> => {
+    if (params.date && !isDateChanged) {
+      return {
+        date: params.date as string,
+        local_date: (params.local_date as string) || undefined,
+        start_time: (params.start_time as string) || undefined,
+        tz_offset: params.tz_offset ? Number(params.tz_offset) : undefined,
+      };
+    }
+    return { date: selectedDate.toISOString(), ...getLocalDateFields(selectedDate) };
+  };
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit', year: 'numeric' });
   };
 
+  // Formats combine in the order they are picked, e.g. "EMOM + AMRAP"
   const toggleWorkoutType = (type: string) => {
-    if (type === selectedTypes[0]) {
-      setSelectedTypes([]);
-      if (type === 'Other') {
+    if (selectedTypes.includes(type)) {
+      setSelectedTypes(prev => prev.filter(t => t !== type));
+      if (type === OTHER_WORKOUT_TYPE) {
         setCustomType('');
       }
     } else {
-      setSelectedTypes([type]);
-      if (type !== 'Other') {
-        setCustomType('');
-      }
+      setSelectedTypes(prev => [...prev, type]);
     }
   };
 
   const getDisplayType = () => {
     if (selectedTypes.length === 0) return '';
-    const types = selectedTypes.filter(t => t !== 'Other');
-    if (selectedTypes.includes('Other')) {
-      types.push(customType);
+    const types = selectedTypes.filter(t => t !== OTHER_WORKOUT_TYPE);
+    if (selectedTypes.includes(OTHER_WORKOUT_TYPE)) {
+      types.push(customType.trim());
     }
-    return types.filter(Boolean).join(' + ');
+    return types.filter(Boolean).join(WOD_FORMAT_SEPARATOR);
   };
 
-  const handleSubmit = async () => {
+  // Picking a workout type switches the result fields to the score it produces
+  const displayType = getDisplayType();
+  useEffect(() => {
+    const scoreType = getScoreTypeForFormat(displayType);
+    if (scoreType) {
+      setScore(prev => ({ ...prev, type: scoreType }));
+    }
+  }, [displayType]);
+
+  const updateScore = (changes: Partial<ScoreDraft>) => {
+    setScore(prev => ({ ...prev, ...changes }));
+  };
+
+  const updateInterval = (index: number, value: string) => {
+    setScore(prev => ({
+      ...prev,
+      intervals: prev.intervals.map((interval, i) => (i === index ? value : interval))
+    }));
+  };
+
+  // Returns null when a time field cannot be read, undefined when no score was entered
+  const buildWodScore = (): WodScore | undefined | null => {
+    if (score.type === 'text') return undefined;
+
+    const toNumber = (text: string) => {
+      const value = parseInt(text);
+      return isNaN(value) ? undefined : value;
+    };
+    const toSeconds = (text: string) => (text.trim() === '' ? undefined : parseClock(text) ?? null);
+
+    const time = toSeconds(score.time);
+    const timeCap = toSeconds(score.timeCap);
+    if ((score.type === 'time' && !score.capped && time === null) || (score.type === 'time' && timeCap === null)) {
+      return null;
+    }
+
+    const wodScore: WodScore = { type: score.type };
+    switch (score.type) {
+      case 'rounds_reps':
+        wodScore.rounds = toNumber(score.rounds);
+        wodScore.reps = toNumber(score.reps);
+        break;
+      case 'time':
+        wodScore.capped = score.capped;
+        wodScore.time_cap = timeCap ?? undefined;
+        if (score.capped) {
+          wodScore.reps = toNumber(score.reps);
+        } else {
+          wodScore.time = time ?? undefined;
+        }
+        break;
+      case 'minutes':
+        wodScore.minutes = toNumber(score.minutes);
+        break;
+      case 'intervals':
+        wodScore.intervals = score.intervals
+          .map(toNumber)
+          .filter((reps): reps is number => reps !== undefined);
+        break;
+    }
+
+    return isWodScoreComplete(wodScore) ? wodScore : undefined;
+  };
+
+  const handleWodNameChange = (text: string) => {
+    setName(text);
+    // Renaming unlinks the benchmark; the name is matched again on save
+    setBenchmarkId(undefined);
+  };
+
+  const handleBenchmarkSelect = (benchmark: Benchmark) => {
+    setName(benchmark.name);
+    setBenchmarkId(benchmark.id);
+    setDescription(getBenchmarkDescription(benchmark));
+    applyWodFormat(benchmark.wod_format);
+    setScore(prev => ({
+      ...prev,
+      type: benchmark.score_type,
+      timeCap: benchmark.time_cap ? formatClock(benchmark.time_cap) : prev.timeCap,
+    }));
+    setScaling('rx');
+    setBenchmarkPickerVisible(false);
+  };
+
+  const handleExerciseNameChange = (text: string) => {
+    setName(text);
+    // Typing detaches the entry from the picked catalog exercise; it is matched by name on save
+    setExerciseId(undefined);
+  };
+
+  const handleCatalogSelect = (exercise: CatalogExercise) => {
+    setName(exercise.name);
+    setExerciseId(exercise.id);
+    if (params.editMode !== 'true') {
+      setMeasurementType(exercise.measurement_type);
+    }
+  };
+
+  const updateSet = (index: number, changes: Partial<SetDraft>) => {
+    setSets(prev => prev.map((set, i) => (i === index ? { ...set, ...changes } : set)));
+  };
+
+  const addSet = () => {
+    // New sets start as a copy of the previous one, which is what most programs repeat
+    setSets(prev => [...prev, { ...(prev[prev.length - 1] || EMPTY_SET), done: true }]);
+  };
+
+  const openPercentHelper = async () => {
+    setPercentHelperVisible(true);
+    try {
+      const logs = await getAllLogs();
+      const normalized = normalizeExerciseName(name);
+      const entries = logs.filter((log): log is Exercise =>
+        log.type === 'exercise' &&
+        (exerciseId !== undefined ? log.exercise_id === exerciseId : normalizeExerciseName(getExerciseDisplayName(log)) === normalized)
+      );
+      setLiftMax(getLiftMax(entries, settings.oneRepMaxFormula));
+    } catch (error) {
+      console.error('Error loading max:', error);
+    }
+  };
+
+  const helperMax = getMaxWeight(liftMax, maxBasis);
+  const helperLoad = helperMax !== undefined && !isNaN(parseDecimal(helperPercent))
+    ? getPercentageLoad(helperMax, parseDecimal(helperPercent), settings.useMetric, settings.plateInventory)
+    : undefined;
+
+  const applyPercentLoad = () => {
+    if (helperLoad === undefined) return;
+    const weight = formatWeightInput(helperLoad, settings.useMetric);
+    setSets(prev => prev.map(set => ({ ...set, weight })));
+    setPercentHelperVisible(false);
+  };
+
+  const renderPercentHelper = () => (
+    <Modal
+      visible={isPercentHelperVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setPercentHelperVisible(false)}
+    >
+      <View style={styles.modalContainer}>
+        <TouchableOpacity
+          style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+          activeOpacity={1}
+          onPress={() => setPercentHelperVisible(false)}
+        />
+        <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>% of {name.trim() || 'max'}</ThemedText>
+            <TouchableOpacity onPress={applyPercentLoad} disabled={helperLoad === undefined}>
+              <ThemedText style={[styles.modalDone, { color: colors.primary }, helperLoad === undefined && { opacity: 0.4 }]}>
+                Apply
+              </ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <View style={[styles.measurementTypeContainer, styles.benchmarkCategories]}>
+            {MAX_BASES.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.measurementTypeButton, maxBasis === option.id && { backgroundColor: colors.primary }]}
+                onPress={() => setMaxBasis(option.id)}
+              >
+                <ThemedText style={[styles.measurementTypeText, maxBasis === option.id && { color: '#FFFFFF' }]}>
+                  {option.label}
+                  {getMaxWeight(liftMax, option.id) !== undefined && `  ${formatWeight(getMaxWeight(liftMax, option.id), settings.useMetric)}`}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {helperMax === undefined ? (
+            <ThemedText style={styles.emptyTemplates}>
+              No completed sets logged for this exercise yet.
+            </ThemedText>
+          ) : (
+            <>
+              <FloatingLabelInput
+                label="Percent"
+                style={[styles.input, { color: colors.text }]}
+                value={helperPercent}
+                onChangeText={setHelperPercent}
+                keyboardType="decimal-pad"
+                placeholderTextColor={colors.tabIconDefault}
+              />
+              <View style={styles.measurementTypeContainer}>
+                {[65, 70, 75, 80, 85, 90, 95].map(preset => (
+                  <TouchableOpacity
+                    key={preset}
+                    style={[styles.measurementTypeButton, helperPercent === String(preset) && { backgroundColor: colors.primary }]}
+                    onPress={() => setHelperPercent(String(preset))}
+                  >
+                    <ThemedText style={[styles.measurementTypeText, helperPercent === String(preset) && { color: '#FFFFFF' }]}>
+                      {preset}%
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <ThemedText style={[styles.percentLoad, { color: colors.primary }]}>
+                {helperLoad !== undefined ? formatWeight(helperLoad, settings.useMetric) : '—'}
+              </ThemedText>
+              <ThemedText style={styles.benchmarkSummary}>Applied to every set, rounded to loadable plates</ThemedText>
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  // Distinct set weights in kg, heaviest first, for loading the bar
+  const plateWeights = [...new Set(
+    sets.map(set => parseDecimal(set.weight)).filter(weight => !isNaN(weight) && weight > 0)
+  )]
+    .sort((a, b) => b - a)
+    .map(weight => toKg(weight, settings.useMetric));
+
+  const renderPlates = () => (
+    <Modal
+      visible={isPlatesVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setPlatesVisible(false)}
+    >
+      <View style={styles.modalContainer}>
+        <TouchableOpacity
+          style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+          activeOpacity={1}
+          onPress={() => setPlatesVisible(false)}
+        />
+        <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>Plates</ThemedText>
+            <TouchableOpacity onPress={() => setPlatesVisible(false)}>
+              <ThemedText style={[styles.modalDone, { color: colors.primary }]}>Done</ThemedText>
+            </TouchableOpacity>
+          </View>
+          <ScrollView>
+            {plateWeights.length === 0 ? (
+              <ThemedText style={styles.emptyTemplates}>Enter a set weight to see how to load the bar.</ThemedText>
+            ) : plateWeights.map(weight => (
+              <View key={weight} style={styles.plateLoad}>
+                <ThemedText style={styles.plateLoadTitle}>{formatWeight(weight, settings.useMetric)}</ThemedText>
+                <PlateBreakdown weight={weight} useMetric={settings.useMetric} inventory={settings.plateInventory} />
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addSetButton}
+              onPress={() => {
+                setPlatesVisible(false);
+                router.push({
+                  pathname: '/plates',
+                  params: plateWeights.length > 0 ? { weight: String(plateWeights[0]) } : {},
+                });
+              }}
+            >
+              <Ionicons name="options-outline" size={20} color={colors.primary} />
+              <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Edit bar & plates</ThemedText>
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const removeSet = (index: number) => {
+    setSets(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : [{ ...EMPTY_SET }]));
+  };
+
+  const buildExerciseSets = (): ExerciseSet[] => {
+    return sets
+      .filter(set => set.reps.trim() !== '' || set.weight.trim() !== '')
+      .map((set, index) => {
+        const weightValue = parseDecimal(set.weight);
+        const repsValue = parseInt(set.reps);
+        const rpeValue = parseDecimal(set.rpe);
+        return {
+          set_index: index,
+          weight: measurementType === 'weight_reps' && !isNaN(weightValue)
+            ? toKg(weightValue, settings.useMetric)
+            : undefined,
+          reps: isNaN(repsValue) ? undefined : repsValue,
+          rpe: isNaN(rpeValue) ? undefined : rpeValue,
+          done: set.done,
+        };
+      });
+  };
+
+  // The workout described by the form, or undefined after alerting about invalid input
+  const buildWorkout = (): WorkoutLog | undefined => {
     if (!name.trim()) {
       Alert.alert('Error', 'Please enter a workout name');
-      return;
+      return undefined;
+    }
+
+    if (isWOD) {
+      const wodScore = buildWodScore();
+      if (wodScore === null) {
+        Alert.alert('Error', 'Please enter times as mm:ss');
+        return undefined;
+      }
+
+      return {
+        name,
+        type: 'wod',
+        ...getDateFields(),
+        notes: notes || '',
+        description: description || '',
+        result: wodScore ? formatWodScore(wodScore) : result || '',
+        score: wodScore,
+        wod_format: getDisplayType() || undefined,
+        benchmark_id: benchmarkId ?? findBenchmarkByName(name)?.id,
+        scaling,
+        scaling_notes: scaling === 'custom' ? scalingNotes : undefined,
+      };
+    }
+
+    const exerciseSets = usesSets(measurementType) ? buildExerciseSets() : [];
+    if (usesSets(measurementType) && exerciseSets.length === 0) {
+      Alert.alert('Error', 'Please enter at least one set');
+      return undefined;
+    }
+
+    return {
+      name,
+      type: 'exercise',
+      exercise_id: exerciseId,
+      measurement_type: measurementType,
+      sets: exerciseSets,
+      time: time ? timeToSeconds(time).toString() : undefined,
+      distance: distance || undefined,
+      notes: notes || '',
+      ...getDateFields(),
+    };
+  };
+
+  // Records and achievements a new workout is about to set, checked against
+  // history before it's saved
+  const getCelebration = async (workout: WorkoutLog): Promise<Celebration | undefined> => {
+    try {
+      const history = await getAllLogs();
+      // Saved entries are linked to the catalog, which records and achievements group lifts by,
+      // so a typed name is resolved the same way before comparing it with history
+      const entry: WorkoutLog = workout.type === 'exercise' ? linkToCatalog(workout, catalog) : workout;
+      const rules = { restDays: settings.restDays, weeklyGoal: settings.weeklyGoal };
+      const records = findNewRecords(entry, history, settings.useMetric);
+      const achievements = getNewAchievements(
+        getAchievements(history, rules, settings.useMetric),
+        getAchievements([...history, entry], rules, settings.useMetric)
+      );
+      return records.length > 0 || achievements.length > 0 ? { records, achievements } : undefined;
+    } catch (error) {
+      // The save goes ahead regardless
+      console.error('Error checking for records:', error);
+      return undefined;
     }
+  };
+
+  const showCelebration = (found: Celebration) => {
+    if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setCelebration(found);
+  };
+
+  const closeCelebration = () => {
+    setCelebration(undefined);
+    router.back();
+  };
 
+  const renderCelebration = () => {
+    const records = celebration?.records ?? [];
+    const achievements = celebration?.achievements ?? [];
+    const title = records.length > 1
+      ? `${records.length} New PRs!`
+      : records.length === 1 ? 'New PR!' : 'Achievement Unlocked!';
+
+    return (
+      <Modal
+        visible={celebration !== undefined}
+        transparent
+        animationType="slide"
+        onRequestClose={closeCelebration}
+      >
+        <View style={styles.modalContainer}>
+          <TouchableOpacity
+            style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+            activeOpacity={1}
+            onPress={closeCelebration}
+          />
+          <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+            <View style={styles.celebrationHeader}>
+              <Ionicons name="trophy" size={48} color={colors.accent} />
+              <ThemedText style={styles.celebrationTitle}>{title}</ThemedText>
+            </View>
+            <ScrollView>
+              {records.map(record => (
+                <View key={`${record.kind}-${record.label}`} style={styles.celebrationRow}>
+                  <ThemedText style={styles.celebrationName}>{record.name} · {record.label}</ThemedText>
+                  <View style={styles.celebrationValues}>
+                    <ThemedText style={styles.celebrationPrevious}>{record.previous}</ThemedText>
+                    <Ionicons name="arrow-forward" size={16} color={colors.tabIconDefault} />
+                    <ThemedText style={[styles.celebrationCurrent, { color: colors.primary }]}>{record.current}</ThemedText>
+                  </View>
+                </View>
+              ))}
+              {achievements.map(achievement => (
+                <View key={achievement.id} style={[styles.celebrationRow, styles.celebrationAchievement]}>
+                  <Ionicons name={achievement.icon} size={24} color={colors.primary} />
+                  <View style={styles.celebrationText}>
+                    <ThemedText style={styles.celebrationName}>{achievement.title}</ThemedText>
+                    <ThemedText style={styles.celebrationPrevious}>{achievement.description}</ThemedText>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+            <TouchableOpacity
+              style={[styles.celebrationButton, { backgroundColor: colors.primary }]}
+              onPress={closeCelebration}
+            >
+              <ThemedText style={styles.celebrationButtonText}>Done</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  const handleSubmit = async () => {
     // Debug logging
     console.log('Submit params:', {
       id: params.id,
@@ -189,24 +760,23 @@ export default function AddWorkoutScreen() {
       workoutType: params.workoutType
     });
 
-    if (isWOD) {
-      // Handle WOD submission
-      const workout: WOD = {
-        name,
-        type: 'wod',
-        date: selectedDate.toISOString(),
-        notes: notes || '',
-        description: description || '',
-        result: result || '',
-      };
+    const workout = buildWorkout();
+    if (!workout) return;
 
+    if (workout.type === 'wod') {
+      // Handle WOD submission
       try {
         if (params.id) {
           console.log('Updating WOD with ID:', params.id);
           await updateWOD({ ...workout, id: parseInt(params.id as string) });
         } else {
           console.log('Adding new WOD');
+          const found = await getCelebration(workout);
           await addWOD(workout);
+          if (found) {
+            showCelebration(found);
+            return;
+          }
         }
         router.back();
       } catch (error) {
@@ -215,25 +785,24 @@ export default function AddWorkoutScreen() {
       }
     } else {
       // Handle Exercise submission
-      const exercise: Exercise = {
-        name,
-        type: 'exercise',
-        measurement_type: measurementType,
-        weight: weight || undefined,
-        reps: reps || undefined,
-        time: time ? timeToSeconds(time).toString() : undefined,
-        distance: distance || undefined,
-        notes: notes || '',
-        date: selectedDate.toISOString(),
-      };
-
       try {
         if (params.id) {
           console.log('Updating Exercise with ID:', params.id);
-          await updateExercise({ ...exercise, id: parseInt(params.id as string) });
+          await updateExercise({ ...workout, id: parseInt(params.id as string) });
         } else {
           console.log('Adding new Exercise');
-          await addExercise(exercise);
+          const found = await getCelebration(workout);
+          await addExercise(workout);
+          if (settings.showRestTimer) {
+            if (restSeconds !== undefined) {
+              await updateSettings({ restDurations: setRestDuration(settings.restDurations, workout.name, restSeconds) });
+            }
+            await startRestTimer(workout.name, restDuration);
+          }
+          if (found) {
+            showCelebration(found);
+            return;
+          }
         }
         router.back();
       } catch (error) {
@@ -243,13 +812,230 @@ export default function AddWorkoutScreen() {
     }
   };
 
+  const applyTemplateEntry = (entry: TemplateEntry) => {
+    setTemplatePickerVisible(false);
+    // Remount the form with the entry's fields as if they were passed in
+    router.replace({ pathname: '/add-workout', params: getTemplateParams(entry) });
+  };
+
+  const handleTemplatePress = (template: WorkoutTemplate) => {
+    if (template.entries.length === 1) {
+      applyTemplateEntry(template.entries[0]);
+    } else {
+      setExpandedTemplateId(expandedTemplateId === template.id ? undefined : template.id);
+    }
+  };
+
+  // Logs every entry of a multi-workout template as planned, on the picked date
+  const handleLogTemplate = async (template: WorkoutTemplate) => {
+    try {
+      const dateFields = getDateFields();
+      for (const entry of template.entries) {
+        if (entry.type === 'wod') {
+          await addWOD({ ...entry, ...dateFields });
+        } else {
+          await addExercise({ ...entry, ...dateFields });
+        }
+      }
+      setTemplatePickerVisible(false);
+      router.back();
+    } catch (error) {
+      console.error('Error logging template:', error);
+      Alert.alert('Error', 'Failed to log template');
+    }
+  };
+
+  const handleDeleteTemplate = (template: WorkoutTemplate) => {
+    Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteTemplate(template.id!);
+            setTemplates(await getTemplates());
+          } catch (error) {
+            console.error('Error deleting template:', error);
+            Alert.alert('Error', 'Failed to delete template');
+          }
+        }
+      }
+    ]);
+  };
+
+  const openSaveTemplate = () => {
+    setTemplateName(name);
+    setSaveTemplateVisible(true);
+  };
+
+  // Saves the form as a new template, or appends it to `target` to build a bundle
+  const handleSaveTemplate = async (target?: WorkoutTemplate) => {
+    const workout = buildWorkout();
+    if (!workout) return;
+    if (!target && !templateName.trim()) {
+      Alert.alert('Error', 'Please enter a template name');
+      return;
+    }
+
+    const entry = toTemplateEntry(workout);
+    try {
+      if (target) {
+        await updateTemplate({ ...target, entries: [...target.entries, entry] });
+      } else {
+        await addTemplate({ name: templateName, entries: [entry] });
+      }
+      setTemplates(await getTemplates());
+      setSaveTemplateVisible(false);
+      Alert.alert('Template Saved', `Saved to "${target ? target.name : templateName.trim()}"`);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      Alert.alert('Error', 'Failed to save template');
+    }
+  };
+
+  const renderTemplatePicker = () => (
+    <Modal
+      visible={isTemplatePickerVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setTemplatePickerVisible(false)}
+    >
+      <View style={styles.modalContainer}>
+        <TouchableOpacity
+          style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+          activeOpacity={1}
+          onPress={() => setTemplatePickerVisible(false)}
+        />
+        <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>Templates</ThemedText>
+            <TouchableOpacity onPress={() => setTemplatePickerVisible(false)}>
+              <ThemedText style={[styles.modalDone, { color: colors.primary }]}>Close</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          {templates.length === 0 ? (
+            <ThemedText style={styles.emptyTemplates}>
+              No templates yet. Fill in a workout and tap &quot;Save as Template&quot; to reuse it.
+            </ThemedText>
+          ) : (
+            <FlatList
+              style={styles.typeList}
+              data={templates}
+              keyExtractor={(item) => String(item.id)}
+              renderItem={({ item }) => (
+                <View style={styles.typeOption}>
+                  <View style={styles.templateRow}>
+                    <TouchableOpacity style={styles.templateInfo} onPress={() => handleTemplatePress(item)}>
+                      <ThemedText style={styles.typeOptionText}>{item.name}</ThemedText>
+                      <ThemedText style={styles.benchmarkSummary} numberOfLines={1}>
+                        {getTemplateSummary(item)}
+                      </ThemedText>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={() => handleDeleteTemplate(item)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Ionicons name="trash-outline" size={20} color={colors.tabIconDefault} />
+                    </TouchableOpacity>
+                  </View>
+
+                  {expandedTemplateId === item.id && (
+                    <View style={styles.templateEntries}>
+                      {item.entries.map((entry, index) => (
+                        <TouchableOpacity
+                          key={index}
+                          style={styles.templateEntry}
+                          onPress={() => applyTemplateEntry(entry)}
+                        >
+                          <ThemedText>{entry.name}</ThemedText>
+                          <Ionicons name="chevron-forward" size={16} color={colors.tabIconDefault} />
+                        </TouchableOpacity>
+                      ))}
+                      <TouchableOpacity style={styles.addSetButton} onPress={() => handleLogTemplate(item)}>
+                        <Ionicons name="checkmark-done-outline" size={20} color={colors.primary} />
+                        <ThemedText style={[styles.addSetText, { color: colors.primary }]}>
+                          Log all {item.entries.length}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
+  const renderSaveTemplate = () => (
+    <Modal
+      visible={isSaveTemplateVisible}
+      transparent
+      animationType="slide"
+      onRequestClose={() => setSaveTemplateVisible(false)}
+    >
+      <View style={styles.modalContainer}>
+        <TouchableOpacity
+          style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+          activeOpacity={1}
+          onPress={() => setSaveTemplateVisible(false)}
+        />
+        <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+          <View style={styles.modalHeader}>
+            <ThemedText style={styles.modalTitle}>Save as Template</ThemedText>
+            <TouchableOpacity onPress={() => handleSaveTemplate()}>
+              <ThemedText style={[styles.modalDone, { color: colors.primary }]}>Save</ThemedText>
+            </TouchableOpacity>
+          </View>
+
+          <FloatingLabelInput
+            label="Template Name"
+            style={[styles.input, { color: colors.text }]}
+            value={templateName}
+            onChangeText={setTemplateName}
+            placeholderTextColor={colors.tabIconDefault}
+          />
+
+          {templates.length > 0 && (
+            <>
+              <ThemedText style={[styles.label, styles.templateAddLabel]}>Or add to a template</ThemedText>
+              <FlatList
+                style={styles.typeList}
+                data={templates}
+                keyExtractor={(item) => String(item.id)}
+                renderItem={({ item }) => (
+                  <TouchableOpacity style={styles.typeOption} onPress={() => handleSaveTemplate(item)}>
+                    <View style={styles.typeRow}>
+                      <ThemedText style={styles.typeOptionText}>{item.name}</ThemedText>
+                      <Ionicons name="add" size={20} color={colors.primary} />
+                    </View>
+                  </TouchableOpacity>
+                )}
+              />
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderDateInput = () => {
     if (Platform.OS === 'web') {
       return (
         <input
           type="date"
-          value={selectedDate.toISOString().split('T')[0]}
-          onChange={(e) => setSelectedDate(new Date(e.target.value))}
+          value={getDayKey(selectedDate)}
+          onChange={(e) => {
+            if (!e.target.value) return;
+            // The input gives a bare day; keep the time of day already picked
+            const picked = parseDayKey(e.target.value);
+            picked.setHours(selectedDate.getHours(), selectedDate.getMinutes());
+            setSelectedDate(picked);
+            setIsDateChanged(true);
+          }}
           style={{
             fontSize: 16,
             padding: 16,
@@ -286,6 +1072,90 @@ export default function AddWorkoutScreen() {
     );
   };
 
+  const renderBenchmarkRow = () => {
+    const benchmark = findBenchmark(benchmarkId);
+    return (
+      <>
+        <View style={styles.benchmarkRow}>
+          <TouchableOpacity style={styles.benchmarkButton} onPress={() => setBenchmarkPickerVisible(true)}>
+            <Ionicons name="trophy-outline" size={18} color={colors.primary} />
+            <ThemedText style={[styles.benchmarkButtonText, { color: colors.primary }]}>
+              {benchmark ? `${benchmark.category} benchmark` : 'Pick a benchmark'}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <Modal
+          visible={isBenchmarkPickerVisible}
+          transparent
+          animationType="slide"
+          onRequestClose={() => setBenchmarkPickerVisible(false)}
+        >
+          <View style={styles.modalContainer}>
+            <TouchableOpacity
+              style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.4)' }]}
+              activeOpacity={1}
+              onPress={() => setBenchmarkPickerVisible(false)}
+            />
+            <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+              <View style={styles.modalHeader}>
+                <ThemedText style={styles.modalTitle}>Benchmark WODs</ThemedText>
+                <TouchableOpacity onPress={() => setBenchmarkPickerVisible(false)}>
+                  <ThemedText style={[styles.modalDone, { color: colors.primary }]}>Close</ThemedText>
+                </TouchableOpacity>
+              </View>
+
+              <View style={[styles.measurementTypeContainer, styles.benchmarkCategories]}>
+                {BENCHMARK_CATEGORIES.map(category => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[
+                      styles.measurementTypeButton,
+                      benchmarkCategory === category && { backgroundColor: colors.primary }
+                    ]}
+                    onPress={() => setBenchmarkCategory(category)}
+                  >
+                    <ThemedText style={[
+                      styles.measurementTypeText,
+                      benchmarkCategory === category && { color: '#FFFFFF' }
+                    ]}>
+                      {category}
+                    </ThemedText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <FlatList
+                style={styles.typeList}
+                data={BENCHMARKS.filter(item => item.category === benchmarkCategory)}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item }) => (
+                  <TouchableOpacity
+                    style={styles.typeOption}
+                    onPress={() => handleBenchmarkSelect(item)}
+                  >
+                    <View style={styles.typeRow}>
+                      <ThemedText style={[
+                        styles.typeOptionText,
+                        benchmarkId === item.id && { color: colors.primary }
+                      ]}>
+                        {item.name}
+                      </ThemedText>
+                      <ThemedText style={styles.benchmarkFormat}>{item.wod_format}</ThemedText>
+                    </View>
+                    <ThemedText style={styles.benchmarkSummary} numberOfLines={2}>
+                      {item.description.split('\n').join(' · ')}
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+              />
+            </View>
+          </View>
+        </Modal>
+      </>
+    );
+  };
+
   const renderTypeInput = () => {
     return (
       <>
@@ -357,13 +1227,13 @@ export default function AddWorkoutScreen() {
                         <Ionicons name="checkmark" size={22} color={colors.primary} />
                       )}
                     </View>
-                    {item === 'Other' && selectedTypes.includes('Other') && (
+                    {item === OTHER_WORKOUT_TYPE && selectedTypes.includes(OTHER_WORKOUT_TYPE) && (
                       <FloatingLabelInput
                         label=""
                         style={[styles.input, { marginTop: 8 }]}
                         value={customType}
                         onChangeText={setCustomType}
-                        placeholder="Custome Type"
+                        placeholder="Custom Type"
                         placeholderTextColor={colors.tabIconDefault}
                       />
                     )}
@@ -397,75 +1267,367 @@ export default function AddWorkoutScreen() {
     };
   }, []);
 
-  const renderExerciseFields = () => {
+  const renderSetEditor = () => {
+    const showWeight = measurementType === 'weight_reps';
     return (
-      <>
-        <View style={styles.formRow}>
-          <TextInput
-            style={[
-              styles.input,
-              { color: Colors[colorScheme ?? 'light'].text },
-              focusedField === 'weight' && styles.focusedInput
-            ]}
-            placeholder="Weight"
-            placeholderTextColor={colors.tabIconDefault}
-            value={weight}
-            onChangeText={setWeight}
-            keyboardType="decimal-pad"
-            onFocus={() => handleInputFocus('weight', 100)}
-            onBlur={() => setFocusedField(null)}
-          />
+      <View style={styles.formRow}>
+        <View style={styles.setHeaderRow}>
+          <ThemedText style={[styles.setHeaderText, styles.setIndexColumn]}>Set</ThemedText>
+          {showWeight && (
+            <TouchableOpacity style={[styles.setInputColumn, styles.weightHeader]} onPress={openPercentHelper}>
+              <ThemedText style={[styles.setHeaderText, { color: colors.primary, opacity: 1 }]}>
+                {weightUnit(settings.useMetric)}
+              </ThemedText>
+              <Ionicons name="calculator-outline" size={14} color={colors.primary} />
+            </TouchableOpacity>
+          )}
+          <ThemedText style={[styles.setHeaderText, styles.setInputColumn]}>Reps</ThemedText>
+          <ThemedText style={[styles.setHeaderText, styles.setInputColumn]}>RPE</ThemedText>
+          <View style={styles.setActionColumn} />
+          <View style={styles.setActionColumn} />
         </View>
 
+        {sets.map((set, index) => (
+          <View key={index} style={[styles.setRow, !set.done && styles.setRowPending]}>
+            <ThemedText style={[styles.setIndexText, styles.setIndexColumn]}>{index + 1}</ThemedText>
+            {showWeight && (
+              <TextInput
+                style={[styles.input, styles.setInput, styles.setInputColumn, { color: colors.text }]}
+                placeholder="0"
+                placeholderTextColor={colors.tabIconDefault}
+                value={set.weight}
+                onChangeText={(value) => updateSet(index, { weight: value })}
+                keyboardType="decimal-pad"
+              />
+            )}
+            <TextInput
+              style={[styles.input, styles.setInput, styles.setInputColumn, { color: colors.text }]}
+              placeholder="0"
+              placeholderTextColor={colors.tabIconDefault}
+              value={set.reps}
+              onChangeText={(value) => updateSet(index, { reps: value })}
+              keyboardType="number-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.setInput, styles.setInputColumn, { color: colors.text }]}
+              placeholder="-"
+              placeholderTextColor={colors.tabIconDefault}
+              value={set.rpe}
+              onChangeText={(value) => updateSet(index, { rpe: value })}
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity
+              style={styles.setActionColumn}
+              onPress={() => updateSet(index, { done: !set.done })}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons
+                name={set.done ? 'checkmark-circle' : 'ellipse-outline'}
+                size={24}
+                color={set.done ? colors.primary : colors.tabIconDefault}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.setActionColumn}
+              onPress={() => removeSet(index)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="close" size={20} color={colors.tabIconDefault} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.setActions}>
+          <TouchableOpacity style={styles.addSetButton} onPress={addSet}>
+            <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+            <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Add Set</ThemedText>
+          </TouchableOpacity>
+          {showWeight && (
+            <TouchableOpacity style={styles.addSetButton} onPress={() => setPlatesVisible(true)}>
+              <Ionicons name="barbell-outline" size={20} color={colors.primary} />
+              <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Plates</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+        {showWeight && renderPercentHelper()}
+        {showWeight && renderPlates()}
+      </View>
+    );
+  };
+
+  const renderScoreInput = (
+    field: string,
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    keyboardType: 'number-pad' | 'numbers-and-punctuation' = 'number-pad'
+  ) => (
+    <FloatingLabelInput
+      label={label}
+      style={[
+        styles.input,
+        { color: Colors[colorScheme ?? 'light'].text },
+        focusedField === field && styles.focusedInput
+      ]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholderTextColor={colors.tabIconDefault}
+      keyboardType={keyboardType}
+      onFocus={() => handleInputFocus(field, 400)}
+      onBlur={() => setFocusedField(null)}
+    />
+  );
+
+  const renderScalingInput = () => {
+    return (
+      <>
         <View style={styles.formRow}>
-          <TextInput
-            style={[
-              styles.input,
-              { color: Colors[colorScheme ?? 'light'].text },
-              focusedField === 'reps' && styles.focusedInput
-            ]}
-            placeholder="Reps"
-            placeholderTextColor={colors.tabIconDefault}
-            value={reps}
-            onChangeText={setReps}
-            keyboardType="number-pad"
-            onFocus={() => handleInputFocus('reps', 200)}
-            onBlur={() => setFocusedField(null)}
-          />
+          <ThemedText style={styles.label}>Scaling</ThemedText>
+          <View style={styles.measurementTypeContainer}>
+            {WOD_SCALING_LEVELS.map(level => (
+              <TouchableOpacity
+                key={level.id}
+                style={[
+                  styles.measurementTypeButton,
+                  scaling === level.id && { backgroundColor: colors.primary }
+                ]}
+                // Tapping the selected level again clears it
+                onPress={() => setScaling(scaling === level.id ? undefined : level.id)}
+              >
+                <ThemedText style={[
+                  styles.measurementTypeText,
+                  scaling === level.id && { color: '#FFFFFF' }
+                ]}>
+                  {level.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
 
+        {scaling === 'custom' && (
+          <View style={styles.formRow}>
+            <FloatingLabelInput
+              label="Scaling Notes"
+              style={[
+                styles.input,
+                { color: Colors[colorScheme ?? 'light'].text },
+                focusedField === 'scalingNotes' && styles.focusedInput
+              ]}
+              value={scalingNotes}
+              onChangeText={setScalingNotes}
+              placeholderTextColor={colors.tabIconDefault}
+              onFocus={() => handleInputFocus('scalingNotes', 400)}
+              onBlur={() => setFocusedField(null)}
+            />
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const renderScoreFields = () => {
+    return (
+      <>
         <View style={styles.formRow}>
-          <TextInput
-            style={[
-              styles.input,
-              { color: Colors[colorScheme ?? 'light'].text },
-              focusedField === 'time' && styles.focusedInput
-            ]}
-            placeholder="Time (mm:ss)"
-            placeholderTextColor={colors.tabIconDefault}
-            value={time}
-            onChangeText={setTime}
-            onFocus={() => handleInputFocus('time', 300)}
-            onBlur={() => setFocusedField(null)}
-          />
+          <ThemedText style={styles.label}>Result</ThemedText>
+          <View style={styles.measurementTypeContainer}>
+            {[...WOD_SCORE_TYPES, { id: 'text' as const, label: 'Text' }].map(type => (
+              <TouchableOpacity
+                key={type.id}
+                style={[
+                  styles.measurementTypeButton,
+                  score.type === type.id && { backgroundColor: colors.primary }
+                ]}
+                onPress={() => updateScore({ type: type.id })}
+              >
+                <ThemedText style={[
+                  styles.measurementTypeText,
+                  score.type === type.id && { color: '#FFFFFF' }
+                ]}>
+                  {type.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
 
+        {score.type === 'text' && (
+          <View style={styles.formRow}>
+            <FloatingLabelInput
+              label="Workout Result"
+              style={[
+                styles.input,
+                { color: Colors[colorScheme ?? 'light'].text },
+                focusedField === 'result' && styles.focusedInput
+              ]}
+              value={result}
+              onChangeText={setResult}
+              placeholderTextColor={colors.tabIconDefault}
+              onFocus={() => handleInputFocus('result', 400)}
+              onBlur={() => setFocusedField(null)}
+            />
+          </View>
+        )}
+
+        {score.type === 'rounds_reps' && (
+          <View style={[styles.formRow, styles.row]}>
+            <View style={styles.halfInput}>
+              {renderScoreInput('rounds', 'Rounds', score.rounds, rounds => updateScore({ rounds }))}
+            </View>
+            <View style={styles.halfInput}>
+              {renderScoreInput('reps', 'Extra Reps', score.reps, reps => updateScore({ reps }))}
+            </View>
+          </View>
+        )}
+
+        {score.type === 'time' && (
+          <>
+            <View style={[styles.formRow, styles.row]}>
+              <View style={styles.halfInput}>
+                {score.capped
+                  ? renderScoreInput('reps', 'Reps Completed', score.reps, reps => updateScore({ reps }))
+                  : renderScoreInput('time', 'Time (mm:ss)', score.time, time => updateScore({ time }), 'numbers-and-punctuation')}
+              </View>
+              <View style={styles.halfInput}>
+                {renderScoreInput('timeCap', 'Time Cap (mm:ss)', score.timeCap, timeCap => updateScore({ timeCap }), 'numbers-and-punctuation')}
+              </View>
+            </View>
+            <View style={[styles.formRow, styles.cappedRow]}>
+              <ThemedText>Hit the time cap</ThemedText>
+              <Switch
+                value={score.capped}
+                onValueChange={capped => updateScore({ capped })}
+                trackColor={{ false: colors.secondary, true: colors.primary }}
+                ios_backgroundColor={colors.secondary}
+              />
+            </View>
+          </>
+        )}
+
+        {score.type === 'minutes' && (
+          <View style={styles.formRow}>
+            {renderScoreInput('minutes', 'Minutes Completed', score.minutes, minutes => updateScore({ minutes }))}
+          </View>
+        )}
+
+        {score.type === 'intervals' && (
+          <View style={styles.formRow}>
+            <ThemedText style={styles.setHeaderText}>Reps per interval</ThemedText>
+            <View style={styles.intervalGrid}>
+              {score.intervals.map((interval, index) => (
+                <TextInput
+                  key={index}
+                  style={[styles.input, styles.setInput, styles.intervalInput, { color: colors.text }]}
+                  placeholder={String(index + 1)}
+                  placeholderTextColor={colors.tabIconDefault}
+                  value={interval}
+                  onChangeText={(value) => updateInterval(index, value)}
+                  keyboardType="number-pad"
+                />
+              ))}
+            </View>
+            <TouchableOpacity
+              style={styles.addSetButton}
+              onPress={() => updateScore({ intervals: [...score.intervals, ''] })}
+            >
+              <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+              <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Add Interval</ThemedText>
+            </TouchableOpacity>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const renderExerciseFields = () => {
+    return (
+      <>
         <View style={styles.formRow}>
-          <TextInput
-            style={[
-              styles.input,
-              { color: Colors[colorScheme ?? 'light'].text },
-              focusedField === 'distance' && styles.focusedInput
-            ]}
-            placeholder="Distance"
-            placeholderTextColor={colors.tabIconDefault}
-            value={distance}
-            onChangeText={setDistance}
-            keyboardType="decimal-pad"
-            onFocus={() => handleInputFocus('distance', 400)}
-            onBlur={() => setFocusedField(null)}
-          />
+          <View style={styles.measurementTypeContainer}>
+            {MEASUREMENT_TYPES.map(type => (
+              <TouchableOpacity
+                key={type.id}
+                style={[
+                  styles.measurementTypeButton,
+                  measurementType === type.id && { backgroundColor: colors.primary }
+                ]}
+                onPress={() => setMeasurementType(type.id)}
+              >
+                <ThemedText style={[
+                  styles.measurementTypeText,
+                  measurementType === type.id && { color: '#FFFFFF' }
+                ]}>
+                  {type.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
+
+        {usesSets(measurementType) && renderSetEditor()}
+
+        {(measurementType === 'time_only' || measurementType === 'distance_time') && (
+          <View style={styles.formRow}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: Colors[colorScheme ?? 'light'].text },
+                focusedField === 'time' && styles.focusedInput
+              ]}
+              placeholder="Time (mm:ss)"
+              placeholderTextColor={colors.tabIconDefault}
+              value={time}
+              onChangeText={setTime}
+              onFocus={() => handleInputFocus('time', 300)}
+              onBlur={() => setFocusedField(null)}
+            />
+          </View>
+        )}
+
+        {measurementType === 'distance_time' && (
+          <View style={styles.formRow}>
+            <TextInput
+              style={[
+                styles.input,
+                { color: Colors[colorScheme ?? 'light'].text },
+                focusedField === 'distance' && styles.focusedInput
+              ]}
+              placeholder="Distance"
+              placeholderTextColor={colors.tabIconDefault}
+              value={distance}
+              onChangeText={setDistance}
+              keyboardType="decimal-pad"
+              onFocus={() => handleInputFocus('distance', 400)}
+              onBlur={() => setFocusedField(null)}
+            />
+          </View>
+        )}
+
+        {settings.showRestTimer && !params.id && (
+          <View style={styles.formRow}>
+            <ThemedText style={styles.restLabel}>Rest after saving</ThemedText>
+            <View style={styles.measurementTypeContainer}>
+              {REST_PRESETS.map(seconds => (
+                <TouchableOpacity
+                  key={seconds}
+                  style={[
+                    styles.measurementTypeButton,
+                    restDuration === seconds && { backgroundColor: colors.primary }
+                  ]}
+                  onPress={() => setRestSeconds(seconds)}
+                >
+                  <ThemedText style={[
+                    styles.measurementTypeText,
+                    restDuration === seconds && { color: '#FFFFFF' }
+                  ]}>
+                    {formatRestPreset(seconds)}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
       </>
     );
   };
@@ -507,6 +1669,7 @@ export default function AddWorkoutScreen() {
             onScroll={handleScroll}
             scrollEventThrottle={16}
             showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
           >
             <View style={styles.header}>
               <TouchableOpacity onPress={() => router.back()}>
@@ -531,22 +1694,48 @@ export default function AddWorkoutScreen() {
                   />
                   <ThemedText>WOD</ThemedText>
                 </View>
+                {params.editMode !== 'true' && (
+                  <TouchableOpacity style={styles.addSetButton} onPress={() => setTemplatePickerVisible(true)}>
+                    <Ionicons name="documents-outline" size={20} color={colors.primary} />
+                    <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Start from template</ThemedText>
+                  </TouchableOpacity>
+                )}
               </View>
 
               <View style={styles.formRow}>
-                <FloatingLabelInput
-                  label="Workout Name"
-                  style={[
-                    styles.input,
-                    { color: Colors[colorScheme ?? 'light'].text },
-                    focusedField === 'name' && styles.focusedInput
-                  ]}
-                  value={name}
-                  onChangeText={setName}
-                  placeholderTextColor={colors.tabIconDefault}
-                  onFocus={() => handleInputFocus('name', 100)}
-                  onBlur={() => setFocusedField(null)}
-                />
+                {isWOD ? (
+                  <>
+                    <FloatingLabelInput
+                      label="Workout Name"
+                      style={[
+                        styles.input,
+                        { color: Colors[colorScheme ?? 'light'].text },
+                        focusedField === 'name' && styles.focusedInput
+                      ]}
+                      value={name}
+                      onChangeText={handleWodNameChange}
+                      placeholderTextColor={colors.tabIconDefault}
+                      onFocus={() => handleInputFocus('name', 100)}
+                      onBlur={() => setFocusedField(null)}
+                    />
+                    {renderBenchmarkRow()}
+                  </>
+                ) : (
+                  <ExerciseAutocomplete
+                    label="Exercise Name"
+                    style={[
+                      styles.input,
+                      { color: Colors[colorScheme ?? 'light'].text },
+                      focusedField === 'name' && styles.focusedInput
+                    ]}
+                    value={name}
+                    catalog={catalog}
+                    onChangeText={handleExerciseNameChange}
+                    onSelect={handleCatalogSelect}
+                    onFocus={() => handleInputFocus('name', 100)}
+                    onBlur={() => setFocusedField(null)}
+                  />
+                )}
               </View>
 
               <View style={styles.formRow}>
@@ -578,21 +1767,8 @@ export default function AddWorkoutScreen() {
                     />
                   </View>
 
-                  <View style={styles.formRow}>
-                    <FloatingLabelInput
-                      label="Workout Result"
-                      style={[
-                        styles.input,
-                        { color: Colors[colorScheme ?? 'light'].text },
-                        focusedField === 'result' && styles.focusedInput
-                      ]}
-                      value={result}
-                      onChangeText={setResult}
-                      placeholderTextColor={colors.tabIconDefault}
-                      onFocus={() => handleInputFocus('result', 400)}
-                      onBlur={() => setFocusedField(null)}
-                    />
-                  </View>
+                  {renderScoreFields()}
+                  {renderScalingInput()}
                 </>
               ) : (
                 <>
@@ -617,7 +1793,17 @@ export default function AddWorkoutScreen() {
                   onBlur={() => setFocusedField(null)}
                 />
               </View>
+
+              <View style={styles.formRow}>
+                <TouchableOpacity style={styles.addSetButton} onPress={openSaveTemplate}>
+                  <Ionicons name="bookmark-outline" size={20} color={colors.primary} />
+                  <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Save as Template</ThemedText>
+                </TouchableOpacity>
+              </View>
             </ThemedView>
+            {renderTemplatePicker()}
+            {renderSaveTemplate()}
+            {renderCelebration()}
           </ScrollView>
         </SafeAreaView>
       </TouchableWithoutFeedback>
@@ -721,6 +1907,58 @@ const styles = StyleSheet.create({
     padding: 20,
     maxHeight: '80%',
   },
+  celebrationHeader: {
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  celebrationTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    lineHeight: 30,
+  },
+  celebrationRow: {
+    paddingVertical: 12,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  celebrationAchievement: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  celebrationText: {
+    flex: 1,
+  },
+  celebrationName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  celebrationValues: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  celebrationPrevious: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  celebrationCurrent: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  celebrationButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  celebrationButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   modalHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -788,4 +2026,155 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'center',
   },
+  setHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 4,
+  },
+  weightHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  percentLoad: {
+    fontSize: 36,
+    fontWeight: '700',
+    lineHeight: 44,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  setHeaderText: {
+    fontSize: 13,
+    fontWeight: '500',
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  setRowPending: {
+    opacity: 0.5,
+  },
+  setIndexColumn: {
+    width: 28,
+  },
+  setInputColumn: {
+    flex: 1,
+  },
+  setActionColumn: {
+    width: 24,
+    alignItems: 'center',
+  },
+  setIndexText: {
+    fontSize: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  setInput: {
+    textAlign: 'center',
+  },
+  restLabel: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginBottom: 8,
+  },
+  setActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  plateLoad: {
+    marginBottom: 16,
+  },
+  plateLoadTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  addSetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 6,
+  },
+  addSetText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  benchmarkRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  benchmarkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+  },
+  benchmarkButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  benchmarkCategories: {
+    marginTop: 0,
+    marginBottom: 8,
+  },
+  benchmarkFormat: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  benchmarkSummary: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateEntries: {
+    marginTop: 8,
+    paddingLeft: 12,
+  },
+  templateEntry: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  templateAddLabel: {
+    marginTop: 20,
+    marginBottom: 4,
+  },
+  emptyTemplates: {
+    opacity: 0.6,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  cappedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: -16,
+  },
+  intervalGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  intervalInput: {
+    width: '20%',
+  },
 }); 
\ No newline at end of file
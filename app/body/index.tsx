@@ -0,0 +1,212 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../../components/ThemedText';
+import { ThemedView } from '../../components/ThemedView';
+import Colors from '../../constants/Colors';
+import { BODY_METRICS } from '../../constants/BodyMetrics';
+import { useSettings } from '../../contexts/SettingsContext';
+import { BodyMetric, deleteBodyMetric, getBodyMetrics } from '../utils/db';
+import { formatMetricValue, getMetricValue } from '../utils/bodyMetrics';
+import { parseDayKey } from '../utils/dates';
+
+export default function BodyMetricsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [entries, setEntries] = useState<BodyMetric[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await getBodyMetrics());
+    } catch (error) {
+      console.error('Error loading body metrics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  const handleDelete = (entry: BodyMetric) => {
+    if (!entry.id) return;
+    Alert.alert('Delete Check-in', `Delete the check-in from ${format(parseDayKey(entry.date), 'MMM d, yyyy')}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteBodyMetric(entry.id!);
+            await loadEntries();
+          } catch (error) {
+            console.error('Error deleting body metric:', error);
+            Alert.alert('Error', 'Failed to delete check-in');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderEntry = (entry: BodyMetric) => {
+    const values = BODY_METRICS.flatMap(metric => {
+      const value = getMetricValue(entry, metric.id);
+      return value !== undefined ? [{ ...metric, value }] : [];
+    });
+
+    return (
+      <TouchableOpacity
+        key={entry.id}
+        onPress={() => router.push({ pathname: '/body/new', params: { id: String(entry.id) } })}
+      >
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <View style={styles.entryHeader}>
+            <ThemedText style={styles.entryDate}>{format(parseDayKey(entry.date), 'EEE, MMM d, yyyy')}</ThemedText>
+            <TouchableOpacity onPress={() => handleDelete(entry)} hitSlop={8}>
+              <Ionicons name="trash-outline" size={20} color={colors.tabIconDefault} />
+            </TouchableOpacity>
+          </View>
+          {values.map(metric => (
+            <View key={metric.id} style={styles.valueRow}>
+              <ThemedText style={styles.valueLabel}>{metric.label}</ThemedText>
+              <ThemedText style={styles.value}>
+                {formatMetricValue(metric.id, metric.value, settings.useMetric)}
+              </ThemedText>
+            </View>
+          ))}
+          {entry.notes ? <ThemedText style={styles.notes}>{entry.notes}</ThemedText> : null}
+        </ThemedView>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Body Metrics</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity
+          style={[styles.newButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push('/body/new')}
+        >
+          <Ionicons name="add" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.newButtonText}>Log Measurements</ThemedText>
+        </TouchableOpacity>
+
+        {!isLoading && entries.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            No check-ins yet. Log your bodyweight, body fat or measurements to see trends on Progress.
+          </ThemedText>
+        )}
+        {entries.map(renderEntry)}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  newButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  entryDate: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  valueRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  valueLabel: {
+    fontSize: 15,
+    opacity: 0.7,
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  notes: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert, KeyboardAvoidingView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { ThemedText } from '../../components/ThemedText';
+import { FloatingLabelInput } from '../../components/FloatingLabelInput';
+import Colors from '../../constants/Colors';
+import { MEASUREMENT_SITES, MeasurementSite } from '../../constants/BodyMetrics';
+import { useSettings } from '../../contexts/SettingsContext';
+import { BodyMetric, addBodyMetric, getBodyMetrics, updateBodyMetric } from '../utils/db';
+import { toDisplayValue } from '../utils/bodyMetrics';
+import { getDayKey, parseDayKey } from '../utils/dates';
+import { lengthUnit, parseDecimal, toCm, toKg, weightUnit } from '../utils/units';
+
+// Undefined for an empty or unreadable field
+const parseValue = (text: string): number | undefined => {
+  const value = parseDecimal(text);
+  return isNaN(value) || value <= 0 ? undefined : value;
+};
+
+export default function BodyMetricScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const [date, setDate] = useState(new Date());
+  const [isDatePickerVisible, setDatePickerVisible] = useState(false);
+  // In the display unit
+  const [weight, setWeight] = useState('');
+  const [bodyFat, setBodyFat] = useState('');
+  const [measurements, setMeasurements] = useState<Partial<Record<MeasurementSite, string>>>({});
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+    getBodyMetrics()
+      .then(entries => {
+        const entry = entries.find(item => item.id === Number(id));
+        if (!entry) return;
+        setDate(parseDayKey(entry.date));
+        setWeight(entry.weight !== undefined ? String(toDisplayValue('weight', entry.weight, settings.useMetric)) : '');
+        setBodyFat(entry.body_fat !== undefined ? String(entry.body_fat) : '');
+        setMeasurements(Object.fromEntries(
+          Object.entries(entry.measurements).map(([site, cm]) => [
+            site,
+            String(toDisplayValue(site as MeasurementSite, cm, settings.useMetric)),
+          ])
+        ));
+        setNotes(entry.notes || '');
+      })
+      .catch(error => console.error('Error loading body metric:', error));
+  }, [id, settings.useMetric]);
+
+  const handleSave = async () => {
+    const sites: BodyMetric['measurements'] = {};
+    for (const site of MEASUREMENT_SITES) {
+      const value = parseValue(measurements[site.id] || '');
+      if (value !== undefined) sites[site.id] = toCm(value, settings.useMetric);
+    }
+    const weightValue = parseValue(weight);
+    const bodyFatValue = parseValue(bodyFat);
+
+    if (weightValue === undefined && bodyFatValue === undefined && Object.keys(sites).length === 0) {
+      Alert.alert('Error', 'Please enter at least one measurement');
+      return;
+    }
+    if (bodyFatValue !== undefined && bodyFatValue >= 100) {
+      Alert.alert('Error', 'Body fat must be a percentage below 100');
+      return;
+    }
+
+    const metric: BodyMetric = {
+      date: getDayKey(date),
+      weight: weightValue !== undefined ? toKg(weightValue, settings.useMetric) : undefined,
+      body_fat: bodyFatValue,
+      measurements: sites,
+      notes: notes.trim() || undefined,
+    };
+
+    try {
+      if (id) {
+        await updateBodyMetric({ ...metric, id: Number(id) });
+      } else {
+        await addBodyMetric(metric);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving body metric:', error);
+      Alert.alert('Error', 'Failed to save measurements');
+    }
+  };
+
+  const renderDateInput = () => {
+    if (Platform.OS === 'web') {
+      return (
+        <input
+          type="date"
+          value={getDayKey(date)}
+          onChange={(e) => {
+            if (e.target.value) setDate(parseDayKey(e.target.value));
+          }}
+          style={{
+            fontSize: 16,
+            padding: 16,
+            borderRadius: 8,
+            border: 'none',
+            backgroundColor: colors.background,
+            color: colors.text,
+            width: '100%',
+            outline: 'none',
+          }}
+        />
+      );
+    }
+
+    return (
+      <>
+        <TouchableOpacity onPress={() => setDatePickerVisible(true)} style={[styles.input, styles.dateInput]}>
+          <ThemedText style={styles.dateText}>{format(date, 'EEE, MMM d, yyyy')}</ThemedText>
+          <Ionicons name="calendar-outline" size={20} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        <DateTimePickerModal
+          isVisible={isDatePickerVisible}
+          mode="date"
+          onConfirm={picked => {
+            setDate(picked);
+            setDatePickerVisible(false);
+          }}
+          onCancel={() => setDatePickerVisible(false)}
+          maximumDate={new Date()}
+          date={date}
+        />
+      </>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={colors.primary} />
+          </TouchableOpacity>
+          <ThemedText style={styles.title}>{id ? 'Edit Check-in' : 'New Check-in'}</ThemedText>
+          <TouchableOpacity onPress={handleSave}>
+            <ThemedText style={[styles.saveButton, { color: colors.primary }]}>Save</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Date</ThemedText>
+            {renderDateInput()}
+          </View>
+
+          <View style={styles.section}>
+            <FloatingLabelInput
+              label={`Bodyweight (${weightUnit(settings.useMetric)})`}
+              style={[styles.input, { color: colors.text }]}
+              value={weight}
+              onChangeText={setWeight}
+              keyboardType="decimal-pad"
+              placeholderTextColor={colors.tabIconDefault}
+            />
+            <FloatingLabelInput
+              label="Body fat (%)"
+              style={[styles.input, { color: colors.text }]}
+              value={bodyFat}
+              onChangeText={setBodyFat}
+              keyboardType="decimal-pad"
+              placeholderTextColor={colors.tabIconDefault}
+            />
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Measurements ({lengthUnit(settings.useMetric)})</ThemedText>
+            {MEASUREMENT_SITES.map(site => (
+              <FloatingLabelInput
+                key={site.id}
+                label={site.label}
+                style={[styles.input, { color: colors.text }]}
+                value={measurements[site.id] || ''}
+                onChangeText={text => setMeasurements(prev => ({ ...prev, [site.id]: text }))}
+                keyboardType="decimal-pad"
+                placeholderTextColor={colors.tabIconDefault}
+              />
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <FloatingLabelInput
+              label="Notes"
+              style={[styles.input, { color: colors.text }]}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              placeholderTextColor={colors.tabIconDefault}
+            />
+          </View>
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </SafeAreaView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+    gap: 12,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '500',
+    opacity: 0.8,
+    letterSpacing: 0.3,
+  },
+  input: {
+    fontSize: 17,
+    padding: 0,
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  dateInput: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dateText: {
+    fontSize: 17,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, TextInput, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { PlateBreakdown } from '../components/PlateBreakdown';
+import Colors from '../constants/Colors';
+import { useSettings } from '../contexts/SettingsContext';
+import { getAllLogs } from './utils/db';
+import { normalizeExerciseName } from './utils/exercises';
+import {
+  LiftMax,
+  MAX_BASES,
+  MaxBasis,
+  PERCENTAGE_PRESETS,
+  getLiftMaxes,
+  getMaxWeight,
+  getPercentageLoad,
+} from './utils/loadCalculator';
+import { formatWeight, formatWeightInput, parseDecimal, toKg, weightUnit } from './utils/units';
+
+export default function CalculatorScreen() {
+  const params = useLocalSearchParams<{ exercise?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [liftMaxes, setLiftMaxes] = useState<Record<string, LiftMax>>({});
+  const [exercise, setExercise] = useState(params.exercise || '');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [basis, setBasis] = useState<MaxBasis>('e1rm');
+  // Typed max in the display unit; empty means use the logged one
+  const [maxInput, setMaxInput] = useState('');
+  const [percent, setPercent] = useState('80');
+
+  useEffect(() => {
+    getAllLogs()
+      .then(logs => setLiftMaxes(getLiftMaxes(logs, settings.oneRepMaxFormula)))
+      .catch(error => console.error('Error loading maxes:', error));
+  }, [settings.oneRepMaxFormula]);
+
+  const liftNames = useMemo(() => {
+    const query = normalizeExerciseName(searchQuery);
+    return Object.keys(liftMaxes)
+      .filter(name => !query || normalizeExerciseName(name).includes(query))
+      .sort((a, b) => a.localeCompare(b));
+  }, [liftMaxes, searchQuery]);
+
+  const loggedMax = getMaxWeight(liftMaxes[exercise], basis);
+  const typedMax = parseDecimal(maxInput);
+  const max = !isNaN(typedMax) && typedMax > 0 ? toKg(typedMax, settings.useMetric) : loggedMax;
+  const percentValue = parseDecimal(percent);
+  const load = max && !isNaN(percentValue)
+    ? getPercentageLoad(max, percentValue, settings.useMetric, settings.plateInventory)
+    : undefined;
+
+  const selectExercise = (name: string) => {
+    setExercise(name);
+    setMaxInput('');
+    setSearchQuery('');
+  };
+
+  const renderMaxSource = () => {
+    const liftMax = liftMaxes[exercise];
+    const source = basis === '1rm' ? liftMax?.oneRepMax ?? liftMax?.e1rm : liftMax?.e1rm ?? liftMax?.oneRepMax;
+    if (maxInput || !source) return null;
+    return (
+      <ThemedText style={styles.hint}>
+        From {format(source.date, 'MMM d, yyyy')}
+        {basis === '1rm' && !liftMax?.oneRepMax ? ' (e1RM, no heavy single logged)' : ''}
+      </ThemedText>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Load Calculator</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <ThemedText style={styles.cardTitle}>{exercise || 'Pick a lift'}</ThemedText>
+          <View style={[styles.searchContainer, { backgroundColor: colors.background }]}>
+            <Ionicons name="search" size={18} color={colors.tabIconDefault} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              placeholder="Search lifts"
+              placeholderTextColor={colors.tabIconDefault}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+            />
+          </View>
+          <View style={styles.chipRow}>
+            {liftNames.map(name => (
+              <TouchableOpacity
+                key={name}
+                style={[styles.chip, exercise === name && { backgroundColor: colors.primary }]}
+                onPress={() => selectExercise(name)}
+              >
+                <ThemedText style={[styles.chipText, exercise === name && { color: '#FFFFFF' }]}>{name}</ThemedText>
+              </TouchableOpacity>
+            ))}
+            {liftNames.length === 0 && (
+              <ThemedText style={styles.hint}>No weighted lifts logged yet. Enter a max below.</ThemedText>
+            )}
+          </View>
+        </ThemedView>
+
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <View style={styles.chipRow}>
+            {MAX_BASES.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, basis === option.id && { backgroundColor: colors.primary }]}
+                onPress={() => setBasis(option.id)}
+              >
+                <ThemedText style={[styles.chipText, basis === option.id && { color: '#FFFFFF' }]}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.inputRow}>
+            <View style={styles.inputColumn}>
+              <ThemedText style={styles.inputLabel}>Max ({weightUnit(settings.useMetric)})</ThemedText>
+              <TextInput
+                style={[styles.input, { color: colors.text }]}
+                placeholder={loggedMax ? formatWeightInput(loggedMax, settings.useMetric) : '0'}
+                placeholderTextColor={colors.tabIconDefault}
+                value={maxInput}
+                onChangeText={setMaxInput}
+                keyboardType="decimal-pad"
+              />
+            </View>
+            <View style={styles.inputColumn}>
+              <ThemedText style={styles.inputLabel}>Percent</ThemedText>
+              <TextInput
+                style={[styles.input, { color: colors.text }]}
+                placeholder="80"
+                placeholderTextColor={colors.tabIconDefault}
+                value={percent}
+                onChangeText={setPercent}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+          {renderMaxSource()}
+
+          <View style={styles.result}>
+            <ThemedText style={[styles.resultValue, { color: colors.primary }]}>
+              {load !== undefined ? formatWeight(load, settings.useMetric) : '—'}
+            </ThemedText>
+            <ThemedText style={styles.hint}>Rounded to the nearest loadable weight</ThemedText>
+          </View>
+          {load !== undefined && load > 0 && (
+            <View style={styles.plates}>
+              <PlateBreakdown weight={load} useMetric={settings.useMetric} inventory={settings.plateInventory} />
+            </View>
+          )}
+        </ThemedView>
+
+        {max !== undefined && (
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ThemedText style={styles.cardTitle}>Percentages</ThemedText>
+            {PERCENTAGE_PRESETS.map(preset => (
+              <TouchableOpacity
+                key={preset}
+                style={[styles.tableRow, String(preset) === percent && { backgroundColor: colors.primary + '15' }]}
+                onPress={() => setPercent(String(preset))}
+              >
+                <ThemedText style={styles.tablePercent}>{preset}%</ThemedText>
+                <ThemedText style={styles.tableWeight}>
+                  {formatWeight(getPercentageLoad(max, preset, settings.useMetric, settings.plateInventory), settings.useMetric)}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </ThemedView>
+        )}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    padding: 0,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 16,
+  },
+  inputColumn: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  input: {
+    fontSize: 20,
+    fontWeight: '600',
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 6,
+  },
+  result: {
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  resultValue: {
+    fontSize: 40,
+    fontWeight: '700',
+    lineHeight: 48,
+  },
+  plates: {
+    marginTop: 16,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    marginHorizontal: -8,
+    borderRadius: 8,
+  },
+  tablePercent: {
+    fontSize: 15,
+    opacity: 0.7,
+  },
+  tableWeight: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
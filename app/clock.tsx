@@ -0,0 +1,475 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Audio } from 'expo-av';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import Colors from '../constants/Colors';
+import {
+  CLOCK_MODES,
+  ClockConfig,
+  ClockMode,
+  DEFAULT_CLOCK_CONFIG,
+  LEAD_IN_SECONDS,
+  getClockLength,
+  getClockResultParams,
+  getClockScore,
+  getClockState,
+  getDefaultRounds,
+} from './utils/wodClock';
+import { formatClock } from './utils/wodResults';
+
+type ClockStatus = 'setup' | 'running' | 'paused' | 'finished';
+
+const buzz = (style: 'tick' | 'go' | 'done') => {
+  if (Platform.OS === 'web') return;
+  if (style === 'tick') {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  } else if (style === 'go') {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+  } else {
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }
+};
+
+// Clock cues also beep, to be heard across the gym with the phone set down
+const signal = (style: 'tick' | 'go' | 'done', beep: Audio.Sound | null) => {
+  buzz(style);
+  beep?.replayAsync().catch(error => console.error('Error playing clock beep:', error));
+};
+
+export default function ClockScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [config, setConfig] = useState<ClockConfig>(DEFAULT_CLOCK_CONFIG);
+  const [status, setStatus] = useState<ClockStatus>('setup');
+  // Milliseconds run before the current stretch, and when that stretch began
+  const [banked, setBanked] = useState(0);
+  const [resumedAt, setResumedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [rounds, setRounds] = useState(0);
+  const [tabataReps, setTabataReps] = useState<number[]>([]);
+  // Last second/interval that buzzed, so each cue fires once
+  const lastCue = useRef('');
+  const beep = useRef<Audio.Sound | null>(null);
+
+  // Seconds since the clock proper started; negative during the lead-in
+  const runMs = banked + (status === 'running' ? now - resumedAt : 0);
+  const elapsed = runMs / 1000 - LEAD_IN_SECONDS;
+  const isLeadIn = elapsed < 0;
+  const clock = getClockState(config, Math.max(0, elapsed));
+
+  useEffect(() => {
+    let cancelled = false;
+    Audio.setAudioModeAsync({ playsInSilentModeIOS: true })
+      .then(() => Audio.Sound.createAsync(require('../assets/sounds/beep.wav')))
+      .then(({ sound }) => {
+        if (cancelled) {
+          sound.unloadAsync();
+        } else {
+          beep.current = sound;
+        }
+      })
+      .catch(error => console.error('Error loading clock beep:', error));
+    return () => {
+      cancelled = true;
+      beep.current?.unloadAsync();
+      beep.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'running') return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  useEffect(() => {
+    if (status !== 'running') return;
+
+    if (isLeadIn) {
+      const left = Math.ceil(-elapsed);
+      if (left <= 3 && lastCue.current !== `lead-${left}`) {
+        lastCue.current = `lead-${left}`;
+        signal('tick', beep.current);
+      }
+      return;
+    }
+
+    if (clock.finished) {
+      setBanked(runMs);
+      setStatus('finished');
+      signal('done', beep.current);
+      return;
+    }
+
+    // Every EMOM interval and every Tabata work/rest switch, including the start
+    const cue = `${clock.interval ?? 0}-${clock.phase}`;
+    if (lastCue.current !== cue) {
+      lastCue.current = cue;
+      signal('go', beep.current);
+    }
+  }, [status, isLeadIn, elapsed, clock, runMs]);
+
+  const updateConfig = (changes: Partial<ClockConfig>) => setConfig(prev => ({ ...prev, ...changes }));
+
+  const selectMode = (mode: ClockMode) => updateConfig({ mode, rounds: getDefaultRounds(mode) });
+
+  const start = () => {
+    const startedAt = Date.now();
+    lastCue.current = '';
+    setBanked(0);
+    setRounds(0);
+    setTabataReps(Array(config.rounds).fill(0));
+    setResumedAt(startedAt);
+    setNow(startedAt);
+    setStatus('running');
+  };
+
+  const pause = () => {
+    setBanked(runMs);
+    setStatus('paused');
+  };
+
+  const resume = () => {
+    const resumed = Date.now();
+    setResumedAt(resumed);
+    setNow(resumed);
+    setStatus('running');
+  };
+
+  const finish = () => {
+    setBanked(runMs);
+    setStatus('finished');
+    buzz('done');
+  };
+
+  const reset = () => {
+    setBanked(0);
+    setStatus('setup');
+  };
+
+  const countRound = (delta: number) => {
+    if (config.mode === 'tabata') {
+      const index = (clock.interval ?? 1) - 1;
+      setTabataReps(prev => prev.map((reps, i) => (i === index ? Math.max(0, reps + delta) : reps)));
+    } else {
+      setRounds(prev => Math.max(0, prev + delta));
+    }
+    if (delta > 0) buzz('tick');
+  };
+
+  const saveResult = () => {
+    const score = getClockScore(config, Math.max(0, elapsed), rounds, tabataReps);
+    router.replace({ pathname: '/add-workout', params: getClockResultParams(config, score) });
+  };
+
+  const renderStepper = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    step: number,
+    min: number,
+    formatValue: (value: number) => string = formatClock
+  ) => (
+    <View style={styles.stepperRow}>
+      <ThemedText style={styles.stepperLabel}>{label}</ThemedText>
+      <TouchableOpacity onPress={() => onChange(Math.max(min, value - step))} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+        <Ionicons name="remove-circle-outline" size={28} color={colors.primary} />
+      </TouchableOpacity>
+      <ThemedText style={styles.stepperValue}>{formatValue(value)}</ThemedText>
+      <TouchableOpacity onPress={() => onChange(value + step)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+        <Ionicons name="add-circle-outline" size={28} color={colors.primary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSetup = () => (
+    <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <View style={styles.chipRow}>
+          {CLOCK_MODES.map(mode => (
+            <TouchableOpacity
+              key={mode.id}
+              style={[styles.chip, config.mode === mode.id && { backgroundColor: colors.primary }]}
+              onPress={() => selectMode(mode.id)}
+            >
+              <ThemedText style={[styles.chipText, config.mode === mode.id && { color: '#FFFFFF' }]}>
+                {mode.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.steppers}>
+          {config.mode === 'amrap' &&
+            renderStepper('Duration', config.duration, duration => updateConfig({ duration }), 60, 60)}
+          {config.mode === 'for_time' &&
+            renderStepper('Time cap', config.timeCap, timeCap => updateConfig({ timeCap }), 60, 0,
+              value => (value > 0 ? formatClock(value) : 'None'))}
+          {config.mode === 'emom' && (
+            <>
+              {renderStepper('Every', config.interval, interval => updateConfig({ interval }), 15, 15)}
+              {renderStepper('Intervals', config.rounds, rounds => updateConfig({ rounds }), 1, 1, String)}
+            </>
+          )}
+          {config.mode === 'tabata' && (
+            <>
+              {renderStepper('Work', config.work, work => updateConfig({ work }), 5, 5)}
+              {renderStepper('Rest', config.rest, rest => updateConfig({ rest }), 5, 0)}
+              {renderStepper('Rounds', config.rounds, rounds => updateConfig({ rounds }), 1, 1, String)}
+            </>
+          )}
+        </View>
+
+        <ThemedText style={styles.hint}>
+          {getClockLength(config) !== undefined
+            ? `Total ${formatClock(getClockLength(config)!)} after a ${LEAD_IN_SECONDS}s lead-in`
+            : `Runs until you finish, after a ${LEAD_IN_SECONDS}s lead-in`}
+        </ThemedText>
+      </ThemedView>
+
+      <TouchableOpacity style={[styles.primaryButton, { backgroundColor: colors.primary }]} onPress={start}>
+        <Ionicons name="play" size={20} color="#FFFFFF" />
+        <ThemedText style={styles.primaryButtonText}>Start</ThemedText>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderClock = () => {
+    const isRest = !isLeadIn && clock.phase === 'rest';
+    const count = config.mode === 'tabata' ? tabataReps[(clock.interval ?? 1) - 1] ?? 0 : rounds;
+    return (
+      <View style={styles.clockContainer}>
+        <ThemedText style={[styles.phase, { color: isRest ? colors.accent : colors.primary }]}>
+          {isLeadIn ? 'Get ready' : status === 'finished' ? 'Done' : isRest ? 'Rest' : CLOCK_MODES.find(mode => mode.id === config.mode)?.label}
+        </ThemedText>
+        <ThemedText style={styles.clockText}>
+          {isLeadIn ? Math.ceil(-elapsed) : formatClock(clock.display)}
+        </ThemedText>
+        {clock.interval !== undefined && !isLeadIn && (
+          <ThemedText style={styles.intervalText}>
+            {config.mode === 'tabata' ? 'Round' : 'Interval'} {clock.interval} of {config.rounds}
+          </ThemedText>
+        )}
+
+        {config.mode !== 'emom' && (
+          <View style={styles.counterRow}>
+            <TouchableOpacity onPress={() => countRound(-1)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="remove-circle-outline" size={32} color={colors.tabIconDefault} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.counterButton, { borderColor: colors.primary }]}
+              onPress={() => countRound(1)}
+              disabled={status === 'finished'}
+            >
+              <ThemedText style={[styles.counterValue, { color: colors.primary }]}>{count}</ThemedText>
+              <ThemedText style={styles.counterLabel}>{config.mode === 'tabata' ? 'reps' : 'rounds'}</ThemedText>
+            </TouchableOpacity>
+            <View style={styles.counterSpacer} />
+          </View>
+        )}
+
+        <View style={styles.controls}>
+          {status === 'finished' ? (
+            <>
+              <TouchableOpacity style={[styles.primaryButton, { backgroundColor: colors.primary }]} onPress={saveResult}>
+                <Ionicons name="checkmark" size={20} color="#FFFFFF" />
+                <ThemedText style={styles.primaryButtonText}>Save result</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={reset}>
+                <ThemedText style={[styles.secondaryButtonText, { color: colors.primary }]}>New clock</ThemedText>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                onPress={status === 'running' ? pause : resume}
+              >
+                <Ionicons name={status === 'running' ? 'pause' : 'play'} size={20} color="#FFFFFF" />
+                <ThemedText style={styles.primaryButtonText}>{status === 'running' ? 'Pause' : 'Resume'}</ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={isLeadIn ? reset : finish}>
+                <ThemedText style={[styles.secondaryButtonText, { color: colors.primary }]}>
+                  {isLeadIn ? 'Cancel' : 'Finish'}
+                </ThemedText>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>WOD Clock</ThemedText>
+      </View>
+      {status === 'setup' ? renderSetup() : renderClock()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  steppers: {
+    marginTop: 16,
+    gap: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 16,
+  },
+  stepperValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    fontVariant: ['tabular-nums'],
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 16,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  secondaryButtonText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  clockContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  phase: {
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+  clockText: {
+    textAlign: 'center',
+    fontSize: 88,
+    fontWeight: '700',
+    lineHeight: 100,
+    fontVariant: ['tabular-nums'],
+  },
+  intervalText: {
+    textAlign: 'center',
+    fontSize: 16,
+    opacity: 0.7,
+  },
+  counterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 24,
+    marginVertical: 32,
+  },
+  counterButton: {
+    width: 140,
+    height: 140,
+    borderRadius: 70,
+    borderWidth: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  counterValue: {
+    fontSize: 44,
+    fontWeight: '700',
+    lineHeight: 52,
+  },
+  counterLabel: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  counterSpacer: {
+    width: 32,
+  },
+  controls: {
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,612 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Dimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { LineChart } from 'react-native-chart-kit';
+import { Ionicons } from '@expo/vector-icons';
+import { format, formatDistanceToNow, subDays } from 'date-fns';
+import { ThemedText } from '../../components/ThemedText';
+import { ThemedView } from '../../components/ThemedView';
+import { RepMaxTable } from '../../components/RepMaxTable';
+import Colors from '../../constants/Colors';
+import { useSettings } from '../../contexts/SettingsContext';
+import { Exercise, getAllLogs } from '../utils/db';
+import { getExerciseDisplayName } from '../utils/exercises';
+import { getCompletedSets, getMaxRepsSet, getTopSet, groupSets, usesSets } from '../utils/sets';
+import { getBestOneRepMax, getRepMaxTable, roundOneRepMax } from '../utils/oneRepMax';
+import { PREvent, getExerciseStats, getPRTimeline } from '../utils/exerciseStats';
+import { METERS_PER_MILE, formatWeight, fromKg, weightUnit } from '../utils/units';
+import { compareLogs, getDateParams, getLogDate } from '../utils/dates';
+
+const CHART_RANGES = [
+  { id: '1m', label: '1M', days: 30 },
+  { id: '3m', label: '3M', days: 90 },
+  { id: '6m', label: '6M', days: 180 },
+  { id: '1y', label: '1Y', days: 365 },
+  { id: 'all', label: 'All', days: undefined },
+] as const;
+
+type ChartRange = typeof CHART_RANGES[number]['id'];
+
+// chart-kit draws every label, so long ranges only keep about six of them
+const MAX_CHART_LABELS = 6;
+
+const formatSeconds = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function ExerciseDetailScreen() {
+  const { name = '' } = useLocalSearchParams<{ name: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const screenWidth = Dimensions.get('window').width;
+  const [entries, setEntries] = useState<Exercise[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [chartRange, setChartRange] = useState<ChartRange>('3m');
+  const [selectedDistance, setSelectedDistance] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const allLogs = await getAllLogs();
+      const exerciseLogs = allLogs
+        .filter((log): log is Exercise => log.type === 'exercise')
+        .filter(log => getExerciseDisplayName(log) === name)
+        .sort((a, b) => compareLogs(b, a));
+      setEntries(exerciseLogs);
+    } catch (error) {
+      console.error('Error loading exercise history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [name]);
+
+  // Reload when coming back from editing or logging an entry
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  const measurementType = entries[0]?.measurement_type ?? 'weight_reps';
+  const stats = useMemo(() => getExerciseStats(entries), [entries]);
+  const prTimeline = useMemo(
+    () => getPRTimeline(entries, settings.oneRepMaxFormula).reverse(),
+    [entries, settings.oneRepMaxFormula]
+  );
+  const repMaxes = useMemo(
+    () => getRepMaxTable(
+      entries.map(entry => ({ sets: getCompletedSets(entry), date: getLogDate(entry) })),
+      settings.oneRepMaxFormula
+    ),
+    [entries, settings.oneRepMaxFormula]
+  );
+
+  const distances = useMemo(
+    () => [...new Set(entries.map(entry => entry.distance).filter((distance): distance is string => !!distance))],
+    [entries]
+  );
+  const activeDistance = selectedDistance ?? distances[0] ?? null;
+
+  const formatDistance = useCallback((meters: string | number): string => {
+    const distance = typeof meters === 'number' ? meters : parseFloat(meters);
+    if (settings.useMetric) return `${distance}m`;
+    return `${(distance / METERS_PER_MILE).toFixed(2)}mi`;
+  }, [settings.useMetric]);
+
+  const chartData = useMemo(() => {
+    const range = CHART_RANGES.find(option => option.id === chartRange);
+    const since = range?.days ? subDays(new Date(), range.days) : null;
+
+    const points = [...entries]
+      .reverse()
+      .filter(entry => !since || getLogDate(entry) >= since)
+      .filter(entry => measurementType !== 'distance_time' || entry.distance === activeDistance)
+      .map((entry): { date: Date; value: number; e1rm?: number } => {
+        const date = getLogDate(entry);
+        const sets = getCompletedSets(entry);
+        switch (measurementType) {
+          case 'weight_reps': {
+            const topWeight = getTopSet(sets)?.weight ?? 0;
+            const estimate = getBestOneRepMax(sets, settings.oneRepMaxFormula);
+            return {
+              date,
+              value: roundOneRepMax(fromKg(topWeight, settings.useMetric)),
+              e1rm: roundOneRepMax(fromKg(estimate?.e1rm ?? topWeight, settings.useMetric)),
+            };
+          }
+          case 'reps_only':
+            return { date, value: getMaxRepsSet(sets)?.reps ?? 0 };
+          default:
+            return { date, value: Number(entry.time || '0') };
+        }
+      })
+      .filter(point => point.value > 0);
+
+    const step = Math.ceil(points.length / MAX_CHART_LABELS);
+    return {
+      labels: points.map((point, index) => (index % step === 0 ? format(point.date, 'MMM d') : '')),
+      data: points.map(point => point.value),
+      e1rm: measurementType === 'weight_reps'
+        ? points.map(point => point.e1rm ?? point.value)
+        : undefined,
+    };
+  }, [entries, chartRange, measurementType, activeDistance, settings.oneRepMaxFormula, settings.useMetric]);
+
+  const handleLogAgain = () => {
+    const latest = entries[0];
+    if (!latest) return;
+
+    // Same movement and sets as last time, dated today
+    router.push({
+      pathname: '/add-workout',
+      params: {
+        workoutType: 'exercise',
+        name: latest.name,
+        exercise_id: latest.exercise_id?.toString() || '',
+        measurement_type: latest.measurement_type,
+        sets: JSON.stringify(
+          getCompletedSets(latest).map(({ set_index, weight, reps, rpe }) => ({ set_index, weight, reps, rpe, done: true }))
+        ),
+        distance: latest.distance || '',
+        time: latest.time ? formatSeconds(Number(latest.time)) : '',
+      }
+    });
+  };
+
+  const handleEdit = (entry: Exercise) => {
+    if (!entry.id) return;
+
+    router.push({
+      pathname: '/add-workout',
+      params: {
+        editMode: 'true',
+        id: entry.id.toString(),
+        workoutType: 'exercise',
+        name: entry.name,
+        notes: entry.notes || '',
+        ...getDateParams(entry),
+        weight: entry.weight || '',
+        reps: entry.reps || '',
+        time: entry.time || '',
+        distance: entry.distance || '',
+        measurement_type: entry.measurement_type,
+        exercise_id: entry.exercise_id?.toString() || '',
+        sets: JSON.stringify(entry.sets || [])
+      }
+    });
+  };
+
+  const renderStat = (label: string, value: string) => (
+    <View key={label} style={[styles.statItem, { backgroundColor: colors.primary + '10' }]}>
+      <ThemedText style={styles.statValue}>{value}</ThemedText>
+      <ThemedText style={styles.statLabel}>{label}</ThemedText>
+    </View>
+  );
+
+  const renderStats = () => {
+    const items: [string, string][] = [
+      ['Sessions', String(stats.sessions)],
+      ['Last 30 days', String(stats.sessionsLast30Days)],
+      ['Per week', String(stats.sessionsPerWeek)],
+    ];
+
+    switch (measurementType) {
+      case 'weight_reps':
+        items.push(
+          ['Total volume', `${Math.round(fromKg(stats.totalVolume, settings.useMetric)).toLocaleString()}${weightUnit(settings.useMetric)}`],
+          ['Avg per session', `${Math.round(fromKg(stats.averageVolume, settings.useMetric)).toLocaleString()}${weightUnit(settings.useMetric)}`],
+          ['Total sets', String(stats.totalSets)],
+        );
+        break;
+      case 'reps_only':
+        items.push(['Total reps', String(stats.totalReps)], ['Total sets', String(stats.totalSets)]);
+        break;
+      case 'time_only':
+        items.push(['Total time', formatSeconds(stats.totalTime)]);
+        break;
+      case 'distance_time':
+        items.push(['Total distance', formatDistance(stats.totalDistance)], ['Total time', formatSeconds(stats.totalTime)]);
+        break;
+    }
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>Stats</ThemedText>
+        <View style={styles.statsGrid}>
+          {items.map(([label, value]) => renderStat(label, value))}
+        </View>
+        {stats.lastDate && (
+          <ThemedText style={styles.cardFootnote}>
+            {`Last trained ${formatDistanceToNow(stats.lastDate, { addSuffix: true })} · first logged ${format(stats.firstDate ?? stats.lastDate, 'MMM d, yyyy')}`}
+          </ThemedText>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderChart = () => {
+    const suffix = measurementType === 'weight_reps'
+      ? weightUnit(settings.useMetric)
+      : measurementType === 'reps_only' ? ' reps' : '';
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>Progress</ThemedText>
+        <View style={styles.chipRow}>
+          {CHART_RANGES.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, chartRange === option.id && { backgroundColor: colors.primary + '20' }]}
+              onPress={() => setChartRange(option.id)}
+            >
+              <ThemedText style={[styles.chipText, chartRange === option.id && { color: colors.primary }]}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {measurementType === 'distance_time' && distances.length > 1 && (
+          <View style={styles.chipRow}>
+            {distances.map(distance => (
+              <TouchableOpacity
+                key={distance}
+                style={[styles.chip, activeDistance === distance && { backgroundColor: colors.primary + '20' }]}
+                onPress={() => setSelectedDistance(distance)}
+              >
+                <ThemedText style={[styles.chipText, activeDistance === distance && { color: colors.primary }]}>
+                  {formatDistance(distance)}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {chartData.data.length > 0 ? (
+          <View style={styles.chartWrapper}>
+            <LineChart
+              data={{
+                labels: chartData.labels,
+                datasets: [
+                  {
+                    data: chartData.data,
+                    color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                    strokeWidth: 3,
+                  },
+                  ...(chartData.e1rm ? [{
+                    data: chartData.e1rm,
+                    color: (opacity = 1) => colors.accent + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                    strokeWidth: 2,
+                  }] : [])
+                ],
+                legend: chartData.e1rm ? ['Top set', 'e1RM'] : undefined
+              }}
+              width={screenWidth - 48}
+              height={220}
+              chartConfig={{
+                backgroundGradientFrom: colors.cardBackground,
+                backgroundGradientTo: colors.cardBackground,
+                color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                labelColor: (opacity = 1) => colors.text + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                strokeWidth: 2,
+                propsForLabels: { fontSize: 12 },
+                formatYLabel: (value) => (
+                  measurementType === 'time_only' || measurementType === 'distance_time'
+                    ? formatSeconds(Number(value))
+                    : value
+                ),
+              }}
+              style={styles.chart}
+              bezier
+              withDots
+              withInnerLines={false}
+              withOuterLines={false}
+              withShadow={false}
+              yAxisLabel=""
+              yAxisSuffix={suffix}
+            />
+          </View>
+        ) : (
+          <ThemedText style={styles.emptyText}>No sessions in this range</ThemedText>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const formatPREvent = (event: PREvent): { title: string; value: string } => {
+    switch (event.kind) {
+      case 'weight':
+        return {
+          title: 'Heaviest set',
+          value: `${formatWeight(event.value, settings.useMetric)}${event.reps ? ` × ${event.reps}` : ''}`
+        };
+      case 'e1rm':
+        return { title: 'e1RM', value: formatWeight(event.value, settings.useMetric) };
+      case 'reps':
+        return { title: 'Most reps', value: `${event.value} reps` };
+      case 'time':
+        return {
+          title: event.distance ? `Fastest ${formatDistance(event.distance)}` : 'Fastest time',
+          value: formatSeconds(event.value)
+        };
+    }
+  };
+
+  const renderPRTimeline = () => (
+    <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+      <ThemedText style={styles.cardTitle}>PR Timeline</ThemedText>
+      {prTimeline.map((event, index) => {
+        const { title, value } = formatPREvent(event);
+        return (
+          <View key={`${event.kind}-${event.date.getTime()}-${index}`} style={styles.timelineRow}>
+            <View style={[
+              styles.timelineDot,
+              { backgroundColor: event.kind === 'e1rm' ? colors.accent : colors.primary }
+            ]} />
+            <View style={styles.timelineInfo}>
+              <ThemedText style={styles.timelineTitle}>{`${title} · ${value}`}</ThemedText>
+              <ThemedText style={styles.timelineMeta}>
+                {event.previous === undefined
+                  ? `First logged · ${format(event.date, 'MMM d, yyyy')}`
+                  : format(event.date, 'MMM d, yyyy')}
+              </ThemedText>
+            </View>
+          </View>
+        );
+      })}
+    </ThemedView>
+  );
+
+  const renderEntryDetails = (entry: Exercise) => {
+    if (usesSets(entry.measurement_type)) {
+      return groupSets(getCompletedSets(entry)).map((group, index) => {
+        const load = entry.measurement_type === 'weight_reps' && group.weight !== undefined
+          ? ` @ ${formatWeight(group.weight, settings.useMetric)}`
+          : '';
+        const rpe = group.rpe !== undefined ? ` · RPE ${group.rpe}` : '';
+        return (
+          <ThemedText key={index} style={styles.historyDetails}>
+            {`${group.count} × ${group.reps ?? 0}${load}${rpe}`}
+          </ThemedText>
+        );
+      });
+    }
+
+    const time = formatSeconds(Number(entry.time || '0'));
+    return (
+      <ThemedText style={styles.historyDetails}>
+        {entry.measurement_type === 'distance_time' && entry.distance
+          ? `${formatDistance(entry.distance)} - ${time}`
+          : `Time: ${time}`}
+      </ThemedText>
+    );
+  };
+
+  const renderHistory = () => (
+    <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+      <ThemedText style={styles.cardTitle}>History</ThemedText>
+      {entries.map(entry => (
+        <TouchableOpacity
+          key={entry.id}
+          style={styles.historyRow}
+          onPress={() => handleEdit(entry)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.historyInfo}>
+            <ThemedText style={styles.historyDate}>{format(getLogDate(entry), 'EEE, MMM d, yyyy')}</ThemedText>
+            {renderEntryDetails(entry)}
+            {entry.notes ? <ThemedText style={styles.historyNotes}>{entry.notes}</ThemedText> : null}
+          </View>
+          <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+      ))}
+    </ThemedView>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title} numberOfLines={1}>{name}</ThemedText>
+      </View>
+
+      {!isLoading && entries.length === 0 ? (
+        <ThemedText style={styles.emptyText}>No entries logged for {name}</ThemedText>
+      ) : !isLoading && (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <TouchableOpacity
+            style={[styles.logAgainButton, { backgroundColor: colors.primary }]}
+            onPress={handleLogAgain}
+          >
+            <Ionicons name="add" size={20} color="#FFFFFF" />
+            <ThemedText style={styles.logAgainText}>Log again</ThemedText>
+          </TouchableOpacity>
+
+          {renderStats()}
+          {renderChart()}
+          {measurementType === 'weight_reps' && (
+            <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+              <ThemedText style={styles.cardTitle}>Rep Maxes</ThemedText>
+              <RepMaxTable entries={repMaxes} useMetric={settings.useMetric} />
+            </ThemedView>
+          )}
+          {prTimeline.length > 0 && renderPRTimeline()}
+          {renderHistory()}
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  logAgainButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  logAgainText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  cardFootnote: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  statItem: {
+    width: '30%',
+    flexGrow: 1,
+    padding: 12,
+    borderRadius: 12,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  chartWrapper: {
+    alignItems: 'center',
+    marginHorizontal: -8,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 6,
+    marginRight: 12,
+  },
+  timelineInfo: {
+    flex: 1,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  timelineMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  historyDetails: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  historyNotes: {
+    fontSize: 12,
+    opacity: 0.6,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,286 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '../../components/ThemedText';
+import { ThemedView } from '../../components/ThemedView';
+import { ProgressRing } from '../../components/ProgressRing';
+import Colors from '../../constants/Colors';
+import { useSettings } from '../../contexts/SettingsContext';
+import { Goal, WorkoutLog, deleteGoal, getAllLogs, getGoals } from '../utils/db';
+import {
+  GoalResult,
+  formatGoalValue,
+  getGoalDefinition,
+  getGoalFraction,
+  getGoalHistory,
+  getGoalProgress,
+  getGoalTitle,
+  getResultLabel,
+} from '../utils/goals';
+
+// Most recent finished periods shown under History
+const HISTORY_LIMIT = 30;
+
+export default function GoalsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [logs, setLogs] = useState<WorkoutLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadGoals = useCallback(async () => {
+    try {
+      const [savedGoals, allLogs] = await Promise.all([getGoals(), getAllLogs()]);
+      setGoals(savedGoals);
+      setLogs(allLogs);
+    } catch (error) {
+      console.error('Error loading goals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadGoals();
+    }, [loadGoals])
+  );
+
+  const history = useMemo(() => {
+    const now = new Date();
+    return goals.map(goal => ({ goal, results: getGoalHistory(goal, logs, now) }));
+  }, [goals, logs]);
+
+  const recentResults = useMemo(
+    () => history
+      .flatMap(({ results }) => results)
+      .sort((a, b) => b.end.getTime() - a.end.getTime())
+      .slice(0, HISTORY_LIMIT),
+    [history]
+  );
+
+  const handleDelete = (goal: Goal) => {
+    if (!goal.id) return;
+    Alert.alert('Delete Goal', `Delete "${getGoalTitle(goal, settings.useMetric)}" and its history?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteGoal(goal.id!);
+            await loadGoals();
+          } catch (error) {
+            console.error('Error deleting goal:', error);
+            Alert.alert('Error', 'Failed to delete goal');
+          }
+        },
+      },
+    ]);
+  };
+
+  const errorColor = colorScheme === 'dark' ? '#ff6b6b' : '#ff4444';
+  const getStatusColor = (result: GoalResult) =>
+    result.status === 'hit' ? colors.primary : result.status === 'missed' ? errorColor : colors.tabIconDefault;
+
+  const renderGoal = (goal: Goal) => {
+    const progress = getGoalProgress(goal, logs);
+    const results = history.find(item => item.goal === goal)?.results ?? [];
+    const hits = results.filter(result => result.status === 'hit').length;
+    const definition = getGoalDefinition(goal);
+
+    return (
+      <ThemedView key={goal.id} style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <View style={styles.goalRow}>
+          <ProgressRing progress={getGoalFraction(progress)} color={colors.primary}>
+            <Ionicons
+              name={progress.status === 'hit' ? 'checkmark' : definition.icon}
+              size={22}
+              color={colors.primary}
+            />
+          </ProgressRing>
+          <View style={styles.goalInfo}>
+            <ThemedText style={styles.goalTitle}>{getGoalTitle(goal, settings.useMetric)}</ThemedText>
+            <ThemedText style={styles.goalMeta}>
+              {`${formatGoalValue(goal, progress.value, settings.useMetric)} of ${formatGoalValue(goal, goal.target, settings.useMetric)}` +
+                (goal.period ? ` this ${goal.period}` : goal.goal_type === 'lift' ? ' best set' : '')}
+            </ThemedText>
+            {goal.period ? (
+              results.length > 0 && (
+                <ThemedText style={styles.goalMeta}>
+                  Hit {hits} of {results.length} {goal.period === 'week' ? 'weeks' : 'months'}
+                </ThemedText>
+              )
+            ) : (
+              <ThemedText style={[styles.goalMeta, { color: getStatusColor(progress) }]}>
+                {progress.status === 'missed' ? `Missed · ${getResultLabel(progress)}` : getResultLabel(progress)}
+              </ThemedText>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => handleDelete(goal)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="trash-outline" size={20} color={colors.tabIconDefault} />
+          </TouchableOpacity>
+        </View>
+      </ThemedView>
+    );
+  };
+
+  const renderResult = (result: GoalResult, index: number) => (
+    <View key={`${result.goal.id}-${result.start.getTime()}-${index}`} style={styles.historyRow}>
+      <Ionicons
+        name={result.status === 'hit' ? 'checkmark-circle' : 'close-circle'}
+        size={22}
+        color={getStatusColor(result)}
+      />
+      <View style={styles.goalInfo}>
+        <ThemedText style={styles.historyTitle}>{getGoalTitle(result.goal, settings.useMetric)}</ThemedText>
+        <ThemedText style={styles.goalMeta}>{getResultLabel(result)}</ThemedText>
+      </View>
+      <ThemedText style={styles.historyValue}>
+        {formatGoalValue(result.goal, result.value, settings.useMetric)}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Goals</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity
+          style={[styles.newButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push('/goals/new')}
+        >
+          <Ionicons name="add" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.newButtonText}>New Goal</ThemedText>
+        </TouchableOpacity>
+
+        {!isLoading && goals.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            No goals yet. Aim for training days a week, WODs a month, weekly tonnage or a lift by a deadline.
+          </ThemedText>
+        )}
+        {goals.map(renderGoal)}
+
+        {recentResults.length > 0 && (
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ThemedText style={styles.sectionTitle}>History</ThemedText>
+            {recentResults.map(renderResult)}
+          </ThemedView>
+        )}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  newButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  goalInfo: {
+    flex: 1,
+  },
+  goalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  goalMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  historyValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
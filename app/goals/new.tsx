@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert, KeyboardAvoidingView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { addMonths, endOfYear, format, startOfDay } from 'date-fns';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { ThemedText } from '../../components/ThemedText';
+import { FloatingLabelInput } from '../../components/FloatingLabelInput';
+import { ExerciseAutocomplete } from '../../components/ExerciseAutocomplete';
+import Colors from '../../constants/Colors';
+import { GOAL_PERIODS, GOAL_TYPES, GoalPeriod, GoalType } from '../../constants/Goals';
+import { useSettings } from '../../contexts/SettingsContext';
+import { CatalogExercise, addGoal, getExerciseCatalog } from '../utils/db';
+import { getDayKey, parseDayKey } from '../utils/dates';
+import { findCatalogMatch } from '../utils/exercises';
+import { parseDecimal, toKg, weightUnit } from '../utils/units';
+
+type DeadlineOption = '1m' | '3m' | '6m' | 'year' | 'custom';
+
+const DEADLINE_OPTIONS: { id: DeadlineOption; label: string }[] = [
+  { id: '1m', label: '1 Month' },
+  { id: '3m', label: '3 Months' },
+  { id: '6m', label: '6 Months' },
+  { id: 'year', label: 'End of Year' },
+  { id: 'custom', label: 'Pick a Date' },
+];
+
+// Presets only; a picked date is kept in state
+const getDeadline = (option: Exclude<DeadlineOption, 'custom'>): Date => {
+  const today = new Date();
+  if (option === '1m') return addMonths(today, 1);
+  if (option === '3m') return addMonths(today, 3);
+  if (option === '6m') return addMonths(today, 6);
+  return endOfYear(today);
+};
+
+// Prefilled targets; training days start from the weekly goal in settings instead
+const DEFAULT_TARGETS: Record<GoalType, string> = {
+  sessions: '3',
+  wods: '4',
+  tonnage: '',
+  lift: '',
+};
+
+export default function NewGoalScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [goalType, setGoalType] = useState<GoalType>('sessions');
+  const [period, setPeriod] = useState<GoalPeriod>('week');
+  const [target, setTarget] = useState(String(settings.weeklyGoal));
+  const [exerciseName, setExerciseName] = useState('');
+  const [deadlineOption, setDeadlineOption] = useState<DeadlineOption>('3m');
+  const [customDeadline, setCustomDeadline] = useState(() => addMonths(new Date(), 3));
+  const [isDatePickerVisible, setDatePickerVisible] = useState(false);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+
+  const definition = GOAL_TYPES.find(item => item.id === goalType) ?? GOAL_TYPES[0];
+  const unit = weightUnit(settings.useMetric);
+  const deadline = deadlineOption === 'custom' ? customDeadline : getDeadline(deadlineOption);
+
+  useEffect(() => {
+    getExerciseCatalog()
+      .then(setCatalog)
+      .catch(error => console.error('Error loading exercise catalog:', error));
+  }, []);
+
+  const handleTypeSelect = (type: GoalType) => {
+    setGoalType(type);
+    setTarget(type === 'sessions' ? String(settings.weeklyGoal) : DEFAULT_TARGETS[type]);
+    // WODs are usually counted per month, everything else per week
+    setPeriod(type === 'wods' ? 'month' : 'week');
+  };
+
+  const handleCreate = async () => {
+    const value = parseDecimal(target);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert('Error', 'Please enter a target');
+      return;
+    }
+    if (goalType === 'lift' && !exerciseName.trim()) {
+      Alert.alert('Error', 'Please enter an exercise');
+      return;
+    }
+    if (goalType === 'lift' && deadline < startOfDay(new Date())) {
+      Alert.alert('Error', 'Please pick a deadline from today on');
+      return;
+    }
+
+    try {
+      await addGoal({
+        goal_type: goalType,
+        period: definition.recurring ? period : undefined,
+        target: definition.weighted ? toKg(value, settings.useMetric) : Math.round(value),
+        exercise_name: goalType === 'lift' ? exerciseName.trim() : undefined,
+        // Linked so entries logged under an alias or another spelling still count
+        exercise_id: goalType === 'lift' ? findCatalogMatch(catalog, exerciseName)?.id : undefined,
+        deadline: goalType === 'lift' ? getDayKey(deadline) : undefined,
+      });
+      router.back();
+    } catch (error) {
+      console.error('Error creating goal:', error);
+      Alert.alert('Error', 'Failed to create goal');
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: { id: T; label: string }[],
+    selected: T,
+    onPress: (id: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.id}
+          style={[styles.chip, option.id === selected && { backgroundColor: colors.primary }]}
+          onPress={() => onPress(option.id)}
+        >
+          <ThemedText style={[styles.chipText, option.id === selected && { color: '#FFFFFF' }]}>
+            {option.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const handleDeadlineSelect = (option: DeadlineOption) => {
+    setDeadlineOption(option);
+    if (option === 'custom' && Platform.OS !== 'web') setDatePickerVisible(true);
+  };
+
+  const renderDeadlineInput = () => {
+    if (Platform.OS === 'web') {
+      return (
+        <input
+          type="date"
+          value={getDayKey(customDeadline)}
+          min={getDayKey(new Date())}
+          onChange={(e) => {
+            if (e.target.value) setCustomDeadline(parseDayKey(e.target.value));
+          }}
+          style={{
+            fontSize: 16,
+            padding: 16,
+            marginTop: 12,
+            borderRadius: 8,
+            border: 'none',
+            backgroundColor: colors.background,
+            color: colors.text,
+            width: '100%',
+            outline: 'none',
+          }}
+        />
+      );
+    }
+
+    return (
+      <>
+        <TouchableOpacity onPress={() => setDatePickerVisible(true)} style={[styles.input, styles.dateInput]}>
+          <ThemedText style={styles.dateText}>{format(customDeadline, 'EEE, MMM d, yyyy')}</ThemedText>
+          <Ionicons name="calendar-outline" size={20} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+        <DateTimePickerModal
+          isVisible={isDatePickerVisible}
+          mode="date"
+          onConfirm={picked => {
+            setCustomDeadline(picked);
+            setDatePickerVisible(false);
+          }}
+          onCancel={() => setDatePickerVisible(false)}
+          minimumDate={new Date()}
+          date={customDeadline}
+        />
+      </>
+    );
+  };
+
+  const targetLabel = goalType === 'lift'
+    ? `Target weight (${unit})`
+    : goalType === 'tonnage'
+      ? `Target tonnage (${unit})`
+      : goalType === 'wods' ? 'WODs' : 'Training days';
+
+  return (
+    <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={colors.primary} />
+          </TouchableOpacity>
+          <ThemedText style={styles.title}>New Goal</ThemedText>
+          <TouchableOpacity onPress={handleCreate}>
+            <ThemedText style={[styles.saveButton, { color: colors.primary }]}>Save</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Goal</ThemedText>
+            {renderChips(
+              GOAL_TYPES.map(item => ({ id: item.id, label: item.name })),
+              goalType,
+              handleTypeSelect
+            )}
+            <ThemedText style={styles.description}>{definition.description}</ThemedText>
+          </View>
+
+          {goalType === 'lift' && (
+            <View style={styles.section}>
+              <ExerciseAutocomplete
+                label="Exercise"
+                style={[styles.input, { color: colors.text }]}
+                value={exerciseName}
+                catalog={catalog}
+                onChangeText={setExerciseName}
+                onSelect={exercise => setExerciseName(exercise.name)}
+              />
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <FloatingLabelInput
+              label={targetLabel}
+              style={[styles.input, { color: colors.text }]}
+              value={target}
+              onChangeText={setTarget}
+              keyboardType={definition.weighted ? 'decimal-pad' : 'number-pad'}
+              placeholderTextColor={colors.tabIconDefault}
+            />
+          </View>
+
+          {definition.recurring ? (
+            <View style={styles.section}>
+              <ThemedText style={styles.label}>Period</ThemedText>
+              {renderChips(GOAL_PERIODS, period, setPeriod)}
+            </View>
+          ) : (
+            <View style={styles.section}>
+              <ThemedText style={styles.label}>Deadline</ThemedText>
+              {renderChips(DEADLINE_OPTIONS, deadlineOption, handleDeadlineSelect)}
+              {deadlineOption === 'custom' && renderDeadlineInput()}
+              <ThemedText style={styles.description}>
+                By {format(deadline, 'MMMM d, yyyy')}
+              </ThemedText>
+            </View>
+          )}
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </SafeAreaView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 15,
+    marginBottom: 12,
+    fontWeight: '500',
+    opacity: 0.8,
+    letterSpacing: 0.3,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    fontSize: 17,
+    padding: 0,
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  dateInput: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dateText: {
+    fontSize: 17,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, TextInput, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { PlateBreakdown } from '../components/PlateBreakdown';
+import Colors from '../constants/Colors';
+import { useSettings } from '../contexts/SettingsContext';
+import { BAR_PRESETS, DEFAULT_PLATE_INVENTORY, PlateInventory } from './utils/plates';
+import { formatWeightInput, parseDecimal, toKg, weightUnit } from './utils/units';
+
+export default function PlatesScreen() {
+  // Target weight in kg, e.g. from a set being logged
+  const params = useLocalSearchParams<{ weight?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings, updateSettings } = useSettings();
+  const unit = weightUnit(settings.useMetric);
+  const inventory = settings.plateInventory[unit];
+  const [target, setTarget] = useState(
+    params.weight ? formatWeightInput(parseFloat(params.weight), settings.useMetric) : ''
+  );
+  const isCustomBar = !BAR_PRESETS[unit].includes(inventory.bar);
+  const [customBar, setCustomBar] = useState(isCustomBar ? String(inventory.bar) : '');
+  const [newPlate, setNewPlate] = useState('');
+
+  const targetValue = parseDecimal(target);
+
+  const saveInventory = (changes: Partial<PlateInventory>) =>
+    updateSettings({
+      plateInventory: { ...settings.plateInventory, [unit]: { ...inventory, ...changes } },
+    });
+
+  const handleCustomBar = (value: string) => {
+    setCustomBar(value);
+    const bar = parseDecimal(value);
+    if (!isNaN(bar) && bar > 0) saveInventory({ bar });
+  };
+
+  const changePairs = (weight: number, delta: number) =>
+    saveInventory({
+      plates: inventory.plates.map(plate =>
+        plate.weight === weight ? { ...plate, pairs: Math.max(0, plate.pairs + delta) } : plate
+      ),
+    });
+
+  const addPlate = () => {
+    const weight = parseDecimal(newPlate);
+    if (isNaN(weight) || weight <= 0) return;
+    if (!inventory.plates.some(plate => plate.weight === weight)) {
+      saveInventory({
+        plates: [...inventory.plates, { weight, pairs: 1 }].sort((a, b) => b.weight - a.weight),
+      });
+    }
+    setNewPlate('');
+  };
+
+  const removePlate = (weight: number) =>
+    saveInventory({ plates: inventory.plates.filter(plate => plate.weight !== weight) });
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Bar & Plates</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <ThemedText style={styles.inputLabel}>Target ({unit})</ThemedText>
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            placeholder="0"
+            placeholderTextColor={colors.tabIconDefault}
+            value={target}
+            onChangeText={setTarget}
+            keyboardType="decimal-pad"
+          />
+          {!isNaN(targetValue) && targetValue > 0 && (
+            <View style={styles.breakdown}>
+              <PlateBreakdown
+                weight={toKg(targetValue, settings.useMetric)}
+                useMetric={settings.useMetric}
+                inventory={settings.plateInventory}
+              />
+            </View>
+          )}
+        </ThemedView>
+
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <ThemedText style={styles.cardTitle}>Bar</ThemedText>
+          <View style={styles.chipRow}>
+            {BAR_PRESETS[unit].map(bar => (
+              <TouchableOpacity
+                key={bar}
+                style={[styles.chip, inventory.bar === bar && { backgroundColor: colors.primary }]}
+                onPress={() => {
+                  setCustomBar('');
+                  saveInventory({ bar });
+                }}
+              >
+                <ThemedText style={[styles.chipText, inventory.bar === bar && { color: '#FFFFFF' }]}>
+                  {bar}{unit}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+            <TextInput
+              style={[
+                styles.chip,
+                styles.customInput,
+                { color: isCustomBar ? '#FFFFFF' : colors.text },
+                isCustomBar && { backgroundColor: colors.primary }
+              ]}
+              placeholder="Custom"
+              placeholderTextColor={colors.tabIconDefault}
+              value={customBar}
+              onChangeText={handleCustomBar}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        </ThemedView>
+
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <View style={styles.cardHeader}>
+            <ThemedText style={styles.cardTitle}>Plates (pairs)</ThemedText>
+            <TouchableOpacity onPress={() => saveInventory({ plates: DEFAULT_PLATE_INVENTORY[unit].plates })}>
+              <ThemedText style={[styles.resetText, { color: colors.primary }]}>Reset</ThemedText>
+            </TouchableOpacity>
+          </View>
+          {inventory.plates.map(plate => (
+            <View key={plate.weight} style={styles.plateRow}>
+              <ThemedText style={styles.plateWeight}>{plate.weight}{unit}</ThemedText>
+              <TouchableOpacity onPress={() => changePairs(plate.weight, -1)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Ionicons name="remove-circle-outline" size={24} color={colors.primary} />
+              </TouchableOpacity>
+              <ThemedText style={styles.pairs}>{plate.pairs}</ThemedText>
+              <TouchableOpacity onPress={() => changePairs(plate.weight, 1)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => removePlate(plate.weight)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Ionicons name="close" size={20} color={colors.tabIconDefault} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.plateRow}>
+            <TextInput
+              style={[styles.input, styles.newPlateInput, { color: colors.text }]}
+              placeholder={`Add plate (${unit})`}
+              placeholderTextColor={colors.tabIconDefault}
+              value={newPlate}
+              onChangeText={setNewPlate}
+              onSubmitEditing={addPlate}
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity onPress={addPlate}>
+              <ThemedText style={[styles.resetText, { color: colors.primary }]}>Add</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </ThemedView>
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  input: {
+    fontSize: 20,
+    fontWeight: '600',
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  breakdown: {
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  customInput: {
+    minWidth: 80,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  plateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  plateWeight: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pairs: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: 16,
+  },
+  newPlateInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../../components/ThemedText';
+import { ThemedView } from '../../components/ThemedView';
+import Colors from '../../constants/Colors';
+import { PROGRAMS } from '../../constants/Programs';
+import { useSettings } from '../../contexts/SettingsContext';
+import {
+  Program,
+  ProgramSession,
+  deleteProgram,
+  getProgram,
+  setProgramActive,
+  setProgramSessionCompleted,
+} from '../utils/db';
+import { formatPlannedSets, getPlannedExerciseParams } from '../utils/programs';
+import { formatWeight } from '../utils/units';
+
+export default function ProgramDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [program, setProgram] = useState<Program | undefined>();
+  const [sessions, setSessions] = useState<ProgramSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadProgram = useCallback(async () => {
+    try {
+      const result = await getProgram(Number(id));
+      setProgram(result?.program);
+      setSessions(result?.sessions ?? []);
+    } catch (error) {
+      console.error('Error loading program:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  // Reload when coming back from logging a session
+  useFocusEffect(
+    useCallback(() => {
+      loadProgram();
+    }, [loadProgram])
+  );
+
+  const toggleCompleted = async (session: ProgramSession) => {
+    try {
+      await setProgramSessionCompleted(session.id!, session.completed_at ? undefined : new Date().toISOString());
+      await loadProgram();
+    } catch (error) {
+      console.error('Error updating session:', error);
+      Alert.alert('Error', 'Failed to update session');
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!program?.id) return;
+    try {
+      await setProgramActive(program.id, !program.active);
+      await loadProgram();
+    } catch (error) {
+      console.error('Error updating program:', error);
+      Alert.alert('Error', 'Failed to update program');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!program?.id) return;
+    Alert.alert('Delete Program', 'Delete this program and its schedule? Logged workouts are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteProgram(program.id!);
+            router.back();
+          } catch (error) {
+            console.error('Error deleting program:', error);
+            Alert.alert('Error', 'Failed to delete program');
+          }
+        }
+      }
+    ]);
+  };
+
+  const nextSession = sessions.find(session => !session.completed_at);
+  const weeks = [...new Set(sessions.map(session => session.week))];
+  const definition = PROGRAMS.find(item => item.id === program?.program_type);
+
+  const renderSession = (session: ProgramSession) => {
+    const isNext = session === nextSession;
+    return (
+      <View
+        key={session.id}
+        style={[styles.sessionRow, isNext && { backgroundColor: colors.primary + '10' }]}
+      >
+        <TouchableOpacity
+          onPress={() => toggleCompleted(session)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons
+            name={session.completed_at ? 'checkmark-circle' : 'ellipse-outline'}
+            size={24}
+            color={session.completed_at ? colors.primary : colors.tabIconDefault}
+          />
+        </TouchableOpacity>
+        <View style={styles.sessionInfo}>
+          <ThemedText style={styles.sessionDate}>
+            Day {session.day} · {format(new Date(`${session.scheduled_date}T00:00:00`), 'EEE, MMM d')}
+          </ThemedText>
+          {session.exercises.map(exercise => (
+            <TouchableOpacity
+              key={exercise.name}
+              style={styles.exerciseRow}
+              disabled={!!session.completed_at}
+              onPress={() => router.push({ pathname: '/add-workout', params: getPlannedExerciseParams(exercise) })}
+            >
+              <ThemedText style={[styles.exerciseText, !!session.completed_at && styles.completedText]}>
+                <ThemedText style={styles.exerciseName}>{exercise.name}</ThemedText>
+                {`  ${formatPlannedSets(exercise.sets, settings.useMetric)}`}
+              </ThemedText>
+              {!session.completed_at && (
+                <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title} numberOfLines={1}>{program?.name ?? 'Program'}</ThemedText>
+      </View>
+
+      {!isLoading && !program ? (
+        <ThemedText style={styles.emptyText}>This program no longer exists</ThemedText>
+      ) : program && (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ThemedText style={styles.meta}>
+              Started {format(new Date(`${program.start_date}T00:00:00`), 'MMM d, yyyy')} · {sessions.filter(session => session.completed_at).length} of {sessions.length} sessions done
+            </ThemedText>
+            <ThemedText style={styles.cardTitle}>{definition?.max_label ?? 'Training max'}</ThemedText>
+            {program.lifts.map(lift => (
+              <View key={lift} style={styles.maxRow}>
+                <ThemedText>{lift}</ThemedText>
+                <ThemedText style={styles.maxValue}>{formatWeight(program.training_maxes[lift], settings.useMetric)}</ThemedText>
+              </View>
+            ))}
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.actionButton} onPress={handleToggleActive}>
+                <Ionicons name={program.active ? 'pause-circle-outline' : 'play-circle-outline'} size={20} color={colors.primary} />
+                <ThemedText style={[styles.actionText, { color: colors.primary }]}>
+                  {program.active ? 'End program' : 'Make active'}
+                </ThemedText>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={handleDelete}>
+                <Ionicons name="trash-outline" size={20} color={colors.tabIconDefault} />
+                <ThemedText style={styles.actionText}>Delete</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </ThemedView>
+
+          {weeks.map(week => (
+            <ThemedView key={week} style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+              <ThemedText style={styles.cardTitle}>Week {week}</ThemedText>
+              {sessions.filter(session => session.week === week).map(renderSession)}
+            </ThemedView>
+          ))}
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  meta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginBottom: 16,
+  },
+  maxRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  maxValue: {
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    marginHorizontal: -8,
+    borderRadius: 10,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 2,
+  },
+  exerciseText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  exerciseName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  completedText: {
+    opacity: 0.5,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,198 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../../components/ThemedText';
+import { ThemedView } from '../../components/ThemedView';
+import Colors from '../../constants/Colors';
+import { PROGRAMS } from '../../constants/Programs';
+import { Program, getPrograms } from '../utils/db';
+
+export default function ProgramsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      getPrograms()
+        .then(setPrograms)
+        .catch(error => console.error('Error loading programs:', error))
+        .finally(() => setIsLoading(false));
+    }, [])
+  );
+
+  const renderProgram = (program: Program) => {
+    const definition = PROGRAMS.find(item => item.id === program.program_type);
+    const total = program.session_count ?? 0;
+    const completed = program.completed_count ?? 0;
+
+    return (
+      <TouchableOpacity
+        key={program.id}
+        activeOpacity={0.7}
+        onPress={() => router.push({ pathname: '/programs/[id]', params: { id: String(program.id) } })}
+      >
+        <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+          <View style={styles.cardHeader}>
+            <View style={styles.cardInfo}>
+              <ThemedText style={styles.programName}>{program.name}</ThemedText>
+              <ThemedText style={styles.programMeta}>
+                {definition?.name ?? program.program_type} · started {format(new Date(program.start_date), 'MMM d, yyyy')}
+              </ThemedText>
+            </View>
+            {program.active && (
+              <View style={[styles.activeBadge, { backgroundColor: colors.primary }]}>
+                <ThemedText style={styles.activeBadgeText}>Active</ThemedText>
+              </View>
+            )}
+          </View>
+          <View style={[styles.progressTrack, { backgroundColor: colors.primary + '20' }]}>
+            <View
+              style={[
+                styles.progressFill,
+                { backgroundColor: colors.primary, width: `${total > 0 ? (completed / total) * 100 : 0}%` }
+              ]}
+            />
+          </View>
+          <ThemedText style={styles.programMeta}>{completed} of {total} sessions done</ThemedText>
+        </ThemedView>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Programs</ThemedText>
+      </View>
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <TouchableOpacity
+          style={[styles.newButton, { backgroundColor: colors.primary }]}
+          onPress={() => router.push('/programs/new')}
+        >
+          <Ionicons name="add" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.newButtonText}>New Program</ThemedText>
+        </TouchableOpacity>
+
+        {!isLoading && programs.length === 0 && (
+          <ThemedText style={styles.emptyText}>
+            No programs yet. Start 5/3/1, Smolov Jr or a linear progression to get sessions planned for you.
+          </ThemedText>
+        )}
+        {programs.map(renderProgram)}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  newButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  newButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  programName: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  programMeta: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  activeBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    marginLeft: 12,
+  },
+  activeBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.7,
+    padding: 20,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,374 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Alert, KeyboardAvoidingView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { addDays, format, nextMonday } from 'date-fns';
+import { ThemedText } from '../../components/ThemedText';
+import { FloatingLabelInput } from '../../components/FloatingLabelInput';
+import Colors from '../../constants/Colors';
+import { DEFAULT_PROGRAM_INCREMENT, LINEAR_REPS, PROGRAMS, ProgramType } from '../../constants/Programs';
+import { useSettings } from '../../contexts/SettingsContext';
+import { Exercise, addProgram, getAllLogs } from '../utils/db';
+import { getExerciseDisplayName } from '../utils/exercises';
+import { getCompletedSets } from '../utils/sets';
+import { OneRepMaxFormula, estimateWeightForReps, getBestOneRepMax } from '../utils/oneRepMax';
+import { formatPlannedSets, generateProgramSessions } from '../utils/programs';
+import { roundToLoadable } from '../utils/plates';
+import { formatWeightInput, parseDecimal, toKg, weightUnit } from '../utils/units';
+
+type StartOption = 'today' | 'tomorrow' | 'monday';
+
+const START_OPTIONS: { id: StartOption; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'tomorrow', label: 'Tomorrow' },
+  { id: 'monday', label: 'Next Monday' },
+];
+
+const getStartDate = (option: StartOption): Date => {
+  const today = new Date();
+  if (option === 'tomorrow') return addDays(today, 1);
+  if (option === 'monday') return nextMonday(today);
+  return today;
+};
+
+// What to prefill from an e1RM: 5/3/1 trains off 90%, linear starts at a 5RM
+const suggestMax = (
+  programType: ProgramType,
+  e1rm: number | undefined,
+  formula: OneRepMaxFormula,
+  useMetric: boolean
+): number | undefined => {
+  if (!e1rm) return undefined;
+  switch (programType) {
+    case 'five_three_one':
+      return roundToLoadable(e1rm * 0.9, useMetric);
+    case 'smolov_jr':
+      return roundToLoadable(e1rm, useMetric);
+    case 'linear':
+      return roundToLoadable(estimateWeightForReps(e1rm, LINEAR_REPS, formula), useMetric);
+  }
+};
+
+export default function NewProgramScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const [programType, setProgramType] = useState<ProgramType>('five_three_one');
+  const [lifts, setLifts] = useState<string[]>(PROGRAMS[0].lifts);
+  // Per lift, in the display unit
+  const [maxes, setMaxes] = useState<Record<string, string>>({});
+  const [increment, setIncrement] = useState(formatWeightInput(DEFAULT_PROGRAM_INCREMENT, settings.useMetric));
+  const [startOption, setStartOption] = useState<StartOption>('today');
+  const [oneRepMaxes, setOneRepMaxes] = useState<Record<string, number>>({});
+
+  const definition = PROGRAMS.find(program => program.id === programType)!;
+  const unit = weightUnit(settings.useMetric);
+
+  // Best e1RM per lift, used to suggest training maxes
+  useEffect(() => {
+    getAllLogs()
+      .then(logs => {
+        const best: Record<string, number> = {};
+        for (const log of logs) {
+          if (log.type !== 'exercise') continue;
+          const estimate = getBestOneRepMax(getCompletedSets(log as Exercise), settings.oneRepMaxFormula);
+          const name = getExerciseDisplayName(log as Exercise);
+          if (estimate && estimate.e1rm > (best[name] ?? 0)) best[name] = estimate.e1rm;
+        }
+        setOneRepMaxes(best);
+      })
+      .catch(error => console.error('Error loading maxes:', error));
+  }, [settings.oneRepMaxFormula]);
+
+  const getSuggestedMax = (lift: string) =>
+    suggestMax(programType, oneRepMaxes[lift], settings.oneRepMaxFormula, settings.useMetric);
+
+  // Fill empty fields with suggestions whenever the program or lifts change
+  useEffect(() => {
+    setMaxes(prev => {
+      const next: Record<string, string> = {};
+      for (const lift of lifts) {
+        const suggested = suggestMax(programType, oneRepMaxes[lift], settings.oneRepMaxFormula, settings.useMetric);
+        next[lift] = prev[lift] || (suggested ? formatWeightInput(suggested, settings.useMetric) : '');
+      }
+      return next;
+    });
+  }, [programType, lifts, oneRepMaxes, settings.oneRepMaxFormula, settings.useMetric]);
+
+  const handleProgramSelect = (id: ProgramType) => {
+    const selected = PROGRAMS.find(program => program.id === id)!;
+    setProgramType(id);
+    setMaxes({});
+    setLifts(selected.lifts);
+  };
+
+  const toggleLift = (lift: string) => {
+    if (programType === 'smolov_jr') {
+      setLifts([lift]);
+    } else if (lifts.includes(lift)) {
+      if (lifts.length > 1) setLifts(lifts.filter(item => item !== lift));
+    } else {
+      setLifts([...lifts, lift]);
+    }
+  };
+
+  const trainingMaxes = useMemo(() => {
+    const result: Record<string, number> = {};
+    for (const lift of lifts) {
+      const value = parseDecimal(maxes[lift]);
+      if (!isNaN(value) && value > 0) result[lift] = toKg(value, settings.useMetric);
+    }
+    return result;
+  }, [lifts, maxes, settings.useMetric]);
+
+  const sessions = useMemo(() => generateProgramSessions({
+    definition,
+    lifts,
+    maxes: trainingMaxes,
+    increment: toKg(parseDecimal(increment) || 0, settings.useMetric),
+    startDate: getStartDate(startOption),
+    useMetric: settings.useMetric,
+  }), [definition, lifts, trainingMaxes, increment, startOption, settings.useMetric]);
+
+  const handleCreate = async () => {
+    const missing = lifts.filter(lift => !trainingMaxes[lift]);
+    if (missing.length > 0) {
+      Alert.alert('Error', `Please enter a weight for ${missing.join(', ')}`);
+      return;
+    }
+
+    try {
+      const startDate = getStartDate(startOption);
+      const id = await addProgram({
+        program_type: programType,
+        name: definition.name,
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        lifts,
+        training_maxes: trainingMaxes,
+        increment: toKg(parseDecimal(increment) || 0, settings.useMetric),
+        active: true,
+      }, sessions);
+      router.replace({ pathname: '/programs/[id]', params: { id: String(id) } });
+    } catch (error) {
+      console.error('Error creating program:', error);
+      Alert.alert('Error', 'Failed to create program');
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: { id: T; label: string }[],
+    isSelected: (id: T) => boolean,
+    onPress: (id: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.id}
+          style={[styles.chip, isSelected(option.id) && { backgroundColor: colors.primary }]}
+          onPress={() => onPress(option.id)}
+        >
+          <ThemedText style={[styles.chipText, isSelected(option.id) && { color: '#FFFFFF' }]}>
+            {option.label}
+          </ThemedText>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const firstWeek = sessions.filter(session => session.week === 1);
+
+  return (
+    <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={28} color={colors.primary} />
+          </TouchableOpacity>
+          <ThemedText style={styles.title}>New Program</ThemedText>
+          <TouchableOpacity onPress={handleCreate}>
+            <ThemedText style={[styles.saveButton, { color: colors.primary }]}>Start</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Program</ThemedText>
+            {renderChips(
+              PROGRAMS.map(program => ({ id: program.id, label: program.name })),
+              id => id === programType,
+              handleProgramSelect
+            )}
+            <ThemedText style={styles.description}>{definition.description}</ThemedText>
+            <ThemedText style={styles.description}>
+              {definition.weeks} weeks · {definition.day_offsets.length} sessions a week
+            </ThemedText>
+          </View>
+
+          {definition.lift_options && (
+            <View style={styles.section}>
+              <ThemedText style={styles.label}>{programType === 'smolov_jr' ? 'Lift' : 'Lifts'}</ThemedText>
+              {renderChips(
+                definition.lift_options.map(lift => ({ id: lift, label: lift })),
+                lift => lifts.includes(lift),
+                toggleLift
+              )}
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>{definition.max_label} ({unit})</ThemedText>
+            {lifts.map(lift => {
+              const suggested = getSuggestedMax(lift);
+              return (
+                <View key={lift} style={styles.maxRow}>
+                  <FloatingLabelInput
+                    label={lift}
+                    style={[styles.input, { color: colors.text }]}
+                    value={maxes[lift] || ''}
+                    onChangeText={text => setMaxes(prev => ({ ...prev, [lift]: text }))}
+                    keyboardType="decimal-pad"
+                    placeholderTextColor={colors.tabIconDefault}
+                  />
+                  {suggested !== undefined && (
+                    <ThemedText style={styles.hint}>
+                      Suggested from your e1RM: {formatWeightInput(suggested, settings.useMetric)} {unit}
+                    </ThemedText>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+
+          {programType !== 'five_three_one' && (
+            <View style={styles.section}>
+              <FloatingLabelInput
+                label={`Increase per ${programType === 'linear' ? 'session' : 'week'} (${unit})`}
+                style={[styles.input, { color: colors.text }]}
+                value={increment}
+                onChangeText={setIncrement}
+                keyboardType="decimal-pad"
+                placeholderTextColor={colors.tabIconDefault}
+              />
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Start</ThemedText>
+            {renderChips(START_OPTIONS, id => id === startOption, setStartOption)}
+          </View>
+
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Week 1</ThemedText>
+            {firstWeek.map(session => (
+              <View key={session.day} style={styles.previewRow}>
+                <ThemedText style={styles.previewDay}>
+                  {format(new Date(`${session.scheduled_date}T00:00:00`), 'EEE, MMM d')}
+                </ThemedText>
+                {session.exercises.map(exercise => (
+                  <ThemedText key={exercise.name} style={styles.previewSets}>
+                    {exercise.name}: {formatPlannedSets(exercise.sets, settings.useMetric)}
+                  </ThemedText>
+                ))}
+              </View>
+            ))}
+          </View>
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </SafeAreaView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    fontSize: 17,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+  },
+  section: {
+    paddingHorizontal: 20,
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 15,
+    marginBottom: 12,
+    fontWeight: '500',
+    opacity: 0.8,
+    letterSpacing: 0.3,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  maxRow: {
+    marginBottom: 12,
+  },
+  input: {
+    fontSize: 17,
+    padding: 0,
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  previewRow: {
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  previewDay: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  previewSets: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  bottomSpacer: {
+    height: 60,
+  },
+});
@@ -0,0 +1,506 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, TextInput, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import { ExerciseAutocomplete } from '../components/ExerciseAutocomplete';
+import Colors from '../constants/Colors';
+import { useSettings } from '../contexts/SettingsContext';
+import { useRestTimer } from '../contexts/RestTimerContext';
+import {
+  CatalogExercise,
+  Exercise,
+  SessionExercise,
+  WorkoutSession,
+  discardSession,
+  finishSession,
+  getExerciseCatalog,
+  startSession,
+  updateSession,
+} from './utils/db';
+import { findCatalogMatch } from './utils/exercises';
+import { getRestDuration } from './utils/restTimer';
+import { formatWeightInput, parseDecimal, toKg, weightUnit } from './utils/units';
+import { formatClock } from './utils/wodResults';
+
+// Sets as typed, in the display unit, so half-entered values like "102." survive
+type SetDraft = {
+  weight: string;
+  reps: string;
+  done: boolean;
+};
+
+type ExerciseDraft = Omit<SessionExercise, 'sets'> & { sets: SetDraft[] };
+
+const EMPTY_SET: SetDraft = { weight: '', reps: '', done: false };
+
+const toDrafts = (exercises: SessionExercise[], useMetric: boolean): ExerciseDraft[] =>
+  exercises.map(exercise => ({
+    ...exercise,
+    sets: exercise.sets.map(set => ({
+      weight: formatWeightInput(set.weight, useMetric),
+      reps: set.reps !== undefined ? String(set.reps) : '',
+      done: set.done,
+    })),
+  }));
+
+const fromDrafts = (drafts: ExerciseDraft[], useMetric: boolean): SessionExercise[] =>
+  drafts.map(draft => ({
+    ...draft,
+    sets: draft.sets.map((set, index) => {
+      const weight = parseDecimal(set.weight);
+      const reps = parseInt(set.reps);
+      return {
+        set_index: index,
+        weight: isNaN(weight) ? undefined : toKg(weight, useMetric),
+        reps: isNaN(reps) ? undefined : reps,
+        done: set.done,
+      };
+    }),
+  }));
+
+// "1:02:05" once past an hour
+const formatElapsed = (seconds: number) =>
+  seconds >= 3600
+    ? `${Math.floor(seconds / 3600)}:${formatClock(seconds % 3600).padStart(5, '0')}`
+    : formatClock(seconds);
+
+export default function SessionScreen() {
+  // Planned exercises (SessionExercise[] as JSON) to start a new session with
+  const params = useLocalSearchParams<{ name?: string; exercises?: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const { startRestTimer } = useRestTimer();
+  const [session, setSession] = useState<WorkoutSession | undefined>();
+  const [name, setName] = useState('');
+  const [drafts, setDrafts] = useState<ExerciseDraft[]>([]);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [newExercise, setNewExercise] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [isSaving, setIsSaving] = useState(false);
+  // Skips the save that would otherwise echo the initial load back
+  const isLoaded = useRef(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const planned: SessionExercise[] = params.exercises ? JSON.parse(params.exercises) : [];
+        const active = await startSession(params.name || `${format(new Date(), 'EEEE')} Workout`, planned);
+        setSession(active);
+        setName(active.name);
+        setDrafts(toDrafts(active.exercises, settings.useMetric));
+        setCatalog(await getExerciseCatalog());
+      } catch (error) {
+        console.error('Error loading session:', error);
+        Alert.alert('Error', 'Failed to start workout');
+      }
+    };
+    load();
+  }, [params.name, params.exercises, settings.useMetric]);
+
+  // Persist every change so the session survives the app being killed
+  useEffect(() => {
+    if (!session?.id) return;
+    if (!isLoaded.current) {
+      isLoaded.current = true;
+      return;
+    }
+    updateSession({ ...session, name, exercises: fromDrafts(drafts, settings.useMetric) })
+      .catch(error => console.error('Error saving session:', error));
+  }, [session, name, drafts, settings.useMetric]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const elapsed = session ? Math.max(0, Math.floor((now - new Date(session.started_at).getTime()) / 1000)) : 0;
+  const doneCount = drafts.reduce((total, draft) => total + draft.sets.filter(set => set.done).length, 0);
+  const pendingCount = drafts.reduce((total, draft) => total + draft.sets.filter(set => !set.done).length, 0);
+
+  // Built from the latest state, so quick edits in a row don't overwrite each other
+  const updateSets = (exerciseIndex: number, update: (sets: SetDraft[]) => SetDraft[]) =>
+    setDrafts(prev => prev.map((draft, i) => (i === exerciseIndex ? { ...draft, sets: update(draft.sets) } : draft)));
+
+  const updateSet = (exerciseIndex: number, setIndex: number, changes: Partial<SetDraft>) =>
+    updateSets(exerciseIndex, sets => sets.map((set, i) => (i === setIndex ? { ...set, ...changes } : set)));
+
+  const toggleSet = (exerciseIndex: number, setIndex: number) => {
+    const draft = drafts[exerciseIndex];
+    const done = !draft.sets[setIndex].done;
+    updateSet(exerciseIndex, setIndex, { done });
+    if (done && settings.showRestTimer) {
+      startRestTimer(draft.name, getRestDuration(settings.restDurations, settings.defaultRestSeconds, draft.name));
+    }
+  };
+
+  // New sets repeat the last one's numbers, not yet ticked
+  const addSet = (exerciseIndex: number) =>
+    updateSets(exerciseIndex, sets => {
+      const last = sets[sets.length - 1];
+      return [...sets, last ? { ...last, done: false } : EMPTY_SET];
+    });
+
+  const removeSet = (exerciseIndex: number, setIndex: number) =>
+    updateSets(exerciseIndex, sets => sets.filter((_, i) => i !== setIndex));
+
+  const addExercise = (catalogExercise?: CatalogExercise) => {
+    const match = catalogExercise ?? findCatalogMatch(catalog, newExercise);
+    const exerciseName = match?.name ?? newExercise.trim();
+    if (!exerciseName) return;
+    // Sessions track sets, so anything not reps-only gets weight and reps columns
+    const measurementType: Exercise['measurement_type'] =
+      match?.measurement_type === 'reps_only' ? 'reps_only' : 'weight_reps';
+    setDrafts(prev => [
+      ...prev,
+      { name: exerciseName, exercise_id: match?.id, measurement_type: measurementType, sets: [EMPTY_SET] },
+    ]);
+    setNewExercise('');
+  };
+
+  const removeExercise = (index: number) => {
+    Alert.alert('Remove Exercise', `Remove ${drafts[index].name} from this workout?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => setDrafts(prev => prev.filter((_, i) => i !== index)) },
+    ]);
+  };
+
+  const handleFinish = () => {
+    if (!session?.id) return;
+    if (doneCount === 0) {
+      Alert.alert('Nothing to log', 'Tick off at least one set, or discard the workout.');
+      return;
+    }
+
+    const finish = async () => {
+      setIsSaving(true);
+      try {
+        await finishSession({ ...session, name: name.trim() || session.name, exercises: fromDrafts(drafts, settings.useMetric) });
+        router.back();
+      } catch (error) {
+        console.error('Error finishing session:', error);
+        Alert.alert('Error', 'Failed to save workout');
+        setIsSaving(false);
+      }
+    };
+
+    if (pendingCount > 0) {
+      Alert.alert(
+        'Finish Workout',
+        `${pendingCount} ${pendingCount === 1 ? 'set is' : 'sets are'} not ticked and won't be logged.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Finish', onPress: finish },
+        ]
+      );
+    } else {
+      finish();
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!session?.id) return;
+    Alert.alert('Discard Workout', 'Discard this workout? Nothing from it will be logged.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await discardSession(session.id!);
+            router.back();
+          } catch (error) {
+            console.error('Error discarding session:', error);
+            Alert.alert('Error', 'Failed to discard workout');
+          }
+        }
+      }
+    ]);
+  };
+
+  const renderExercise = (draft: ExerciseDraft, exerciseIndex: number) => {
+    const showWeight = draft.measurement_type === 'weight_reps';
+    return (
+      <ThemedView key={exerciseIndex} style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <View style={styles.exerciseHeader}>
+          <ThemedText style={styles.cardTitle}>{draft.name}</ThemedText>
+          <TouchableOpacity onPress={() => removeExercise(exerciseIndex)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Ionicons name="close" size={20} color={colors.tabIconDefault} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.setRow}>
+          <ThemedText style={[styles.setHeaderText, styles.setIndexColumn]}>Set</ThemedText>
+          {showWeight && (
+            <ThemedText style={[styles.setHeaderText, styles.setInputColumn]}>{weightUnit(settings.useMetric)}</ThemedText>
+          )}
+          <ThemedText style={[styles.setHeaderText, styles.setInputColumn]}>Reps</ThemedText>
+          <View style={styles.setActionColumn} />
+          <View style={styles.setActionColumn} />
+        </View>
+
+        {draft.sets.map((set, setIndex) => (
+          <View key={setIndex} style={[styles.setRow, set.done && { backgroundColor: colors.primary + '15' }]}>
+            <ThemedText style={[styles.setIndexText, styles.setIndexColumn]}>{setIndex + 1}</ThemedText>
+            {showWeight && (
+              <TextInput
+                style={[styles.setInput, styles.setInputColumn, { color: colors.text }]}
+                placeholder="0"
+                placeholderTextColor={colors.tabIconDefault}
+                value={set.weight}
+                onChangeText={weight => updateSet(exerciseIndex, setIndex, { weight })}
+                keyboardType="decimal-pad"
+              />
+            )}
+            <TextInput
+              style={[styles.setInput, styles.setInputColumn, { color: colors.text }]}
+              placeholder="0"
+              placeholderTextColor={colors.tabIconDefault}
+              value={set.reps}
+              onChangeText={reps => updateSet(exerciseIndex, setIndex, { reps })}
+              keyboardType="number-pad"
+            />
+            <TouchableOpacity
+              style={styles.setActionColumn}
+              onPress={() => toggleSet(exerciseIndex, setIndex)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons
+                name={set.done ? 'checkmark-circle' : 'ellipse-outline'}
+                size={26}
+                color={set.done ? colors.primary : colors.tabIconDefault}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.setActionColumn}
+              onPress={() => removeSet(exerciseIndex, setIndex)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Ionicons name="close" size={18} color={colors.tabIconDefault} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.addSetButton} onPress={() => addSet(exerciseIndex)}>
+          <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+          <ThemedText style={[styles.addSetText, { color: colors.primary }]}>Add Set</ThemedText>
+        </TouchableOpacity>
+      </ThemedView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Workout</ThemedText>
+        <ThemedText style={[styles.elapsed, { color: colors.primary }]}>{formatElapsed(elapsed)}</ThemedText>
+      </View>
+
+      {session && (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.summary}>
+            <TextInput
+              style={[styles.nameInput, { color: colors.text }]}
+              value={name}
+              onChangeText={setName}
+              placeholder="Workout name"
+              placeholderTextColor={colors.tabIconDefault}
+            />
+            <ThemedText style={styles.meta}>
+              Started {format(new Date(session.started_at), 'h:mm a')} · {doneCount} {doneCount === 1 ? 'set' : 'sets'} done
+            </ThemedText>
+          </View>
+
+          {drafts.map(renderExercise)}
+
+          <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+            <ExerciseAutocomplete
+              label="Add exercise"
+              value={newExercise}
+              catalog={catalog}
+              onChangeText={setNewExercise}
+              onSelect={addExercise}
+              style={[styles.exerciseInput, { color: colors.text }]}
+            />
+            <TouchableOpacity style={styles.addSetButton} onPress={() => addExercise()} disabled={!newExercise.trim()}>
+              <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+              <ThemedText style={[styles.addSetText, { color: colors.primary }, !newExercise.trim() && styles.disabled]}>
+                Add Exercise
+              </ThemedText>
+            </TouchableOpacity>
+          </ThemedView>
+
+          <TouchableOpacity
+            style={[styles.finishButton, { backgroundColor: colors.primary }, isSaving && styles.disabled]}
+            onPress={handleFinish}
+            disabled={isSaving}
+          >
+            <Ionicons name="flag" size={20} color="#FFFFFF" />
+            <ThemedText style={styles.finishButtonText}>Finish Workout</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.discardButton} onPress={handleDiscard}>
+            <ThemedText style={styles.discardText}>Discard</ThemedText>
+          </TouchableOpacity>
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  elapsed: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginRight: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  summary: {
+    paddingHorizontal: 20,
+    marginBottom: 16,
+  },
+  nameInput: {
+    fontSize: 20,
+    fontWeight: '600',
+    paddingVertical: 4,
+  },
+  meta: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 4,
+    marginHorizontal: -4,
+    borderRadius: 8,
+  },
+  setHeaderText: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+  setIndexColumn: {
+    width: 32,
+  },
+  setInputColumn: {
+    flex: 1,
+  },
+  setActionColumn: {
+    width: 32,
+    alignItems: 'center',
+  },
+  setIndexText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  setInput: {
+    fontSize: 17,
+    textAlign: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  addSetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 6,
+  },
+  addSetText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  exerciseInput: {
+    fontSize: 16,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  finishButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  finishButtonText: {
+    color: '#FFFFFF',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  discardButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  discardText: {
+    fontSize: 16,
+    color: '#ff4444',
+  },
+  bottomSpacer: {
+    height: 140,
+  },
+});
@@ -0,0 +1,123 @@
+import type { ComponentProps } from 'react';
+import type { Ionicons } from '@expo/vector-icons';
+import type { Exercise, WorkoutLog } from './db';
+import { compareLogs, getLogDay, parseDayKey } from './dates';
+import { getExerciseDisplayName, normalizeExerciseName } from './exercises';
+import { getCompletedSets } from './sets';
+import { StreakRules, getLongestStreak, getRunningStreaks, getTrainingDays } from './streaks';
+import { fromKg, weightUnit } from './units';
+
+// Training days, not entries, so a session of five exercises counts once
+export const WORKOUT_MILESTONES = [1, 10, 25, 50, 100, 250, 500, 1000];
+export const STREAK_MILESTONES = [7, 14, 30, 60, 100, 365];
+// The bar plus one to five pairs of the biggest plates
+export const LIFT_MILESTONES = {
+  kg: [60, 100, 140, 180, 220],
+  lb: [135, 225, 315, 405, 495],
+};
+
+export type Achievement = {
+  // Stable per milestone, so a save can tell which ones it just unlocked
+  id: string;
+  title: string;
+  description: string;
+  icon: ComponentProps<typeof Ionicons>['name'];
+  date: Date;
+};
+
+const getWorkoutAchievements = (days: string[]): Achievement[] =>
+  WORKOUT_MILESTONES
+    .filter(count => days.length >= count)
+    .map(count => ({
+      id: `workouts-${count}`,
+      title: count === 1 ? 'First Workout' : `${count} Workouts`,
+      description: count === 1 ? 'Logged your first training day' : `Trained on ${count} different days`,
+      icon: 'fitness',
+      date: parseDayKey(days[count - 1]),
+    }));
+
+const getStreakAchievements = (logs: WorkoutLog[], rules: StreakRules): Achievement[] => {
+  const runs = getRunningStreaks(getTrainingDays(logs), rules);
+  return STREAK_MILESTONES.flatMap(length => {
+    const run = runs.find(item => item.streak === length);
+    if (!run) return [];
+    return [{
+      id: `streak-${length}`,
+      title: `${length}-Day Streak`,
+      description: `Trained ${length} days in a row, not counting planned rest days`,
+      icon: 'flame' as const,
+      date: parseDayKey(run.day),
+    }];
+  });
+};
+
+// The first set at each milestone weight per lift, in the user's unit
+const getLiftAchievements = (logs: WorkoutLog[], useMetric: boolean): Achievement[] => {
+  const unit = weightUnit(useMetric);
+  const milestones = LIFT_MILESTONES[unit];
+  const reached = new Map<string, Achievement>();
+
+  const entries = logs
+    .filter((log): log is Exercise => log.type === 'exercise' && log.measurement_type === 'weight_reps')
+    .sort(compareLogs);
+
+  for (const entry of entries) {
+    const name = getExerciseDisplayName(entry);
+    const heaviest = getCompletedSets(entry)
+      .filter(set => (set.reps ?? 0) > 0)
+      .reduce((best, set) => Math.max(best, set.weight ?? 0), 0);
+    // Rounded so 225lb stored as 102.06kg still reads as 225
+    const weight = Math.round(fromKg(heaviest, useMetric) * 10) / 10;
+
+    // Catalog id where linked, so differently spelled entries share a milestone
+    const key = entry.exercise_id ? String(entry.exercise_id) : normalizeExerciseName(name) || name;
+
+    for (const milestone of milestones) {
+      const id = `lift-${key}-${milestone}${unit}`;
+      if (weight < milestone || reached.has(id)) continue;
+      reached.set(id, {
+        id,
+        title: `First ${milestone}${unit} ${name}`,
+        description: `Completed a set at ${milestone}${unit} or more`,
+        icon: 'barbell',
+        date: parseDayKey(getLogDay(entry)),
+      });
+    }
+  }
+
+  return [...reached.values()];
+};
+
+// Everything unlocked so far, newest first
+export const getAchievements = (logs: WorkoutLog[], rules: StreakRules, useMetric: boolean): Achievement[] => {
+  const days = [...getTrainingDays(logs)].sort();
+  return [
+    ...getWorkoutAchievements(days),
+    ...getStreakAchievements(logs, rules),
+    ...getLiftAchievements(logs, useMetric),
+  ].sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+// Achievements `after` has that `before` didn't, e.g. across saving a workout
+export const getNewAchievements = (before: Achievement[], after: Achievement[]): Achievement[] => {
+  const unlocked = new Set(before.map(achievement => achievement.id));
+  return after.filter(achievement => !unlocked.has(achievement.id));
+};
+
+export type NextMilestone = {
+  title: string;
+  current: number;
+  target: number;
+};
+
+// The next workout and streak milestones still to unlock
+export const getNextMilestones = (logs: WorkoutLog[], rules: StreakRules): NextMilestone[] => {
+  const days = getTrainingDays(logs);
+  const longest = getLongestStreak(days, rules);
+  const nextWorkouts = WORKOUT_MILESTONES.find(count => count > days.size);
+  const nextStreak = STREAK_MILESTONES.find(length => length > longest);
+  return [
+    ...(nextWorkouts ? [{ title: nextWorkouts === 1 ? 'First Workout' : `${nextWorkouts} Workouts`, current: days.size, target: nextWorkouts }] : []),
+    ...(nextStreak ? [{ title: `${nextStreak}-Day Streak`, current: longest, target: nextStreak }] : []),
+  ];
+};
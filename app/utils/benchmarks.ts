@@ -0,0 +1,73 @@
+import { BENCHMARKS, Benchmark } from '../../constants/Benchmarks';
+import type { WOD } from './db';
+import { normalizeExerciseName } from './exercises';
+import { compareWodAttempts, isRxScaling } from './wodResults';
+import { compareLogs } from './dates';
+
+export const findBenchmark = (id: string | undefined): Benchmark | undefined =>
+  id ? BENCHMARKS.find(benchmark => benchmark.id === id) : undefined;
+
+// "fran", "FRAN" and "Open 20.1" / "20.1" all resolve to their benchmark
+export const findBenchmarkByName = (name: string): Benchmark | undefined => {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return undefined;
+  return BENCHMARKS.find(benchmark => {
+    const benchmarkName = normalizeExerciseName(benchmark.name);
+    return benchmarkName === normalized ||
+      (benchmark.category === 'Open' && benchmarkName === `open${normalized}`);
+  });
+};
+
+// Description prefilled when a benchmark is picked: the workout plus its Rx loads
+export const getBenchmarkDescription = (benchmark: Benchmark): string => {
+  if (!benchmark.rx_weights?.length) return benchmark.description;
+  return `${benchmark.description}\n\nRx: ${benchmark.rx_weights.join(', ')}`;
+};
+
+export type BenchmarkHistory = {
+  benchmark: Benchmark;
+  // Newest first
+  attempts: WOD[];
+  // Overall PR, which is always an Rx attempt when there is one
+  best?: WOD;
+  bestRx?: WOD;
+  bestScaled?: WOD;
+};
+
+const getBestAttempt = (attempts: WOD[], scoreType: Benchmark['score_type']): WOD | undefined => {
+  return attempts
+    .filter(attempt => attempt.score?.type === scoreType)
+    .reduce<WOD | undefined>(
+      (best, attempt) => (!best || compareWodAttempts(attempt, best) < 0 ? attempt : best),
+      undefined
+    );
+};
+
+/**
+ * Logged attempts grouped per benchmark, with separate Rx (Rx and Rx+) and
+ * scaled (Scaled, Custom, or no flag) leaderboards.
+ */
+export const getBenchmarkHistory = (wods: WOD[]): BenchmarkHistory[] => {
+  const attemptsById = new Map<string, WOD[]>();
+  for (const wod of wods) {
+    if (!wod.benchmark_id) continue;
+    const attempts = attemptsById.get(wod.benchmark_id) || [];
+    attempts.push(wod);
+    attemptsById.set(wod.benchmark_id, attempts);
+  }
+
+  return BENCHMARKS
+    .filter(benchmark => attemptsById.has(benchmark.id))
+    .map(benchmark => {
+      const attempts = (attemptsById.get(benchmark.id) || [])
+        .sort((a, b) => compareLogs(b, a));
+      return {
+        benchmark,
+        attempts,
+        best: getBestAttempt(attempts, benchmark.score_type),
+        bestRx: getBestAttempt(attempts.filter(attempt => isRxScaling(attempt.scaling)), benchmark.score_type),
+        bestScaled: getBestAttempt(attempts.filter(attempt => !isRxScaling(attempt.scaling)), benchmark.score_type),
+      };
+    })
+    .sort((a, b) => compareLogs(b.attempts[0], a.attempts[0]));
+};
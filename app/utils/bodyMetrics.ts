@@ -0,0 +1,67 @@
+import { subDays } from 'date-fns';
+import type { BodyMetric } from './db';
+import { BODY_METRICS, BodyMetricKey } from '../../constants/BodyMetrics';
+import { parseDayKey } from './dates';
+import { fromCm, fromKg, lengthUnit, weightUnit } from './units';
+
+// Daily weigh-ins swing with water and food; a week smooths most of that out
+export const MOVING_AVERAGE_DAYS = 7;
+
+export type MetricPoint = {
+  date: Date;
+  value: number;
+};
+
+// kg, %, or cm depending on the metric
+export const getMetricValue = (entry: BodyMetric, key: BodyMetricKey): number | undefined => {
+  if (key === 'weight') return entry.weight;
+  if (key === 'body_fat') return entry.body_fat;
+  return entry.measurements[key];
+};
+
+// Entries that recorded the metric, oldest first
+export const getMetricSeries = (entries: BodyMetric[], key: BodyMetricKey): MetricPoint[] =>
+  entries
+    .map(entry => ({ date: parseDayKey(entry.date), value: getMetricValue(entry, key) }))
+    .filter((point): point is MetricPoint => point.value !== undefined)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+// Metrics with at least one entry, in form order
+export const getTrackedMetrics = (entries: BodyMetric[]): BodyMetricKey[] =>
+  BODY_METRICS
+    .map(metric => metric.id)
+    .filter(key => entries.some(entry => getMetricValue(entry, key) !== undefined));
+
+/**
+ * Trailing average over the `days` calendar days up to each point, so gaps
+ * between check-ins don't pull in stale values the way a fixed count would.
+ */
+export const getMovingAverage = (points: MetricPoint[], days: number = MOVING_AVERAGE_DAYS): MetricPoint[] =>
+  points.map(point => {
+    const since = subDays(point.date, days - 1);
+    const window = points.filter(other => other.date >= since && other.date <= point.date);
+    const value = window.reduce((total, other) => total + other.value, 0) / window.length;
+    return { date: point.date, value: Math.round(value * 100) / 100 };
+  });
+
+// kg, from the most recent entry that has one
+export const getLatestBodyweight = (entries: BodyMetric[]): number | undefined => {
+  const series = getMetricSeries(entries, 'weight');
+  return series[series.length - 1]?.value;
+};
+
+// A lift as a multiple of bodyweight, e.g. 1.75 for a 140kg squat at 80kg
+export const getRelativeStrength = (liftKg: number, bodyweightKg: number): number =>
+  Math.round((liftKg / bodyweightKg) * 100) / 100;
+
+// A stored value in the display unit, rounded to one decimal
+export const toDisplayValue = (key: BodyMetricKey, value: number, useMetric: boolean): number => {
+  const converted = key === 'weight' ? fromKg(value, useMetric) : key === 'body_fat' ? value : fromCm(value, useMetric);
+  return Math.round(converted * 10) / 10;
+};
+
+export const getMetricUnit = (key: BodyMetricKey, useMetric: boolean): string =>
+  key === 'weight' ? weightUnit(useMetric) : key === 'body_fat' ? '%' : lengthUnit(useMetric);
+
+export const formatMetricValue = (key: BodyMetricKey, value: number, useMetric: boolean): string =>
+  `${toDisplayValue(key, value, useMetric)}${getMetricUnit(key, useMetric)}`;
@@ -0,0 +1,62 @@
+import { addDays, endOfMonth, endOfYear, startOfMonth, startOfWeek, startOfYear } from 'date-fns';
+import type { WorkoutLog } from './db';
+import { getSessionVolume } from './sets';
+import { getLogDate, getLogDay } from './dates';
+
+export type CalendarMetric = 'workouts' | 'volume';
+
+// Shades above empty, like GitHub's contribution graph
+export const HEAT_LEVELS = 4;
+
+export type DayTotals = {
+  workouts: number;
+  // kg
+  volume: number;
+};
+
+export const getDailyTotals = (logs: WorkoutLog[]): Map<string, DayTotals> => {
+  const totals = new Map<string, DayTotals>();
+  for (const log of logs) {
+    const key = getLogDay(log);
+    const day = totals.get(key) ?? { workouts: 0, volume: 0 };
+    day.workouts += 1;
+    if (log.type === 'exercise' && log.measurement_type === 'weight_reps') {
+      day.volume += getSessionVolume(log);
+    }
+    totals.set(key, day);
+  }
+  return totals;
+};
+
+// 0 for rest days, otherwise 1..HEAT_LEVELS relative to the busiest day shown
+export const getHeatLevel = (value: number, max: number): number => {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.min(HEAT_LEVELS, Math.max(1, Math.ceil((value / max) * HEAT_LEVELS)));
+};
+
+/**
+ * Monday-first weeks covering `start`..`end`. Days outside the range are null
+ * so every week has seven slots.
+ */
+export const getCalendarWeeks = (start: Date, end: Date): (Date | null)[][] => {
+  const weeks: (Date | null)[][] = [];
+  for (let weekStart = startOfWeek(start, { weekStartsOn: 1 }); weekStart <= end; weekStart = addDays(weekStart, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, index) => {
+      const day = addDays(weekStart, index);
+      return day >= start && day <= end ? day : null;
+    }));
+  }
+  return weeks;
+};
+
+export const getYearWeeks = (year: number) => {
+  const date = new Date(year, 0, 1);
+  return getCalendarWeeks(startOfYear(date), endOfYear(date));
+};
+
+export const getMonthWeeks = (month: Date) => getCalendarWeeks(startOfMonth(month), endOfMonth(month));
+
+export const getFirstLogDate = (logs: WorkoutLog[]): Date | undefined => {
+  if (logs.length === 0) return undefined;
+  return new Date(Math.min(...logs.map(log => getLogDate(log).getTime())));
+};
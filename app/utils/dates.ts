@@ -0,0 +1,69 @@
+import { format } from 'date-fns';
+
+// Workouts store `date` as an ISO instant plus the calendar day they were
+// logged on (`local_date`), the local start time and the zone offset. Anything
+// that groups or labels by day reads the local date, so a late-evening or
+// travel workout stays on the day it happened.
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type DatedLog = {
+  date: string;
+  local_date?: string;
+};
+
+export type LocalDateFields = {
+  // yyyy-MM-dd
+  local_date: string;
+  // HH:mm
+  start_time?: string;
+  // Minutes east of UTC
+  tz_offset?: number;
+};
+
+export const getDayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Local midnight of a yyyy-MM-dd day; new Date('yyyy-MM-dd') would be UTC
+export const parseDayKey = (day: string) => new Date(`${day}T00:00:00`);
+
+// A picker value for a stored local day and time; noon when the time is unknown
+export const toLocalDateTime = (day: string, time?: string) => new Date(`${day}T${time || '12:00'}:00`);
+
+export const getLocalDateFields = (date: Date): LocalDateFields => ({
+  local_date: getDayKey(date),
+  start_time: format(date, 'HH:mm'),
+  tz_offset: -date.getTimezoneOffset(),
+});
+
+/**
+ * Local date fields for a stored `date` with none of its own. Bare days are
+ * taken as-is, and UTC midnights are what the web date input used to save for
+ * a picked day, so they keep that day rather than shifting west of UTC.
+ */
+export const inferLocalDateFields = (date: string): LocalDateFields => {
+  if (DAY_KEY_PATTERN.test(date)) return { local_date: date };
+  if (/T00:00:00(\.000)?Z$/.test(date)) return { local_date: date.slice(0, 10) };
+  return getLocalDateFields(new Date(date));
+};
+
+// The calendar day a workout counts toward
+export const getLogDay = (log: DatedLog): string => log.local_date || inferLocalDateFields(log.date).local_date;
+
+// Local midnight of that day, for date math and chart labels
+export const getLogDate = (log: DatedLog): Date => parseDayKey(getLogDay(log));
+
+// add-workout route params that carry a logged entry's date into edit mode
+export const getDateParams = (log: DatedLog & { start_time?: string; tz_offset?: number }): Record<string, string> => ({
+  date: log.date,
+  local_date: log.local_date || '',
+  start_time: log.start_time || '',
+  tz_offset: log.tz_offset !== undefined ? String(log.tz_offset) : '',
+});
+
+// Oldest first: by day, then by the instant within a day
+export const compareLogs = (a: DatedLog, b: DatedLog): number => {
+  const dayA = getLogDay(a);
+  const dayB = getLogDay(b);
+  if (dayA !== dayB) return dayA < dayB ? -1 : 1;
+  return new Date(a.date).getTime() - new Date(b.date).getTime();
+};
@@ -1,13 +1,33 @@
 import * as SQLite from 'expo-sqlite';
 import { Platform } from 'react-native';
+import { ExerciseCategory, MuscleGroup } from '../../constants/Exercises';
+import { ProgramType } from '../../constants/Programs';
+import { GoalPeriod, GoalType } from '../../constants/Goals';
+import { MeasurementSite } from '../../constants/BodyMetrics';
+import { findCatalogMatch } from './exercises';
+import { isSessionLogged } from './programs';
+import { getTopSet, usesSets } from './sets';
+import { LocalDateFields, getLogDay, inferLocalDateFields } from './dates';
+import { LATEST_SCHEMA_VERSION, getColumnNames, getSchemaVersion, runMigrations, tableExists } from './migrations';
+
+// Tables included in backups, parents before children so restores satisfy foreign keys
+const BACKUP_TABLES = ['exercises', 'workout_sessions', 'workouts', 'sets', 'templates', 'programs', 'program_sessions', 'goals', 'body_metrics'];
+
+type BackupFile = {
+  version: number;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+};
 
 let dbInstance: SQLite.SQLiteDatabase | null = null;
+let dbReady: Promise<SQLite.SQLiteDatabase> | null = null;
 
-const getDb = async () => {
+const openDatabase = async () => {
   if (!dbInstance) {
     console.log('Opening database...');
     try {
       dbInstance = await SQLite.openDatabaseAsync('workouts.db');
+      await dbInstance.execAsync('PRAGMA foreign_keys = ON');
       console.log('Database opened successfully');
     } catch (error) {
       console.error('Error opening database:', error);
@@ -17,295 +37,145 @@ const getDb = async () => {
   return dbInstance;
 };
 
-export const backupDatabase = async (): Promise<string> => {
-  try {
-    console.log('Creating database backup...');
-    const db = await getDb();
-    if (!db) throw new Error('Database not initialized');
+const prepareDatabase = async (db: SQLite.SQLiteDatabase) => {
+  const version = await getSchemaVersion(db);
+  if (Platform.OS !== 'web' && version < LATEST_SCHEMA_VERSION && await tableExists(db, 'workouts')) {
+    // Keep a copy of the pre-migration data around in case a step misbehaves
+    try {
+      await writeBackup(db);
+    } catch (error) {
+      console.error('Error creating pre-migration backup:', error);
+    }
+  }
+  await runMigrations(db);
+  return db;
+};
 
-    // Get all data
-    const data = await db.getAllAsync('SELECT * FROM workouts');
-    
-    // Create backup in app documents
-    const FileSystem = require('expo-file-system');
-    const backupFileName = `workouts_backup_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
-    const backupPath = `${FileSystem.documentDirectory}${backupFileName}`;
-    
-    await FileSystem.writeAsStringAsync(backupPath, JSON.stringify(data));
-    console.log('Backup created successfully at:', backupPath);
-    
-    return backupPath;
-  } catch (error) {
-    console.error('Error creating backup:', error);
-    throw error;
+// Every query goes through here, so no screen can read the database before
+// pending migrations have been applied.
+const getDb = async () => {
+  if (!dbReady) {
+    dbReady = openDatabase().then(prepareDatabase);
+    dbReady.catch(() => {
+      dbReady = null;
+    });
   }
+  return dbReady;
 };
 
-export const restoreFromBackup = async (backupPath: string): Promise<void> => {
-  try {
-    console.log('Restoring from backup:', backupPath);
+const closeAndDeleteDatabase = async () => {
+  if (dbInstance) {
+    await dbInstance.closeAsync();
+    dbInstance = null;
+  }
+  dbReady = null;
+
+  if (Platform.OS !== 'web') {
     const FileSystem = require('expo-file-system');
-    
-    // Read backup file
-    const backupContent = await FileSystem.readAsStringAsync(backupPath);
-    const backupData = JSON.parse(backupContent);
-    
-    // Reset database to clean state
-    await resetDatabase();
-    const db = await getDb();
-    if (!db) throw new Error('Database not initialized');
-    
-    // Restore data
-    for (const record of backupData) {
-      await db.runAsync(
-        'INSERT INTO workouts (id, name, date, type, description, result, weight, reps, distance, time, measurement_type, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          record.id,
-          record.name,
-          record.date,
-          record.type,
-          record.description || '',
-          record.result || '',
-          record.weight || '',
-          record.reps || '',
-          record.distance || '',
-          record.time || '',
-          record.measurement_type || '',
-          record.notes || ''
-        ]
-      );
-    }
-    
-    console.log('Database restored successfully');
-  } catch (error) {
-    console.error('Error restoring backup:', error);
-    throw error;
+    const dbPath = `${FileSystem.documentDirectory}SQLite/workouts.db`;
+    await FileSystem.deleteAsync(dbPath, { idempotent: true });
   }
 };
 
-export const migrateDatabase = async () => {
-  let backupPath: string | null = null;
-  try {
-    // Create backup before migration
-    backupPath = await backupDatabase();
-    
-    const db = await getDb();
-    if (!db) throw new Error('Database not initialized');
-
-    // Create table if it doesn't exist
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS workouts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        date TEXT NOT NULL,
-        type TEXT NOT NULL,
-        description TEXT,
-        result TEXT,
-        weight TEXT,
-        reps TEXT,
-        distance TEXT,
-        time TEXT,
-        measurement_type TEXT,
-        notes TEXT
-      )
-    `);
+const writeBackup = async (db: SQLite.SQLiteDatabase): Promise<string> => {
+  console.log('Creating database backup...');
+  const backup: BackupFile = {
+    version: await getSchemaVersion(db),
+    createdAt: new Date().toISOString(),
+    tables: {},
+  };
 
-    // Check if measurement_type column exists
-    const tableInfo = await db.execAsync(
-      "PRAGMA table_info(workouts)"
-    ) as unknown as [{ rows: { _array: Array<{ name: string }> } }] | null;
-    
-    if (!tableInfo?.[0]?.rows?._array) {
-      console.log('Table info not available');
-      return;
+  for (const table of BACKUP_TABLES) {
+    if (await tableExists(db, table)) {
+      backup.tables[table] = await db.getAllAsync<Record<string, unknown>>(`SELECT * FROM ${table}`);
     }
+  }
 
-    const hasColumn = tableInfo[0].rows._array.some((row: { name: string }) => row.name === 'measurement_type');
-    if (!hasColumn) {
-      console.log('Adding measurement_type column...');
-      // Add measurement_type column if it doesn't exist
-      await db.execAsync(
-        `ALTER TABLE workouts ADD COLUMN measurement_type TEXT`
-      );
-
-      // Update existing exercise records with appropriate measurement_type
-      await db.execAsync(`
-        UPDATE workouts 
-        SET measurement_type = CASE
-          WHEN weight IS NOT NULL AND reps IS NOT NULL THEN 'weight_reps'
-          WHEN time IS NOT NULL AND distance IS NOT NULL THEN 'distance_time'
-          WHEN time IS NOT NULL THEN 'time_only'
-          WHEN reps IS NOT NULL THEN 'reps_only'
-          ELSE 'weight_reps'
-        END
-        WHERE type = 'exercise'
-      `);
-    } else {
-      console.log('measurement_type column already exists');
-    }
+  // Create backup in app documents
+  const FileSystem = require('expo-file-system');
+  const backupFileName = `workouts_backup_${backup.createdAt.replace(/[:.]/g, '-')}.json`;
+  const backupPath = `${FileSystem.documentDirectory}${backupFileName}`;
 
-    // Validate migration
-    const validation = await validateMigration();
-    if (!validation.success) {
-      throw new Error(`Migration validation failed: ${validation.error}`);
-    }
+  await FileSystem.writeAsStringAsync(backupPath, JSON.stringify(backup));
+  console.log('Backup created successfully at:', backupPath);
 
-    console.log('Database migration completed and validated successfully');
-  } catch (error) {
-    console.error('Error during database migration:', error);
-    
-    // Attempt rollback if we have a backup
-    if (backupPath) {
-      console.log('Rolling back to backup...');
-      await restoreFromBackup(backupPath);
-    }
-    
-    throw error;
-  }
+  return backupPath;
 };
 
-const validateMigration = async () => {
+export const backupDatabase = async (): Promise<string> => {
   try {
     const db = await getDb();
     if (!db) throw new Error('Database not initialized');
 
-    // Check if all required columns exist
-    const tableInfo = await db.execAsync("PRAGMA table_info(workouts)") as unknown as [{ rows: { _array: Array<{ name: string }> } }];
-    const requiredColumns = ['id', 'name', 'date', 'type', 'measurement_type'];
-    
-    for (const column of requiredColumns) {
-      if (!tableInfo[0].rows._array.some(row => row.name === column)) {
-        return { success: false, error: `Required column '${column}' is missing` };
-      }
-    }
-
-    // Check if all exercise records have a valid measurement_type
-    const invalidRecords = await db.getAllAsync(
-      "SELECT id FROM workouts WHERE type = 'exercise' AND (measurement_type IS NULL OR measurement_type NOT IN ('weight_reps', 'time_only', 'distance_time', 'reps_only'))"
-    );
-
-    if (invalidRecords.length > 0) {
-      return { 
-        success: false, 
-        error: `Found ${invalidRecords.length} exercise records with invalid measurement_type` 
-      };
-    }
-
-    return { success: true };
+    return await writeBackup(db);
   } catch (error) {
-    return { success: false, error: String(error) };
+    console.error('Error creating backup:', error);
+    throw error;
   }
 };
 
-export const initializeDatabase = async () => {
+export const restoreFromBackup = async (backupPath: string): Promise<void> => {
   try {
-    const db = await getDb();
-    if (!db) throw new Error('Database not initialized');
+    console.log('Restoring from backup:', backupPath);
+    const FileSystem = require('expo-file-system');
 
-    // First, check if we need to migrate
-    const tableInfo = await db.execAsync(
-      "PRAGMA table_info(workouts)"
-    ) as unknown as [{ rows: { _array: Array<{ name: string }> } }] | null;
-    
-    const columns = tableInfo?.[0]?.rows?._array?.map(row => row.name) || [];
-    const needsMigration = !columns.includes('measurement_type') || 
-                          !columns.includes('distance') || 
-                          !columns.includes('time');
+    // Read backup file. Backups written before schema versioning are a bare
+    // array of workouts rows in the v1 layout.
+    const backupContent = await FileSystem.readAsStringAsync(backupPath);
+    const parsed = JSON.parse(backupContent);
+    const backup: BackupFile = Array.isArray(parsed)
+      ? { version: 1, createdAt: '', tables: { workouts: parsed } }
+      : parsed;
 
-    if (needsMigration) {
-      console.log('Database needs migration...');
-      
-      // 1. Backup existing data
-      type OldWorkoutRecord = {
-        id: number;
-        name: string;
-        date: string;
-        type: 'exercise' | 'wod';
-        description?: string;
-        result?: string;
-        weight?: string;
-        reps?: string;
-        distance?: string;
-        time?: string;
-        notes?: string;
-      };
+    if (backup.version > LATEST_SCHEMA_VERSION) {
+      throw new Error(`Backup schema v${backup.version} is newer than this app supports`);
+    }
 
-      const existingData = await db.getAllAsync<OldWorkoutRecord>('SELECT * FROM workouts');
-      console.log(`Backing up ${existingData.length} records`);
-
-      // 2. Drop the existing table
-      await db.execAsync('DROP TABLE IF EXISTS workouts');
-
-      // 3. Create the new table with all required columns
-      await db.execAsync(`
-        CREATE TABLE workouts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          name TEXT NOT NULL,
-          date TEXT NOT NULL,
-          type TEXT NOT NULL,
-          description TEXT,
-          result TEXT,
-          weight TEXT,
-          reps TEXT,
-          distance TEXT,
-          time TEXT,
-          measurement_type TEXT,
-          notes TEXT
-        )
-      `);
-
-      // 4. Reinsert the data with appropriate measurement_type
-      for (const record of existingData) {
-        if (record.type === 'exercise') {
-          // Determine measurement_type based on existing data
-          let measurement_type = 'reps_only'; // default
-          if (record.weight && record.weight !== '' && record.reps && record.reps !== '') {
-            measurement_type = 'weight_reps';
-          } else if (record.time && record.time !== '' && record.distance && record.distance !== '') {
-            measurement_type = 'distance_time';
-          } else if (record.time && record.time !== '') {
-            measurement_type = 'time_only';
-          }
+    // Rebuild the schema as it was when the backup was taken, load the rows,
+    // then let the remaining migrations carry the data forward.
+    await closeAndDeleteDatabase();
+    const db = await openDatabase();
+    await runMigrations(db, Math.max(backup.version, 1));
 
+    await db.withTransactionAsync(async () => {
+      // Migrations seed some tables; the backup's copy of those rows wins
+      for (const table of [...BACKUP_TABLES].reverse()) {
+        if (backup.tables[table] && await tableExists(db, table)) {
+          await db.runAsync(`DELETE FROM ${table}`);
+        }
+      }
+
+      for (const table of BACKUP_TABLES) {
+        const rows = backup.tables[table] || [];
+        if (rows.length === 0) continue;
+
+        const knownColumns = await getColumnNames(db, table);
+        for (const row of rows) {
+          const columns = Object.keys(row).filter(column => knownColumns.includes(column));
           await db.runAsync(
-            'INSERT INTO workouts (id, name, date, type, description, result, weight, reps, distance, time, measurement_type, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-            [
-              record.id,
-              record.name,
-              record.date,
-              'exercise',
-              record.description || '',
-              record.result || '',
-              record.weight || '',
-              record.reps || '',
-              record.distance || '',
-              record.time || '',
-              measurement_type,
-              record.notes || ''
-            ]
-          );
-        } else {
-          // WOD records
-          await db.runAsync(
-            'INSERT INTO workouts (id, name, date, type, description, result, notes) VALUES (?, ?, ?, ?, ?, ?, ?)',
-            [
-              record.id,
-              record.name,
-              record.date,
-              'wod',
-              record.description || '',
-              record.result || '',
-              record.notes || ''
-            ]
+            `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            columns.map(column => row[column] as SQLite.SQLiteBindValue)
           );
         }
       }
+    });
 
-      console.log('Migration completed successfully');
-    } else {
-      console.log('Database schema is up to date');
-    }
+    await runMigrations(db);
+    dbReady = Promise.resolve(db);
+
+    console.log('Database restored successfully');
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  }
+};
+
+export const initializeDatabase = async () => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
 
+    console.log(`Database ready at schema v${await getSchemaVersion(db)}`);
     return db;
   } catch (error) {
     console.error('Error initializing database:', error);
@@ -313,31 +183,346 @@ export const initializeDatabase = async () => {
   }
 };
 
+export interface ExerciseSet {
+  id?: number;
+  set_index: number;
+  weight?: number;
+  reps?: number;
+  rpe?: number;
+  done: boolean;
+}
+
+export interface CatalogExercise {
+  id: number;
+  name: string;
+  aliases: string[];
+  category: ExerciseCategory;
+  measurement_type: Exercise['measurement_type'];
+  primary_muscles: MuscleGroup[];
+  is_custom: boolean;
+}
+
 export interface Exercise {
   id?: number;
   type: 'exercise';
   name: string;
+  // Catalog entry this log belongs to; exercise_name is its canonical name
+  exercise_id?: number;
+  exercise_name?: string;
   measurement_type: 'weight_reps' | 'time_only' | 'distance_time' | 'reps_only';
+  // weight/reps mirror the top set for set-based entries
   weight?: string;
   reps?: string;
+  sets?: ExerciseSet[];
   distance?: string;
   time?: string;
   notes?: string;
+  // UTC instant; local_date and friends say which day and time it was where it was logged
   date: string;
+  local_date?: string;
+  start_time?: string;
+  tz_offset?: number;
+  // Live session this entry was logged in, if any
+  session_id?: number;
 }
 
+export type WodScoreType = 'rounds_reps' | 'time' | 'minutes' | 'intervals';
+
+export interface WodScore {
+  type: WodScoreType;
+  rounds?: number;
+  // Extra reps for rounds_reps, reps completed when a For Time was capped
+  reps?: number;
+  // Seconds
+  time?: number;
+  time_cap?: number;
+  capped?: boolean;
+  minutes?: number;
+  // Reps per interval, TABATA
+  intervals?: number[];
+}
+
+export type WodScaling = 'rx' | 'rx_plus' | 'scaled' | 'custom';
+
 export interface WOD {
   id?: number;
   type: 'wod';
   name: string;
   description?: string;
+  // Free-text result; mirrors the formatted score when one is set
   result?: string;
+  score?: WodScore;
+  // Format picked from WORKOUT_TYPES, combined ones joined with " + "
+  wod_format?: string;
+  // Id from BENCHMARKS when this is a named benchmark such as Fran
+  benchmark_id?: string;
+  scaling?: WodScaling;
+  // What was changed, for custom scaling
+  scaling_notes?: string;
   notes?: string;
   date: string;
+  local_date?: string;
+  start_time?: string;
+  tz_offset?: number;
+  session_id?: number;
 }
 
 export type WorkoutLog = Exercise | WOD;
 
+// A workout saved in a template: everything but its id and date
+export type TemplateEntry =
+  | Omit<Exercise, 'id' | 'date' | 'local_date' | 'start_time' | 'tz_offset'>
+  | Omit<WOD, 'id' | 'date' | 'local_date' | 'start_time' | 'tz_offset'>;
+
+export interface WorkoutTemplate {
+  id?: number;
+  name: string;
+  entries: TemplateEntry[];
+  created_at?: string;
+}
+
+// An exercise being worked through in a live session; weights in kg
+export interface SessionExercise {
+  name: string;
+  exercise_id?: number;
+  measurement_type: Exercise['measurement_type'];
+  sets: ExerciseSet[];
+}
+
+export interface WorkoutSession {
+  id?: number;
+  name: string;
+  started_at: string;
+  // Unset while the session is in progress
+  finished_at?: string;
+  // Draft entries of an in-progress session; empty once finished
+  exercises: SessionExercise[];
+}
+
+export interface PlannedSet {
+  // kg
+  weight: number;
+  reps: number;
+  // Fraction of the training max the weight came from
+  percent?: number;
+  amrap?: boolean;
+}
+
+export interface PlannedExercise {
+  name: string;
+  sets: PlannedSet[];
+}
+
+export interface Program {
+  id?: number;
+  program_type: ProgramType;
+  name: string;
+  // yyyy-MM-dd
+  start_date: string;
+  lifts: string[];
+  // kg per lift
+  training_maxes: Record<string, number>;
+  increment: number;
+  active: boolean;
+  created_at?: string;
+  // Filled in by getPrograms
+  session_count?: number;
+  completed_count?: number;
+}
+
+export interface ProgramSession {
+  id?: number;
+  program_id: number;
+  week: number;
+  day: number;
+  // Local yyyy-MM-dd day the session is planned for
+  scheduled_date: string;
+  exercises: PlannedExercise[];
+  completed_at?: string;
+}
+
+export interface Goal {
+  id?: number;
+  goal_type: GoalType;
+  // Set for recurring goals; lift goals run until their deadline instead
+  period?: GoalPeriod;
+  // A count, or kg for tonnage and lift goals
+  target: number;
+  exercise_name?: string;
+  // Catalog entry the lift goal counts, when the name matched one
+  exercise_id?: number;
+  // Local yyyy-MM-dd day
+  deadline?: string;
+  created_at?: string;
+}
+
+export interface BodyMetric {
+  id?: number;
+  // Local yyyy-MM-dd day
+  date: string;
+  // kg
+  weight?: number;
+  // %
+  body_fat?: number;
+  // cm per site
+  measurements: Partial<Record<MeasurementSite, number>>;
+  notes?: string;
+  created_at?: string;
+}
+
+type SetRow = {
+  id: number;
+  workout_id: number;
+  set_index: number;
+  weight: number | null;
+  reps: number | null;
+  rpe: number | null;
+  done: number;
+};
+
+type WodScoreRow = {
+  score_type?: string | null;
+  score_rounds?: number | null;
+  score_reps?: number | null;
+  score_time?: number | null;
+  score_time_cap?: number | null;
+  score_capped?: number | null;
+  score_minutes?: number | null;
+  score_intervals?: string | null;
+};
+
+const toWodScore = (row: WodScoreRow): WodScore | undefined => {
+  if (!row.score_type) return undefined;
+  return {
+    type: row.score_type as WodScoreType,
+    rounds: row.score_rounds ?? undefined,
+    reps: row.score_reps ?? undefined,
+    time: row.score_time ?? undefined,
+    time_cap: row.score_time_cap ?? undefined,
+    capped: !!row.score_capped,
+    minutes: row.score_minutes ?? undefined,
+    intervals: row.score_intervals ? JSON.parse(row.score_intervals) : undefined,
+  };
+};
+
+const WOD_SCORE_COLUMNS = [
+  'score_type', 'score_rounds', 'score_reps', 'score_time',
+  'score_time_cap', 'score_capped', 'score_minutes', 'score_intervals',
+];
+
+// Values for the score_* columns, in WOD_SCORE_COLUMNS order
+const toWodScoreValues = (score: WodScore | undefined): (string | number | null)[] => [
+  score?.type ?? null,
+  score?.rounds ?? null,
+  score?.reps ?? null,
+  score?.time ?? null,
+  score?.time_cap ?? null,
+  score ? (score.capped ? 1 : 0) : null,
+  score?.minutes ?? null,
+  score?.intervals ? JSON.stringify(score.intervals) : null,
+];
+
+const toExerciseSet = (row: SetRow): ExerciseSet => ({
+  id: row.id,
+  set_index: row.set_index,
+  weight: row.weight ?? undefined,
+  reps: row.reps ?? undefined,
+  rpe: row.rpe ?? undefined,
+  done: row.done === 1,
+});
+
+const replaceSets = async (db: SQLite.SQLiteDatabase, workoutId: number, sets: ExerciseSet[]) => {
+  await db.runAsync('DELETE FROM sets WHERE workout_id = ?', [workoutId]);
+  for (const [index, set] of sets.entries()) {
+    await db.runAsync(
+      'INSERT INTO sets (workout_id, set_index, weight, reps, rpe, done) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        workoutId,
+        index,
+        set.weight ?? null,
+        set.reps ?? null,
+        set.rpe ?? null,
+        set.done ? 1 : 0
+      ]
+    );
+  }
+};
+
+// Keep the legacy weight/reps columns in sync with the top set so search and
+// older readers still see a meaningful value
+const withSetSummary = <T extends Omit<Exercise, 'id'>>(exercise: T): T => {
+  if (!usesSets(exercise.measurement_type)) {
+    return { ...exercise, sets: [] };
+  }
+  const topSet = getTopSet((exercise.sets || []).filter(set => set.done)) || getTopSet(exercise.sets || []);
+  if (!topSet) return exercise;
+  return {
+    ...exercise,
+    weight: topSet.weight !== undefined ? String(topSet.weight) : '',
+    reps: topSet.reps !== undefined ? String(topSet.reps) : ''
+  };
+};
+
+type CatalogRow = {
+  id: number;
+  name: string;
+  aliases: string;
+  category: string;
+  measurement_type: string;
+  primary_muscles: string;
+  is_custom: number;
+};
+
+const toCatalogExercise = (row: CatalogRow): CatalogExercise => ({
+  id: row.id,
+  name: row.name,
+  aliases: JSON.parse(row.aliases || '[]'),
+  category: row.category as ExerciseCategory,
+  measurement_type: row.measurement_type as Exercise['measurement_type'],
+  primary_muscles: JSON.parse(row.primary_muscles || '[]'),
+  is_custom: row.is_custom === 1,
+});
+
+export const getExerciseCatalog = async (): Promise<CatalogExercise[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<CatalogRow>('SELECT * FROM exercises ORDER BY name COLLATE NOCASE;');
+    return rows.map(toCatalogExercise);
+  } catch (error) {
+    console.error('Error in getExerciseCatalog:', error);
+    throw error;
+  }
+};
+
+// Finds the catalog entry for a typed name (canonical or alias), creating a
+// custom entry the first time an unknown name is logged
+const resolveExerciseId = async (
+  db: SQLite.SQLiteDatabase,
+  exercise: Pick<Exercise, 'name' | 'exercise_id' | 'measurement_type'>
+): Promise<number> => {
+  if (exercise.exercise_id) return exercise.exercise_id;
+
+  const rows = await db.getAllAsync<CatalogRow>('SELECT * FROM exercises;');
+  const match = findCatalogMatch(rows.map(toCatalogExercise), exercise.name);
+  if (match) return match.id;
+
+  // The name column is unique without regard to case; never insert it twice
+  const existing = await db.getFirstAsync<{ id: number }>(
+    'SELECT id FROM exercises WHERE name = ? COLLATE NOCASE',
+    [exercise.name.trim()]
+  );
+  if (existing) return existing.id;
+
+  const result = await db.runAsync(
+    "INSERT INTO exercises (name, category, measurement_type, is_custom) VALUES (?, 'Custom', ?, 1)",
+    [exercise.name.trim(), exercise.measurement_type]
+  );
+  console.log('Added custom exercise to catalog:', exercise.name);
+  return result.lastInsertRowId;
+};
+
 export const getAllLogs = async (): Promise<WorkoutLog[]> => {
   try {
     const db = await getDb();
@@ -365,12 +550,41 @@ export const getAllLogs = async (): Promise<WorkoutLog[]> => {
       time?: string;
       measurement_type?: string;
       notes?: string;
-    }>('SELECT * FROM workouts ORDER BY date DESC;');
+      exercise_id?: number | null;
+      exercise_name?: string | null;
+      wod_format?: string | null;
+      benchmark_id?: string | null;
+      scaling?: string | null;
+      scaling_notes?: string | null;
+      session_id?: number | null;
+      local_date?: string | null;
+      start_time?: string | null;
+      tz_offset?: number | null;
+    } & WodScoreRow>(`
+      SELECT workouts.*, exercises.name AS exercise_name
+      FROM workouts
+      LEFT JOIN exercises ON exercises.id = workouts.exercise_id
+      ORDER BY workouts.local_date DESC, workouts.date DESC;
+    `);
     
     console.log('Raw database results:', JSON.stringify(result));
+
+    const setRows = await db.getAllAsync<SetRow>('SELECT * FROM sets ORDER BY workout_id, set_index;');
+    const setsByWorkout = new Map<number, ExerciseSet[]>();
+    for (const row of setRows) {
+      const workoutSets = setsByWorkout.get(row.workout_id) || [];
+      workoutSets.push(toExerciseSet(row));
+      setsByWorkout.set(row.workout_id, workoutSets);
+    }
     
-    return result.map(log => {
-      const type = log.type as 'wod' | 'exercise' || (log.description ? 'wod' : 'exercise');
+    return result.map(row => {
+      const type = row.type as 'wod' | 'exercise' || (row.description ? 'wod' : 'exercise');
+      const log = {
+        ...row,
+        local_date: row.local_date || inferLocalDateFields(row.date).local_date,
+        start_time: row.start_time ?? undefined,
+        tz_offset: row.tz_offset ?? undefined,
+      };
       
       if (type === 'wod') {
         return {
@@ -378,7 +592,13 @@ export const getAllLogs = async (): Promise<WorkoutLog[]> => {
           id: Number(log.id),
           type: 'wod' as const,
           description: log.description || '',
-          result: log.result || ''
+          result: log.result || '',
+          score: toWodScore(log),
+          wod_format: log.wod_format || undefined,
+          benchmark_id: log.benchmark_id || undefined,
+          scaling: (log.scaling as WodScaling) || undefined,
+          scaling_notes: log.scaling_notes || undefined,
+          session_id: log.session_id ?? undefined
         };
       } else {
         return {
@@ -389,7 +609,11 @@ export const getAllLogs = async (): Promise<WorkoutLog[]> => {
           weight: log.weight || '',
           reps: log.reps || '',
           distance: log.distance || '',
-          time: log.time || ''
+          time: log.time || '',
+          exercise_id: log.exercise_id ?? undefined,
+          exercise_name: log.exercise_name ?? undefined,
+          sets: setsByWorkout.get(Number(log.id)) || [],
+          session_id: log.session_id ?? undefined
         };
       }
     });
@@ -416,14 +640,22 @@ export const updateWOD = async (wod: WOD): Promise<void> => {
     
     console.log('Updating WOD:', wod);
     await db.runAsync(
-      'UPDATE workouts SET name = ?, date = ?, type = ?, description = ?, result = ?, notes = ? WHERE id = ?',
+      `UPDATE workouts SET name = ?, date = ?, local_date = ?, start_time = ?, tz_offset = ?, type = ?, description = ?,
+        result = ?, notes = ?, wod_format = ?, benchmark_id = ?, scaling = ?, scaling_notes = ?,
+        ${WOD_SCORE_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
       [
         wod.name,
         wod.date,
+        ...toLocalDateValues(wod),
         'wod',
         wod.description || '',
         wod.result || '',
         wod.notes || '',
+        wod.wod_format || null,
+        wod.benchmark_id || null,
+        wod.scaling || null,
+        wod.scaling_notes || null,
+        ...toWodScoreValues(wod.score),
         wod.id
       ]
     );
@@ -512,34 +744,48 @@ export const updateExercise = async (exercise: Exercise): Promise<void> => {
       }
     }
     
+    finalExercise = withSetSummary(finalExercise);
     console.log('Updating Exercise:', finalExercise);
     
-    // Update the record
-    await db.runAsync(
-      `UPDATE workouts 
-       SET name = ?, 
-           date = ?, 
-           type = ?, 
-           measurement_type = ?,
-           weight = ?,
-           reps = ?,
-           distance = ?,
-           time = ?,
-           notes = ?
-       WHERE id = ?`,
-      [
-        finalExercise.name,
-        finalExercise.date,
-        'exercise',
-        finalExercise.measurement_type,
-        finalExercise.weight || '',
-        finalExercise.reps || '',
-        finalExercise.distance || '',
-        finalExercise.time || '',
-        finalExercise.notes || '',
-        String(finalExercise.id)
-      ]
-    );
+    // Update the record and its sets together
+    await db.withTransactionAsync(async () => {
+      const exerciseId = await resolveExerciseId(db, finalExercise);
+      await db.runAsync(
+        `UPDATE workouts 
+         SET name = ?, 
+             exercise_id = ?,
+             date = ?, 
+             local_date = ?,
+             start_time = ?,
+             tz_offset = ?,
+             type = ?, 
+             measurement_type = ?,
+             weight = ?,
+             reps = ?,
+             distance = ?,
+             time = ?,
+             notes = ?
+         WHERE id = ?`,
+        [
+          finalExercise.name,
+          exerciseId,
+          finalExercise.date,
+          ...toLocalDateValues(finalExercise),
+          'exercise',
+          finalExercise.measurement_type,
+          finalExercise.weight || '',
+          finalExercise.reps || '',
+          finalExercise.distance || '',
+          finalExercise.time || '',
+          finalExercise.notes || '',
+          String(finalExercise.id)
+        ]
+      );
+
+      if (finalExercise.sets) {
+        await replaceSets(db, exercise.id!, finalExercise.sets);
+      }
+    });
 
     // Verify the update
     const updated = await db.getAllAsync('SELECT * FROM workouts WHERE id = ?', [exercise.id]);
@@ -550,40 +796,35 @@ export const updateExercise = async (exercise: Exercise): Promise<void> => {
     }
     
     console.log('Exercise updated successfully');
+    await completeProgramSessions(db, finalExercise);
   } catch (error) {
     console.error('Error in updateExercise:', error);
     throw error;
   }
 };
 
-// Helper function to check if a column exists in a table
-const columnExists = async (db: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> => {
-  try {
-    const tableInfo = await db.execAsync(
-      `PRAGMA table_info("${table}")`
-    ) as unknown as [{ rows: { _array: Array<{ name: string }> } }] | null;
-    
-    return !!tableInfo?.[0]?.rows?._array?.some((row: { name: string }) => row.name === column);
-  } catch (error) {
-    console.error('Error checking column existence:', error);
-    return false;
-  }
-};
-
 export const addWOD = async (wod: Omit<WOD, 'id'>): Promise<void> => {
   try {
     const db = await getDb();
     if (!db) throw new Error('Database not initialized');
     
     await db.runAsync(
-      'INSERT INTO workouts (name, date, type, description, result, notes) VALUES (?, ?, ?, ?, ?, ?)',
+      `INSERT INTO workouts (name, date, local_date, start_time, tz_offset, type, description, result, notes, wod_format,
+        benchmark_id, scaling, scaling_notes, ${WOD_SCORE_COLUMNS.join(', ')})
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${WOD_SCORE_COLUMNS.map(() => '?').join(', ')})`,
       [
         wod.name,
         wod.date,
+        ...toLocalDateValues(wod),
         'wod',
         wod.description || '',
         wod.result || '',
-        wod.notes || ''
+        wod.notes || '',
+        wod.wod_format || null,
+        wod.benchmark_id || null,
+        wod.scaling || null,
+        wod.scaling_notes || null,
+        ...toWodScoreValues(wod.score)
       ]
     );
     console.log('WOD added successfully');
@@ -593,75 +834,709 @@ export const addWOD = async (wod: Omit<WOD, 'id'>): Promise<void> => {
   }
 };
 
-export const addExercise = async (exercise: Omit<Exercise, 'id'>): Promise<void> => {
+// Bind values for local_date, start_time and tz_offset, inferred from `date`
+// when the caller didn't set them
+const toLocalDateValues = (log: Pick<WorkoutLog, 'date' | 'local_date' | 'start_time' | 'tz_offset'>): SQLite.SQLiteBindValue[] => {
+  const fields: LocalDateFields = log.local_date
+    ? { local_date: log.local_date, start_time: log.start_time, tz_offset: log.tz_offset }
+    : inferLocalDateFields(log.date);
+  return [fields.local_date, fields.start_time ?? null, fields.tz_offset ?? null];
+};
+
+// Writes an exercise and its sets; callers wrap it in a transaction
+const insertExercise = async (db: SQLite.SQLiteDatabase, exercise: Omit<Exercise, 'id'>): Promise<number> => {
+  const finalExercise = withSetSummary(exercise);
+  const exerciseId = await resolveExerciseId(db, finalExercise);
+  const result = await db.runAsync(
+    `INSERT INTO workouts (name, exercise_id, date, local_date, start_time, tz_offset, type, measurement_type,
+      weight, reps, distance, time, notes, session_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      finalExercise.name,
+      exerciseId,
+      finalExercise.date,
+      ...toLocalDateValues(finalExercise),
+      'exercise',
+      finalExercise.measurement_type,
+      finalExercise.weight || '',
+      finalExercise.reps || '',
+      finalExercise.distance || '',
+      finalExercise.time || '',
+      finalExercise.notes || '',
+      finalExercise.session_id ?? null
+    ]
+  );
+
+  if (finalExercise.sets) {
+    await replaceSets(db, result.lastInsertRowId, finalExercise.sets);
+  }
+  return result.lastInsertRowId;
+};
+
+export const addExercise = async (exercise: Omit<Exercise, 'id'>): Promise<number> => {
   try {
     const db = await getDb();
     if (!db) throw new Error('Database not initialized');
     
-    // Check if measurement_type column exists
-    const hasColumn = await columnExists(db, 'workouts', 'measurement_type');
-    
-    if (!hasColumn) {
-      // If column doesn't exist, use the old format
-      await db.runAsync(
-        'INSERT INTO workouts (name, date, type, weight, reps, distance, time, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          exercise.name,
-          exercise.date,
-          'exercise',
-          exercise.weight || '',
-          exercise.reps || '',
-          exercise.distance || '',
-          exercise.time || '',
-          exercise.notes || ''
-        ]
-      );
-    } else {
-      // If column exists, use the new format
-      await db.runAsync(
-        'INSERT INTO workouts (name, date, type, measurement_type, weight, reps, distance, time, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          exercise.name,
-          exercise.date,
-          'exercise',
-          exercise.measurement_type,
-          exercise.weight || '',
-          exercise.reps || '',
-          exercise.distance || '',
-          exercise.time || '',
-          exercise.notes || ''
-        ]
-      );
-    }
+    let id = 0;
+    await db.withTransactionAsync(async () => {
+      id = await insertExercise(db, exercise);
+    });
     console.log('Exercise added successfully');
+    await completeProgramSessions(db, exercise);
+    return id;
   } catch (error) {
     console.error('Error in addExercise:', error);
     throw error;
   }
 };
 
-export const deleteWOD = async (id: number): Promise<void> => {
+type ProgramRow = {
+  id: number;
+  program_type: string;
+  name: string;
+  start_date: string;
+  lifts: string;
+  training_maxes: string;
+  increment: number;
+  active: number;
+  created_at: string;
+  session_count?: number;
+  completed_count?: number;
+};
+
+type ProgramSessionRow = {
+  id: number;
+  program_id: number;
+  week: number;
+  day: number;
+  scheduled_date: string;
+  exercises: string;
+  completed_at: string | null;
+};
+
+const toProgram = (row: ProgramRow): Program => ({
+  id: row.id,
+  program_type: row.program_type as ProgramType,
+  name: row.name,
+  start_date: row.start_date,
+  lifts: JSON.parse(row.lifts || '[]'),
+  training_maxes: JSON.parse(row.training_maxes || '{}'),
+  increment: row.increment,
+  active: row.active === 1,
+  created_at: row.created_at,
+  session_count: row.session_count,
+  completed_count: row.completed_count,
+});
+
+const toProgramSession = (row: ProgramSessionRow): ProgramSession => ({
+  id: row.id,
+  program_id: row.program_id,
+  week: row.week,
+  day: row.day,
+  scheduled_date: row.scheduled_date,
+  exercises: JSON.parse(row.exercises || '[]'),
+  completed_at: row.completed_at ?? undefined,
+});
+
+// Sessions are done in order, so only each active program's next open
+// session can be completed by the lifts logged on the same day as `log`
+const completeProgramSessions = async (db: SQLite.SQLiteDatabase, log: Pick<WorkoutLog, 'date' | 'local_date'>) => {
   try {
-    const db = await getDb();
-    if (!db) throw new Error('Database not initialized');
-    
-    // Check if record exists before delete
-    const existing = await db.getAllAsync('SELECT * FROM workouts WHERE id = ? AND type = ?', [id, 'wod']);
-    console.log('Existing record before delete:', JSON.stringify(existing));
-    
-    if (existing.length === 0) {
-      throw new Error(`No WOD found with id ${id}`);
+    const rows = await db.getAllAsync<ProgramSessionRow>(`
+      SELECT program_sessions.*
+      FROM program_sessions
+      JOIN programs ON programs.id = program_sessions.program_id
+      WHERE programs.active = 1 AND program_sessions.completed_at IS NULL
+      ORDER BY program_sessions.program_id, program_sessions.week, program_sessions.day;
+    `);
+    const nextSessions = new Map<number, ProgramSession>();
+    for (const row of rows) {
+      if (!nextSessions.has(row.program_id)) nextSessions.set(row.program_id, toProgramSession(row));
+    }
+    if (nextSessions.size === 0) return;
+
+    const day = getLogDay(log);
+    const logs = (await db.getAllAsync<{ name: string; exercise_name: string | null }>(`
+      SELECT workouts.name, exercises.name AS exercise_name
+      FROM workouts
+      LEFT JOIN exercises ON exercises.id = workouts.exercise_id
+      WHERE workouts.type = 'exercise' AND workouts.local_date = ?;
+    `, [day]))
+      .map(row => ({ name: row.name, exercise_name: row.exercise_name ?? undefined }));
+
+    for (const session of nextSessions.values()) {
+      if (isSessionLogged(session, logs)) {
+        await db.runAsync('UPDATE program_sessions SET completed_at = ? WHERE id = ?', [log.date, session.id!]);
+        console.log(`Completed program session week ${session.week} day ${session.day}`);
+      }
     }
-    
-    await db.runAsync('DELETE FROM workouts WHERE id = ? AND type = ?', [id, 'wod']);
-    console.log('WOD deleted successfully');
   } catch (error) {
-    console.error('Error in deleteWOD:', error);
-    throw error;
+    // The log itself is saved; a missed completion can be ticked off by hand
+    console.error('Error completing program sessions:', error);
   }
 };
 
-export const deleteExercise = async (id: number): Promise<void> => {
+export const getPrograms = async (): Promise<Program[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<ProgramRow>(`
+      SELECT programs.*,
+        (SELECT COUNT(*) FROM program_sessions WHERE program_id = programs.id) AS session_count,
+        (SELECT COUNT(*) FROM program_sessions WHERE program_id = programs.id AND completed_at IS NOT NULL) AS completed_count
+      FROM programs
+      ORDER BY active DESC, created_at DESC;
+    `);
+    return rows.map(toProgram);
+  } catch (error) {
+    console.error('Error in getPrograms:', error);
+    throw error;
+  }
+};
+
+export const getProgram = async (id: number): Promise<{ program: Program; sessions: ProgramSession[] } | undefined> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.getFirstAsync<ProgramRow>('SELECT * FROM programs WHERE id = ?', [id]);
+    if (!row) return undefined;
+    const sessions = await db.getAllAsync<ProgramSessionRow>(
+      'SELECT * FROM program_sessions WHERE program_id = ? ORDER BY week, day',
+      [id]
+    );
+    return { program: toProgram(row), sessions: sessions.map(toProgramSession) };
+  } catch (error) {
+    console.error('Error in getProgram:', error);
+    throw error;
+  }
+};
+
+// Starting a program ends whichever one was running
+export const addProgram = async (
+  program: Omit<Program, 'id'>,
+  sessions: Omit<ProgramSession, 'id' | 'program_id'>[]
+): Promise<number> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    let id = 0;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('UPDATE programs SET active = 0 WHERE active = 1');
+      const result = await db.runAsync(
+        'INSERT INTO programs (program_type, name, start_date, lifts, training_maxes, increment, active, created_at) VALUES (?, ?, ?, ?, ?, ?, 1, ?)',
+        [
+          program.program_type,
+          program.name,
+          program.start_date,
+          JSON.stringify(program.lifts),
+          JSON.stringify(program.training_maxes),
+          program.increment,
+          program.created_at || new Date().toISOString()
+        ]
+      );
+      id = result.lastInsertRowId;
+
+      for (const session of sessions) {
+        await db.runAsync(
+          'INSERT INTO program_sessions (program_id, week, day, scheduled_date, exercises) VALUES (?, ?, ?, ?, ?)',
+          [id, session.week, session.day, session.scheduled_date, JSON.stringify(session.exercises)]
+        );
+      }
+    });
+    console.log(`Program added with ${sessions.length} sessions`);
+    return id;
+  } catch (error) {
+    console.error('Error in addProgram:', error);
+    throw error;
+  }
+};
+
+export const setProgramActive = async (id: number, active: boolean): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.withTransactionAsync(async () => {
+      if (active) await db.runAsync('UPDATE programs SET active = 0 WHERE active = 1');
+      await db.runAsync('UPDATE programs SET active = ? WHERE id = ?', [active ? 1 : 0, id]);
+    });
+  } catch (error) {
+    console.error('Error in setProgramActive:', error);
+    throw error;
+  }
+};
+
+export const deleteProgram = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('DELETE FROM programs WHERE id = ?', [id]);
+    console.log('Program deleted successfully');
+  } catch (error) {
+    console.error('Error in deleteProgram:', error);
+    throw error;
+  }
+};
+
+// Ticks a session off by hand, or reopens it when completedAt is undefined
+export const setProgramSessionCompleted = async (id: number, completedAt: string | undefined): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('UPDATE program_sessions SET completed_at = ? WHERE id = ?', [completedAt ?? null, id]);
+  } catch (error) {
+    console.error('Error in setProgramSessionCompleted:', error);
+    throw error;
+  }
+};
+
+// The active program's first open session, shown as "Today's session" on Home
+export const getNextProgramSession = async (): Promise<{ program: Program; session: ProgramSession } | undefined> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const programRow = await db.getFirstAsync<ProgramRow>('SELECT * FROM programs WHERE active = 1 ORDER BY created_at DESC LIMIT 1');
+    if (!programRow) return undefined;
+    const sessionRow = await db.getFirstAsync<ProgramSessionRow>(
+      'SELECT * FROM program_sessions WHERE program_id = ? AND completed_at IS NULL ORDER BY week, day LIMIT 1',
+      [programRow.id]
+    );
+    if (!sessionRow) return undefined;
+    return { program: toProgram(programRow), session: toProgramSession(sessionRow) };
+  } catch (error) {
+    console.error('Error in getNextProgramSession:', error);
+    throw error;
+  }
+};
+
+type GoalRow = {
+  id: number;
+  goal_type: string;
+  period: string | null;
+  target: number;
+  exercise_name: string | null;
+  exercise_id: number | null;
+  deadline: string | null;
+  created_at: string;
+};
+
+export const getGoals = async (): Promise<Goal[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<GoalRow>('SELECT * FROM goals ORDER BY created_at;');
+    return rows.map(row => ({
+      id: row.id,
+      goal_type: row.goal_type as GoalType,
+      period: (row.period ?? undefined) as GoalPeriod | undefined,
+      target: row.target,
+      exercise_name: row.exercise_name ?? undefined,
+      exercise_id: row.exercise_id ?? undefined,
+      deadline: row.deadline ?? undefined,
+      created_at: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Error in getGoals:', error);
+    throw error;
+  }
+};
+
+export const addGoal = async (goal: Omit<Goal, 'id'>): Promise<number> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const result = await db.runAsync(
+      'INSERT INTO goals (goal_type, period, target, exercise_name, exercise_id, deadline, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [
+        goal.goal_type,
+        goal.period ?? null,
+        goal.target,
+        goal.exercise_name ?? null,
+        goal.exercise_id ?? null,
+        goal.deadline ?? null,
+        goal.created_at || new Date().toISOString()
+      ]
+    );
+    console.log('Goal added successfully');
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error('Error in addGoal:', error);
+    throw error;
+  }
+};
+
+export const deleteGoal = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('DELETE FROM goals WHERE id = ?', [id]);
+    console.log('Goal deleted successfully');
+  } catch (error) {
+    console.error('Error in deleteGoal:', error);
+    throw error;
+  }
+};
+
+type BodyMetricRow = {
+  id: number;
+  date: string;
+  weight: number | null;
+  body_fat: number | null;
+  measurements: string;
+  notes: string | null;
+  created_at: string;
+};
+
+// Newest first
+export const getBodyMetrics = async (): Promise<BodyMetric[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<BodyMetricRow>('SELECT * FROM body_metrics ORDER BY date DESC, id DESC;');
+    return rows.map(row => ({
+      id: row.id,
+      date: row.date,
+      weight: row.weight ?? undefined,
+      body_fat: row.body_fat ?? undefined,
+      measurements: JSON.parse(row.measurements || '{}'),
+      notes: row.notes ?? undefined,
+      created_at: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Error in getBodyMetrics:', error);
+    throw error;
+  }
+};
+
+export const addBodyMetric = async (metric: Omit<BodyMetric, 'id'>): Promise<number> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const result = await db.runAsync(
+      'INSERT INTO body_metrics (date, weight, body_fat, measurements, notes, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        metric.date,
+        metric.weight ?? null,
+        metric.body_fat ?? null,
+        JSON.stringify(metric.measurements),
+        metric.notes || null,
+        metric.created_at || new Date().toISOString()
+      ]
+    );
+    console.log('Body metric added successfully');
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error('Error in addBodyMetric:', error);
+    throw error;
+  }
+};
+
+export const updateBodyMetric = async (metric: BodyMetric): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync(
+      'UPDATE body_metrics SET date = ?, weight = ?, body_fat = ?, measurements = ?, notes = ? WHERE id = ?',
+      [
+        metric.date,
+        metric.weight ?? null,
+        metric.body_fat ?? null,
+        JSON.stringify(metric.measurements),
+        metric.notes || null,
+        metric.id!
+      ]
+    );
+    console.log('Body metric updated successfully');
+  } catch (error) {
+    console.error('Error in updateBodyMetric:', error);
+    throw error;
+  }
+};
+
+export const deleteBodyMetric = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('DELETE FROM body_metrics WHERE id = ?', [id]);
+    console.log('Body metric deleted successfully');
+  } catch (error) {
+    console.error('Error in deleteBodyMetric:', error);
+    throw error;
+  }
+};
+
+// Copies a logged workout, sets and score included, to a new entry on `date`
+export const duplicateWorkout = async (log: WorkoutLog, date: string): Promise<void> => {
+  try {
+    // The copy is a standalone entry, not part of the original's session, and
+    // takes its local date from the new `date`
+    const { id, session_id, local_date, start_time, tz_offset, ...copy } = log;
+    console.log('Duplicating workout:', id);
+    if (copy.type === 'wod') {
+      await addWOD({ ...copy, date });
+    } else {
+      await addExercise({
+        ...copy,
+        date,
+        sets: copy.sets?.map(({ id: setId, ...set }) => set)
+      });
+    }
+  } catch (error) {
+    console.error('Error in duplicateWorkout:', error);
+    throw error;
+  }
+};
+
+type WorkoutSessionRow = {
+  id: number;
+  name: string;
+  started_at: string;
+  finished_at: string | null;
+  exercises: string;
+};
+
+const toWorkoutSession = (row: WorkoutSessionRow): WorkoutSession => ({
+  id: row.id,
+  name: row.name,
+  started_at: row.started_at,
+  finished_at: row.finished_at ?? undefined,
+  exercises: JSON.parse(row.exercises || '[]'),
+});
+
+// The session still in progress, if any; there is at most one
+export const getActiveSession = async (): Promise<WorkoutSession | undefined> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.getFirstAsync<WorkoutSessionRow>(
+      'SELECT * FROM workout_sessions WHERE finished_at IS NULL ORDER BY started_at DESC LIMIT 1;'
+    );
+    return row ? toWorkoutSession(row) : undefined;
+  } catch (error) {
+    console.error('Error in getActiveSession:', error);
+    throw error;
+  }
+};
+
+// Finished sessions, for grouping their entries on the Logs tab
+export const getWorkoutSessions = async (): Promise<WorkoutSession[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<WorkoutSessionRow>(
+      'SELECT * FROM workout_sessions WHERE finished_at IS NOT NULL ORDER BY started_at DESC;'
+    );
+    return rows.map(toWorkoutSession);
+  } catch (error) {
+    console.error('Error in getWorkoutSessions:', error);
+    throw error;
+  }
+};
+
+// Resumes the session in progress rather than starting a second one
+export const startSession = async (
+  name: string,
+  exercises: SessionExercise[] = []
+): Promise<WorkoutSession> => {
+  try {
+    const active = await getActiveSession();
+    if (active) return active;
+
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const session: WorkoutSession = { name, started_at: new Date().toISOString(), exercises };
+    const result = await db.runAsync(
+      'INSERT INTO workout_sessions (name, started_at, exercises) VALUES (?, ?, ?)',
+      [session.name, session.started_at, JSON.stringify(session.exercises)]
+    );
+    console.log('Session started');
+    return { ...session, id: result.lastInsertRowId };
+  } catch (error) {
+    console.error('Error in startSession:', error);
+    throw error;
+  }
+};
+
+// Saves the in-progress draft; called on every change so nothing is lost if the app is killed
+export const updateSession = async (session: WorkoutSession): Promise<void> => {
+  if (!session.id) throw new Error('Session ID is required for update');
+
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync(
+      'UPDATE workout_sessions SET name = ?, exercises = ? WHERE id = ?',
+      [session.name, JSON.stringify(session.exercises), session.id]
+    );
+  } catch (error) {
+    console.error('Error in updateSession:', error);
+    throw error;
+  }
+};
+
+// Logs every exercise with a completed set under the session's id, all or
+// nothing, and closes the session. Sets that were never ticked are dropped.
+export const finishSession = async (session: WorkoutSession): Promise<number> => {
+  if (!session.id) throw new Error('Session ID is required to finish');
+
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const entries = session.exercises
+      .map(exercise => ({ ...exercise, sets: exercise.sets.filter(set => set.done) }))
+      .filter(exercise => exercise.sets.length > 0);
+
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        await insertExercise(db, {
+          type: 'exercise',
+          name: entry.name,
+          exercise_id: entry.exercise_id,
+          measurement_type: entry.measurement_type,
+          sets: entry.sets.map(({ id, ...set }, index) => ({ ...set, set_index: index })),
+          date: session.started_at,
+          session_id: session.id,
+        });
+      }
+      await db.runAsync(
+        "UPDATE workout_sessions SET name = ?, finished_at = ?, exercises = '[]' WHERE id = ?",
+        [session.name, new Date().toISOString(), session.id!]
+      );
+    });
+    console.log(`Session finished with ${entries.length} entries`);
+    await completeProgramSessions(db, { date: session.started_at });
+    return entries.length;
+  } catch (error) {
+    console.error('Error in finishSession:', error);
+    throw error;
+  }
+};
+
+export const discardSession = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('DELETE FROM workout_sessions WHERE id = ?', [id]);
+    console.log('Session discarded');
+  } catch (error) {
+    console.error('Error in discardSession:', error);
+    throw error;
+  }
+};
+
+type TemplateRow = {
+  id: number;
+  name: string;
+  entries: string;
+  created_at: string;
+};
+
+export const getTemplates = async (): Promise<WorkoutTemplate[]> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.getAllAsync<TemplateRow>('SELECT * FROM templates ORDER BY name COLLATE NOCASE;');
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      entries: JSON.parse(row.entries || '[]'),
+      created_at: row.created_at,
+    }));
+  } catch (error) {
+    console.error('Error in getTemplates:', error);
+    throw error;
+  }
+};
+
+export const addTemplate = async (template: Omit<WorkoutTemplate, 'id'>): Promise<number> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    const result = await db.runAsync(
+      'INSERT INTO templates (name, entries, created_at) VALUES (?, ?, ?)',
+      [template.name.trim(), JSON.stringify(template.entries), template.created_at || new Date().toISOString()]
+    );
+    console.log('Template added successfully');
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error('Error in addTemplate:', error);
+    throw error;
+  }
+};
+
+export const updateTemplate = async (template: WorkoutTemplate): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+    if (!template.id) throw new Error('Template ID is required for update');
+
+    await db.runAsync(
+      'UPDATE templates SET name = ?, entries = ? WHERE id = ?',
+      [template.name.trim(), JSON.stringify(template.entries), template.id]
+    );
+    console.log('Template updated successfully');
+  } catch (error) {
+    console.error('Error in updateTemplate:', error);
+    throw error;
+  }
+};
+
+export const deleteTemplate = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+
+    await db.runAsync('DELETE FROM templates WHERE id = ?', [id]);
+    console.log('Template deleted successfully');
+  } catch (error) {
+    console.error('Error in deleteTemplate:', error);
+    throw error;
+  }
+};
+
+export const deleteWOD = async (id: number): Promise<void> => {
+  try {
+    const db = await getDb();
+    if (!db) throw new Error('Database not initialized');
+    
+    // Check if record exists before delete
+    const existing = await db.getAllAsync('SELECT * FROM workouts WHERE id = ? AND type = ?', [id, 'wod']);
+    console.log('Existing record before delete:', JSON.stringify(existing));
+    
+    if (existing.length === 0) {
+      throw new Error(`No WOD found with id ${id}`);
+    }
+    
+    await db.runAsync('DELETE FROM workouts WHERE id = ? AND type = ?', [id, 'wod']);
+    console.log('WOD deleted successfully');
+  } catch (error) {
+    console.error('Error in deleteWOD:', error);
+    throw error;
+  }
+};
+
+export const deleteExercise = async (id: number): Promise<void> => {
   try {
     const db = await getDb();
     if (!db) throw new Error('Database not initialized');
@@ -686,20 +1561,10 @@ export const resetDatabase = async () => {
   try {
     console.log('Resetting database...');
     
-    // Close existing connection if any
-    if (dbInstance) {
-      await dbInstance.closeAsync();
-      dbInstance = null;
-    }
-    
-    // Delete the database file
-    if (Platform.OS !== 'web') {
-      const FileSystem = require('expo-file-system');
-      const dbPath = `${FileSystem.documentDirectory}SQLite/workouts.db`;
-      await FileSystem.deleteAsync(dbPath, { idempotent: true });
-    }
+    // Close existing connection and delete the database file
+    await closeAndDeleteDatabase();
     
-    // Get a new instance which will create a fresh database
+    // Get a new instance which will create a fresh, fully migrated database
     const db = await getDb();
     if (!db) throw new Error('Database not initialized');
     
@@ -717,8 +1582,8 @@ export const debugDatabase = async () => {
     if (!db) throw new Error('Database not initialized');
 
     // Get table structure
-    const tableInfo = await db.execAsync("PRAGMA table_info(workouts)");
-    console.log('Current table structure:', JSON.stringify(tableInfo, null, 2));
+    const tableInfo = await db.getAllAsync('PRAGMA table_info(workouts)');
+    console.log(`Current table structure (schema v${await getSchemaVersion(db)}):`, JSON.stringify(tableInfo, null, 2));
 
     // Get a sample record
     const sampleRecord = await db.getAllAsync('SELECT * FROM workouts LIMIT 1');
@@ -743,5 +1608,31 @@ export default {
   resetDatabase,
   backupDatabase,
   restoreFromBackup,
-  debugDatabase
+  debugDatabase,
+  getExerciseCatalog,
+  duplicateWorkout,
+  getTemplates,
+  addTemplate,
+  updateTemplate,
+  deleteTemplate,
+  getPrograms,
+  getProgram,
+  addProgram,
+  setProgramActive,
+  deleteProgram,
+  setProgramSessionCompleted,
+  getNextProgramSession,
+  getGoals,
+  addGoal,
+  deleteGoal,
+  getBodyMetrics,
+  addBodyMetric,
+  updateBodyMetric,
+  deleteBodyMetric,
+  getActiveSession,
+  getWorkoutSessions,
+  startSession,
+  updateSession,
+  finishSession,
+  discardSession
 };
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import type { Exercise } from './db';
+import { getCompletedSets, getMaxRepsSet, getSessionVolume, getTopSet } from './sets';
+import { OneRepMaxFormula, getBestOneRepMax, roundOneRepMax } from './oneRepMax';
+import { compareLogs, getLogDate } from './dates';
+
+export type ExerciseStats = {
+  sessions: number;
+  sessionsLast30Days: number;
+  sessionsPerWeek: number;
+  firstDate?: Date;
+  lastDate?: Date;
+  totalSets: number;
+  totalReps: number;
+  // kg
+  totalVolume: number;
+  averageVolume: number;
+  // seconds
+  totalTime: number;
+  // meters
+  totalDistance: number;
+};
+
+export const getExerciseStats = (entries: Exercise[], now: Date = new Date()): ExerciseStats => {
+  const dates = entries.map(getLogDate).sort((a, b) => a.getTime() - b.getTime());
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+  const monthAgo = subDays(now, 30);
+
+  let totalSets = 0;
+  let totalReps = 0;
+  let totalVolume = 0;
+  let totalTime = 0;
+  let totalDistance = 0;
+
+  for (const entry of entries) {
+    const sets = getCompletedSets(entry);
+    totalSets += sets.length;
+    totalReps += sets.reduce((sum, set) => sum + (set.reps ?? 0), 0);
+    if (entry.measurement_type === 'weight_reps') {
+      totalVolume += getSessionVolume(entry);
+    }
+    totalTime += Number(entry.time || '0') || 0;
+    totalDistance += parseFloat(entry.distance || '0') || 0;
+  }
+
+  // A single session still counts as one week of training
+  const weeks = firstDate ? Math.max(1, (differenceInCalendarDays(now, firstDate) + 1) / 7) : 1;
+
+  return {
+    sessions: entries.length,
+    sessionsLast30Days: dates.filter(date => date >= monthAgo && date <= now).length,
+    sessionsPerWeek: Math.round((entries.length / weeks) * 10) / 10,
+    firstDate,
+    lastDate,
+    totalSets,
+    totalReps,
+    totalVolume: Math.round(totalVolume),
+    averageVolume: entries.length > 0 ? Math.round(totalVolume / entries.length) : 0,
+    totalTime,
+    totalDistance,
+  };
+};
+
+export type PRKind = 'weight' | 'e1rm' | 'reps' | 'time';
+
+export type PREvent = {
+  kind: PRKind;
+  date: Date;
+  // kg for weight/e1rm, seconds for time
+  value: number;
+  previous?: number;
+  reps?: number;
+  distance?: string;
+};
+
+/**
+ * Every session that beat the running best, oldest first. Weight sessions can
+ * set a heaviest-set PR and an e1RM PR at once; timed efforts are compared per
+ * distance, lower being better.
+ */
+export const getPRTimeline = (entries: Exercise[], formula: OneRepMaxFormula): PREvent[] => {
+  const events: PREvent[] = [];
+  const bests = new Map<string, number>();
+
+  const record = (key: string, event: PREvent, lowerIsBetter = false) => {
+    const previous = bests.get(key);
+    const improved = previous === undefined ||
+      (lowerIsBetter ? event.value < previous : event.value > previous);
+    if (!improved) return;
+    bests.set(key, event.value);
+    events.push({ ...event, previous });
+  };
+
+  const sorted = [...entries].sort(compareLogs);
+
+  for (const entry of sorted) {
+    const date = getLogDate(entry);
+    const sets = getCompletedSets(entry);
+
+    switch (entry.measurement_type) {
+      case 'weight_reps': {
+        const topSet = getTopSet(sets);
+        if (topSet?.weight) {
+          record('weight', { kind: 'weight', date, value: topSet.weight, reps: topSet.reps });
+        }
+        const estimate = getBestOneRepMax(sets, formula);
+        if (estimate) {
+          record('e1rm', { kind: 'e1rm', date, value: roundOneRepMax(estimate.e1rm), reps: estimate.reps });
+        }
+        break;
+      }
+
+      case 'reps_only': {
+        const reps = getMaxRepsSet(sets)?.reps ?? 0;
+        if (reps > 0) record('reps', { kind: 'reps', date, value: reps });
+        break;
+      }
+
+      case 'time_only':
+      case 'distance_time': {
+        const time = Number(entry.time || '0');
+        if (time > 0) {
+          const distance = entry.measurement_type === 'distance_time' ? entry.distance || undefined : undefined;
+          record(`time:${distance ?? ''}`, { kind: 'time', date, value: time, distance }, true);
+        }
+        break;
+      }
+    }
+  }
+
+  return events;
+};
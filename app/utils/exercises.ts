@@ -0,0 +1,58 @@
+import type { Exercise } from './db';
+
+type NamedEntry = {
+  name: string;
+  aliases: string[];
+};
+
+// "Pull-up", "pull up" and "PullUp" all normalize to "pullup". Accents are
+// dropped but other scripts are kept, so "Жим лёжа" becomes "жимлежа"
+export const normalizeExerciseName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&]+/gu, '');
+
+export const matchesExerciseName = (entry: NamedEntry, name: string) => {
+  const normalized = normalizeExerciseName(name);
+  if (!normalized) return false;
+  return [entry.name, ...entry.aliases].some(candidate => normalizeExerciseName(candidate) === normalized);
+};
+
+export const findCatalogMatch = <T extends NamedEntry>(catalog: T[], name: string): T | undefined =>
+  catalog.find(entry => matchesExerciseName(entry, name));
+
+// Ranked suggestions for the exercise picker: name prefix, then alias prefix, then substring
+export const searchCatalog = <T extends NamedEntry>(catalog: T[], query: string, limit = 6): T[] => {
+  const normalized = normalizeExerciseName(query);
+  if (!normalized) return [];
+
+  const score = (entry: T) => {
+    const names = [entry.name, ...entry.aliases].map(normalizeExerciseName);
+    if (names[0].startsWith(normalized)) return 0;
+    if (names.some(name => name.startsWith(normalized))) return 1;
+    if (names.some(name => name.includes(normalized))) return 2;
+    return -1;
+  };
+
+  return catalog
+    .map(entry => ({ entry, score: score(entry) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+// The catalog entry a log is saved under: its own link, otherwise a name or
+// alias match. Unsaved logs need this to line up with linked history
+export const linkToCatalog = <T extends NamedEntry & { id: number }>(exercise: Exercise, catalog: T[]): Exercise => {
+  const entry = exercise.exercise_id !== undefined
+    ? catalog.find(item => item.id === exercise.exercise_id)
+    : findCatalogMatch(catalog, exercise.name);
+  return entry ? { ...exercise, exercise_id: entry.id, exercise_name: entry.name } : exercise;
+};
+
+// History and PRs are grouped under the catalog name when the entry is linked
+export const getExerciseDisplayName = (exercise: Pick<Exercise, 'name' | 'exercise_name'>) =>
+  exercise.exercise_name || exercise.name;
@@ -0,0 +1,158 @@
+import { addMonths, addWeeks, endOfMonth, endOfWeek, format, startOfMonth } from 'date-fns';
+import type { Exercise, Goal, WorkoutLog } from './db';
+import { GOAL_TYPES, GoalDefinition, GoalPeriod } from '../../constants/Goals';
+import { compareLogs, getLogDay, getDayKey, parseDayKey } from './dates';
+import { getExerciseDisplayName, normalizeExerciseName } from './exercises';
+import { getCompletedSets, getSessionVolume } from './sets';
+import { formatWeight, fromKg, weightUnit } from './units';
+import { getWeekStart } from './volume';
+
+export type GoalStatus = 'active' | 'hit' | 'missed';
+
+// How a goal did over one period, or over its whole run for lift goals
+export type GoalResult = {
+  goal: Goal;
+  start: Date;
+  end: Date;
+  value: number;
+  status: GoalStatus;
+};
+
+export const getGoalDefinition = (goal: Goal): GoalDefinition =>
+  GOAL_TYPES.find(definition => definition.id === goal.goal_type) ?? GOAL_TYPES[0];
+
+const getPeriodStart = (period: GoalPeriod, date: Date) =>
+  period === 'week' ? getWeekStart(date) : startOfMonth(date);
+
+const getPeriodEnd = (period: GoalPeriod, date: Date) =>
+  period === 'week' ? endOfWeek(date, { weekStartsOn: 1 }) : endOfMonth(date);
+
+const nextPeriod = (period: GoalPeriod, date: Date) =>
+  period === 'week' ? addWeeks(date, 1) : addMonths(date, 1);
+
+// By catalog id where the goal has one, so aliases and other spellings count too
+const isLiftEntry = (log: WorkoutLog, goal: Goal): log is Exercise => {
+  if (log.type !== 'exercise') return false;
+  if (goal.exercise_id !== undefined && log.exercise_id === goal.exercise_id) return true;
+  const target = normalizeExerciseName(goal.exercise_name ?? '');
+  return target !== '' && normalizeExerciseName(getExerciseDisplayName(log)) === target;
+};
+
+// Heaviest completed set in an entry, in kg
+const getHeaviestSet = (entry: Exercise) =>
+  getCompletedSets(entry).reduce((best, set) => ((set.reps ?? 0) > 0 ? Math.max(best, set.weight ?? 0) : best), 0);
+
+// A recurring goal's tally over the days from `start` to `end`
+const measurePeriod = (goal: Goal, logs: WorkoutLog[], start: Date, end: Date): number => {
+  const from = getDayKey(start);
+  const to = getDayKey(end);
+  const inRange = logs.filter(log => {
+    const day = getLogDay(log);
+    return day >= from && day <= to;
+  });
+
+  switch (goal.goal_type) {
+    case 'sessions':
+      return new Set(inRange.map(getLogDay)).size;
+    case 'wods':
+      return inRange.filter(log => log.type === 'wod').length;
+    case 'tonnage':
+      return inRange.reduce(
+        (total, log) => (log.type === 'exercise' && log.measurement_type === 'weight_reps' ? total + getSessionVolume(log) : total),
+        0
+      );
+    default:
+      return 0;
+  }
+};
+
+/**
+ * A lift goal is hit on the first day a completed set reaches the target, as
+ * long as that's between the day it was set and the deadline. Until then its
+ * value is the best set so far, so the ring shows how close the lift is.
+ */
+const getLiftResult = (goal: Goal, logs: WorkoutLog[], now: Date): GoalResult => {
+  const start = goal.created_at ? new Date(goal.created_at) : now;
+  const deadline = goal.deadline ? parseDayKey(goal.deadline) : undefined;
+  const entries = logs
+    .filter(log => isLiftEntry(log, goal))
+    .filter(log => !goal.created_at || getLogDay(log) >= getDayKey(start))
+    .filter(log => !goal.deadline || getLogDay(log) <= goal.deadline)
+    .sort(compareLogs);
+
+  let best = 0;
+  for (const entry of entries) {
+    best = Math.max(best, getHeaviestSet(entry));
+    if (best >= goal.target) {
+      return { goal, start, end: parseDayKey(getLogDay(entry)), value: best, status: 'hit' };
+    }
+  }
+
+  const expired = goal.deadline !== undefined && goal.deadline < getDayKey(now);
+  return { goal, start, end: deadline ?? now, value: best, status: expired ? 'missed' : 'active' };
+};
+
+// This period's progress for recurring goals; the overall result for lift goals
+export const getGoalProgress = (goal: Goal, logs: WorkoutLog[], now: Date = new Date()): GoalResult => {
+  if (goal.goal_type === 'lift' || !goal.period) return getLiftResult(goal, logs, now);
+
+  const start = getPeriodStart(goal.period, now);
+  const end = getPeriodEnd(goal.period, now);
+  const value = measurePeriod(goal, logs, start, end);
+  return { goal, start, end, value, status: value >= goal.target ? 'hit' : 'active' };
+};
+
+/**
+ * Finished periods since the goal was set, newest first. The period the goal
+ * was created in counts, since it may well have been set to cover it. Lift
+ * goals have a single entry once they're hit or their deadline passes.
+ */
+export const getGoalHistory = (goal: Goal, logs: WorkoutLog[], now: Date = new Date()): GoalResult[] => {
+  if (goal.goal_type === 'lift' || !goal.period) {
+    const result = getLiftResult(goal, logs, now);
+    return result.status === 'active' ? [] : [result];
+  }
+
+  const current = getPeriodStart(goal.period, now);
+  const results: GoalResult[] = [];
+  const created = goal.created_at ? new Date(goal.created_at) : now;
+  for (let start = getPeriodStart(goal.period, created); start < current; start = nextPeriod(goal.period, start)) {
+    const end = getPeriodEnd(goal.period, start);
+    const value = measurePeriod(goal, logs, start, end);
+    results.push({ goal, start, end, value, status: value >= goal.target ? 'hit' : 'missed' });
+  }
+  return results.reverse();
+};
+
+// 0..1 for progress rings
+export const getGoalFraction = (result: GoalResult) =>
+  result.goal.target > 0 ? Math.min(1, result.value / result.goal.target) : 0;
+
+export const formatGoalValue = (goal: Goal, value: number, useMetric: boolean): string => {
+  if (goal.goal_type === 'lift') return formatWeight(Math.round(value * 100) / 100, useMetric);
+  if (goal.goal_type === 'tonnage') return `${Math.round(fromKg(value, useMetric)).toLocaleString()}${weightUnit(useMetric)}`;
+  return String(value);
+};
+
+// e.g. "4 training days per week" or "Deadlift 200kg by Dec 31"
+export const getGoalTitle = (goal: Goal, useMetric: boolean): string => {
+  const target = formatGoalValue(goal, goal.target, useMetric);
+  if (goal.goal_type === 'lift') {
+    const deadline = goal.deadline ? ` by ${format(parseDayKey(goal.deadline), 'MMM d, yyyy')}` : '';
+    return `${goal.exercise_name} ${target}${deadline}`;
+  }
+  const noun = goal.goal_type === 'sessions'
+    ? (goal.target === 1 ? 'training day' : 'training days')
+    : goal.goal_type === 'wods'
+      ? (goal.target === 1 ? 'WOD' : 'WODs')
+      : 'lifted';
+  return `${target} ${noun} per ${goal.period ?? 'week'}`;
+};
+
+// "Week of Mar 3" or "March 2026" for recurring goals; the deadline day for lift goals
+export const getResultLabel = (result: GoalResult): string => {
+  if (result.goal.goal_type === 'lift' || !result.goal.period) {
+    return result.status === 'hit' ? `Hit ${format(result.end, 'MMM d, yyyy')}` : `Due ${format(result.end, 'MMM d, yyyy')}`;
+  }
+  return result.goal.period === 'week' ? `Week of ${format(result.start, 'MMM d')}` : format(result.start, 'MMMM yyyy');
+};
@@ -0,0 +1,80 @@
+import type { Exercise, WorkoutLog } from './db';
+import { getExerciseDisplayName } from './exercises';
+import { OneRepMaxFormula, getBestOneRepMax, roundOneRepMax } from './oneRepMax';
+import { PlateInventory, WeightUnit, roundToInventory, roundToLoadable } from './plates';
+import { getCompletedSets } from './sets';
+import { getLogDate } from './dates';
+
+export type MaxBasis = '1rm' | 'e1rm';
+
+export const MAX_BASES: { id: MaxBasis; label: string }[] = [
+  { id: '1rm', label: '1RM' },
+  { id: 'e1rm', label: 'e1RM' },
+];
+
+export const PERCENTAGE_PRESETS = [50, 55, 60, 65, 70, 75, 80, 85, 90, 95, 100];
+
+// The maxes a percentage can be taken of: the heaviest weight actually lifted
+// and the best e1RM, both read from completed sets as on the PR cards
+export type LiftMax = {
+  oneRepMax?: { weight: number; date: Date };
+  e1rm?: { weight: number; date: Date };
+};
+
+export const getLiftMax = (entries: Exercise[], formula: OneRepMaxFormula): LiftMax => {
+  const max: LiftMax = {};
+  for (const entry of entries) {
+    const sets = getCompletedSets(entry);
+    const date = getLogDate(entry);
+
+    for (const set of sets) {
+      const weight = set.weight ?? 0;
+      if ((set.reps ?? 0) >= 1 && weight > 0 && weight > (max.oneRepMax?.weight ?? 0)) {
+        max.oneRepMax = { weight, date };
+      }
+    }
+
+    const estimate = getBestOneRepMax(sets, formula);
+    if (estimate && estimate.e1rm > (max.e1rm?.weight ?? 0)) {
+      max.e1rm = { weight: roundOneRepMax(estimate.e1rm), date };
+    }
+  }
+  return max;
+};
+
+// Weighted lifts by display name, for pickers
+export const getLiftMaxes = (logs: WorkoutLog[], formula: OneRepMaxFormula): Record<string, LiftMax> => {
+  const byName: Record<string, Exercise[]> = {};
+  for (const log of logs) {
+    if (log.type !== 'exercise' || log.measurement_type !== 'weight_reps') continue;
+    const name = getExerciseDisplayName(log);
+    (byName[name] = byName[name] || []).push(log);
+  }
+
+  const maxes: Record<string, LiftMax> = {};
+  for (const [name, entries] of Object.entries(byName)) {
+    const max = getLiftMax(entries, formula);
+    if (max.oneRepMax || max.e1rm) maxes[name] = max;
+  }
+  return maxes;
+};
+
+// The requested basis, falling back to the other when it is missing
+export const getMaxWeight = (max: LiftMax | undefined, basis: MaxBasis): number | undefined => {
+  if (!max) return undefined;
+  return basis === '1rm'
+    ? (max.oneRepMax ?? max.e1rm)?.weight
+    : (max.e1rm ?? max.oneRepMax)?.weight;
+};
+
+// Working weight in kg for `percent` of `max`, rounded to what can be loaded:
+// with the user's plates when an inventory is given, else to standard steps
+export const getPercentageLoad = (
+  max: number,
+  percent: number,
+  useMetric: boolean,
+  inventories?: Record<WeightUnit, PlateInventory>
+): number => {
+  const target = (max * percent) / 100;
+  return inventories ? roundToInventory(target, useMetric, inventories) : roundToLoadable(target, useMetric);
+};
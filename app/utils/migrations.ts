@@ -0,0 +1,485 @@
+import * as SQLite from 'expo-sqlite';
+import { format } from 'date-fns';
+import { EXERCISE_CATALOG_SEED } from '../../constants/Exercises';
+import { BENCHMARKS } from '../../constants/Benchmarks';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export const getColumnNames = async (db: SQLite.SQLiteDatabase, table: string): Promise<string[]> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info("${table}")`);
+  return columns.map(column => column.name);
+};
+
+export const tableExists = async (db: SQLite.SQLiteDatabase, table: string): Promise<boolean> => {
+  const result = await db.getFirstAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?",
+    [table]
+  );
+  return !!result;
+};
+
+// Frozen copies of the app helpers the migrations below call. A shipped
+// migration must keep doing what it did, so it never uses the live helpers,
+// which are free to change.
+
+const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&]+/gu, '');
+
+// "102,5" as well as "102.5"
+const parseDecimalText = (text: string | null) => parseFloat((text ?? '').trim().replace(',', '.'));
+
+const findNamedMatch = <T extends { name: string; aliases: string[] }>(catalog: T[], name: string): T | undefined => {
+  const normalized = normalizeName(name);
+  if (!normalized) return undefined;
+  return catalog.find(entry => [entry.name, ...entry.aliases].some(candidate => normalizeName(candidate) === normalized));
+};
+
+type LegacyScore = { type: 'rounds_reps' | 'time'; rounds?: number; reps?: number; time?: number };
+
+const parseResultText = (result: string | undefined): LegacyScore | undefined => {
+  if (!result) return undefined;
+  const text = result.trim().toLowerCase();
+
+  const roundsReps = text.match(/^(\d+)\s*(?:rounds?|rds?)?\s*\+\s*(\d+)\s*(?:reps?)?$/);
+  if (roundsReps) return { type: 'rounds_reps', rounds: Number(roundsReps[1]), reps: Number(roundsReps[2]) };
+
+  const rounds = text.match(/^(\d+)\s*(?:rounds?|rds?)$/);
+  if (rounds) return { type: 'rounds_reps', rounds: Number(rounds[1]), reps: 0 };
+
+  const time = text.match(/^(\d+):(\d{2})$/);
+  if (time) return { type: 'time', time: Number(time[1]) * 60 + Number(time[2]) };
+
+  return undefined;
+};
+
+const findBenchmarkId = (name: string): string | undefined => {
+  const normalized = normalizeName(name);
+  if (!normalized) return undefined;
+  return BENCHMARKS.find(benchmark => {
+    const benchmarkName = normalizeName(benchmark.name);
+    return benchmarkName === normalized ||
+      (benchmark.category === 'Open' && benchmarkName === `open${normalized}`);
+  })?.id;
+};
+
+const inferLocalDate = (date: string): { local_date: string; start_time?: string; tz_offset?: number } => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) return { local_date: date };
+  if (/T00:00:00(\.000)?Z$/.test(date)) return { local_date: date.slice(0, 10) };
+  const instant = new Date(date);
+  return {
+    local_date: format(instant, 'yyyy-MM-dd'),
+    start_time: format(instant, 'HH:mm'),
+    tz_offset: -instant.getTimezoneOffset(),
+  };
+};
+
+// Ordered list of schema changes. Each step runs exactly once, inside its own
+// transaction, and bumps PRAGMA user_version to its version number.
+// Never edit a migration that has shipped: append a new one instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create workouts table and backfill measurement_type',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS workouts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          date TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT,
+          result TEXT,
+          weight TEXT,
+          reps TEXT,
+          distance TEXT,
+          time TEXT,
+          measurement_type TEXT,
+          notes TEXT
+        )
+      `);
+
+      // Databases created before versioning may be missing some of these columns
+      const columns = await getColumnNames(db, 'workouts');
+      const optionalColumns = ['description', 'result', 'weight', 'reps', 'distance', 'time', 'measurement_type', 'notes'];
+      for (const column of optionalColumns) {
+        if (!columns.includes(column)) {
+          console.log(`Adding ${column} column...`);
+          await db.execAsync(`ALTER TABLE workouts ADD COLUMN ${column} TEXT`);
+        }
+      }
+
+      await db.execAsync(`
+        UPDATE workouts
+        SET measurement_type = CASE
+          WHEN COALESCE(weight, '') != '' AND COALESCE(reps, '') != '' THEN 'weight_reps'
+          WHEN COALESCE(time, '') != '' AND COALESCE(distance, '') != '' THEN 'distance_time'
+          WHEN COALESCE(time, '') != '' THEN 'time_only'
+          WHEN COALESCE(reps, '') != '' THEN 'reps_only'
+          ELSE 'weight_reps'
+        END
+        WHERE type = 'exercise'
+          AND (measurement_type IS NULL OR measurement_type NOT IN ('weight_reps', 'time_only', 'distance_time', 'reps_only'))
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Create sets table and move existing weight/reps into it',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE sets (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          workout_id INTEGER NOT NULL REFERENCES workouts(id) ON DELETE CASCADE,
+          set_index INTEGER NOT NULL,
+          weight REAL,
+          reps INTEGER,
+          rpe REAL,
+          done INTEGER NOT NULL DEFAULT 1
+        );
+        CREATE INDEX idx_sets_workout_id ON sets (workout_id, set_index);
+      `);
+
+      // Every existing set-based entry becomes a single completed set. Weights are
+      // parsed here rather than CAST in SQL, which would read "102,5" as 102
+      const rows = await db.getAllAsync<{ id: number; weight: string | null; reps: string | null }>(`
+        SELECT id, weight, reps
+        FROM workouts
+        WHERE type = 'exercise'
+          AND measurement_type IN ('weight_reps', 'reps_only')
+          AND (COALESCE(weight, '') != '' OR COALESCE(reps, '') != '')
+      `);
+      for (const row of rows) {
+        const weight = parseDecimalText(row.weight);
+        const reps = parseInt(row.reps ?? '', 10);
+        await db.runAsync(
+          'INSERT INTO sets (workout_id, set_index, weight, reps, done) VALUES (?, 0, ?, ?, 1)',
+          [row.id, isNaN(weight) ? null : weight, isNaN(reps) ? null : reps]
+        );
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Create exercises catalog and link existing entries to it',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE exercises (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          aliases TEXT NOT NULL DEFAULT '[]',
+          category TEXT NOT NULL,
+          measurement_type TEXT NOT NULL,
+          primary_muscles TEXT NOT NULL DEFAULT '[]',
+          is_custom INTEGER NOT NULL DEFAULT 0
+        );
+        ALTER TABLE workouts ADD COLUMN exercise_id INTEGER REFERENCES exercises(id);
+        CREATE INDEX idx_workouts_exercise_id ON workouts (exercise_id);
+      `);
+
+      const catalog: { id: number; name: string; aliases: string[] }[] = [];
+      for (const seed of EXERCISE_CATALOG_SEED) {
+        const result = await db.runAsync(
+          'INSERT INTO exercises (name, aliases, category, measurement_type, primary_muscles) VALUES (?, ?, ?, ?, ?)',
+          [seed.name, JSON.stringify(seed.aliases), seed.category, seed.measurement_type, JSON.stringify(seed.primary_muscles)]
+        );
+        catalog.push({ id: result.lastInsertRowId, name: seed.name, aliases: seed.aliases });
+      }
+
+      // Link every logged name to a catalog entry. Names the catalog does not
+      // know become custom entries, merged by normalized spelling.
+      const loggedNames = await db.getAllAsync<{ name: string; measurement_type: string | null }>(
+        "SELECT name, MAX(measurement_type) AS measurement_type FROM workouts WHERE type = 'exercise' GROUP BY name"
+      );
+      for (const { name, measurement_type } of loggedNames) {
+        let match = findNamedMatch(catalog, name);
+        if (!match) {
+          const existing = await db.getFirstAsync<{ id: number }>(
+            'SELECT id FROM exercises WHERE name = ? COLLATE NOCASE',
+            [name.trim()]
+          );
+          if (existing) match = catalog.find(entry => entry.id === existing.id);
+        }
+        if (!match) {
+          const result = await db.runAsync(
+            "INSERT INTO exercises (name, category, measurement_type, is_custom) VALUES (?, 'Custom', ?, 1)",
+            [name.trim(), measurement_type || 'weight_reps']
+          );
+          match = { id: result.lastInsertRowId, name: name.trim(), aliases: [] };
+          catalog.push(match);
+        }
+        await db.runAsync(
+          "UPDATE workouts SET exercise_id = ? WHERE type = 'exercise' AND name = ?",
+          [match.id, name]
+        );
+      }
+      console.log(`Linked ${loggedNames.length} logged exercise names to ${catalog.length} catalog entries`);
+    }
+  },
+  {
+    version: 4,
+    description: 'Add structured WOD score columns',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE workouts ADD COLUMN score_type TEXT;
+        ALTER TABLE workouts ADD COLUMN score_rounds INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_reps INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_time INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_time_cap INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_capped INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_minutes INTEGER;
+        ALTER TABLE workouts ADD COLUMN score_intervals TEXT;
+      `);
+
+      // Results typed as "5+12" or "12:34" can be read back; anything else stays free text
+      const wods = await db.getAllAsync<{ id: number; result: string | null }>(
+        "SELECT id, result FROM workouts WHERE type = 'wod' AND COALESCE(result, '') != ''"
+      );
+      let parsed = 0;
+      for (const wod of wods) {
+        const score = parseResultText(wod.result ?? undefined);
+        if (!score) continue;
+        await db.runAsync(
+          'UPDATE workouts SET score_type = ?, score_rounds = ?, score_reps = ?, score_time = ? WHERE id = ?',
+          [score.type, score.rounds ?? null, score.reps ?? null, score.time ?? null, wod.id]
+        );
+        parsed++;
+      }
+      console.log(`Parsed ${parsed} of ${wods.length} free-text WOD results`);
+    }
+  },
+  {
+    version: 5,
+    description: 'Add wod_format column',
+    up: async (db) => {
+      // `type` only tells WODs from exercises; the WOD's own format lives here
+      await db.execAsync('ALTER TABLE workouts ADD COLUMN wod_format TEXT');
+    }
+  },
+  {
+    version: 6,
+    description: 'Link WODs to benchmarks and record Rx vs scaled',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE workouts ADD COLUMN benchmark_id TEXT;
+        ALTER TABLE workouts ADD COLUMN scaling TEXT;
+        CREATE INDEX idx_workouts_benchmark_id ON workouts (benchmark_id);
+      `);
+
+      // WODs already named after a benchmark ("Fran", "murph") are linked to it;
+      // whether they were done Rx is unknown, so scaling stays empty
+      const wods = await db.getAllAsync<{ id: number; name: string }>(
+        "SELECT id, name FROM workouts WHERE type = 'wod'"
+      );
+      let linked = 0;
+      for (const wod of wods) {
+        const benchmarkId = findBenchmarkId(wod.name);
+        if (!benchmarkId) continue;
+        await db.runAsync('UPDATE workouts SET benchmark_id = ? WHERE id = ?', [benchmarkId, wod.id]);
+        linked++;
+      }
+      console.log(`Linked ${linked} of ${wods.length} WODs to benchmarks`);
+    }
+  },
+  {
+    version: 7,
+    description: 'Add scaling_notes for custom-scaled WODs',
+    up: async (db) => {
+      await db.execAsync('ALTER TABLE workouts ADD COLUMN scaling_notes TEXT');
+    }
+  },
+  {
+    version: 8,
+    description: 'Create templates table',
+    up: async (db) => {
+      // entries holds a JSON array of workouts without id or date
+      await db.execAsync(`
+        CREATE TABLE templates (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          entries TEXT NOT NULL DEFAULT '[]',
+          created_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 9,
+    description: 'Create programs and program_sessions tables',
+    up: async (db) => {
+      // lifts, training_maxes and exercises are JSON; scheduled_date is a local yyyy-MM-dd day
+      await db.execAsync(`
+        CREATE TABLE programs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          program_type TEXT NOT NULL,
+          name TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          lifts TEXT NOT NULL DEFAULT '[]',
+          training_maxes TEXT NOT NULL DEFAULT '{}',
+          increment REAL NOT NULL DEFAULT 0,
+          active INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL
+        );
+        CREATE TABLE program_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          program_id INTEGER NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+          week INTEGER NOT NULL,
+          day INTEGER NOT NULL,
+          scheduled_date TEXT NOT NULL,
+          exercises TEXT NOT NULL DEFAULT '[]',
+          completed_at TEXT
+        );
+        CREATE INDEX idx_program_sessions_program_id ON program_sessions (program_id);
+      `);
+    }
+  },
+  {
+    version: 10,
+    description: 'Create workout_sessions table and link workouts to it',
+    up: async (db) => {
+      // exercises is the JSON draft of a session still in progress (finished_at NULL);
+      // once finished its entries live in workouts under session_id
+      await db.execAsync(`
+        CREATE TABLE workout_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          exercises TEXT NOT NULL DEFAULT '[]'
+        );
+        ALTER TABLE workouts ADD COLUMN session_id INTEGER REFERENCES workout_sessions(id) ON DELETE SET NULL;
+        CREATE INDEX idx_workouts_session_id ON workouts (session_id);
+      `);
+    }
+  },
+  {
+    version: 11,
+    description: 'Add local_date, start_time and tz_offset to workouts',
+    up: async (db) => {
+      // date stays the UTC instant; local_date is the yyyy-MM-dd day it was logged on
+      await db.execAsync(`
+        ALTER TABLE workouts ADD COLUMN local_date TEXT;
+        ALTER TABLE workouts ADD COLUMN start_time TEXT;
+        ALTER TABLE workouts ADD COLUMN tz_offset INTEGER;
+        CREATE INDEX idx_workouts_local_date ON workouts (local_date);
+      `);
+
+      // Existing rows didn't record a zone, so the device's current one is the best guess
+      const rows = await db.getAllAsync<{ id: number; date: string }>('SELECT id, date FROM workouts');
+      for (const row of rows) {
+        const fields = inferLocalDate(row.date);
+        await db.runAsync(
+          'UPDATE workouts SET local_date = ?, start_time = ?, tz_offset = ? WHERE id = ?',
+          [fields.local_date, fields.start_time ?? null, fields.tz_offset ?? null, row.id]
+        );
+      }
+    }
+  },
+  {
+    version: 12,
+    description: 'Create goals table',
+    up: async (db) => {
+      // target is a count, or kg for tonnage and lift goals; deadline is a local yyyy-MM-dd day
+      await db.execAsync(`
+        CREATE TABLE goals (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          goal_type TEXT NOT NULL,
+          period TEXT,
+          target REAL NOT NULL,
+          exercise_name TEXT,
+          deadline TEXT,
+          created_at TEXT NOT NULL
+        );
+      `);
+    }
+  },
+  {
+    version: 13,
+    description: 'Create body_metrics table',
+    up: async (db) => {
+      // One check-in per row: weight in kg, body_fat in %, measurements a JSON object of cm per site
+      await db.execAsync(`
+        CREATE TABLE body_metrics (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT NOT NULL,
+          weight REAL,
+          body_fat REAL,
+          measurements TEXT NOT NULL DEFAULT '{}',
+          notes TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_body_metrics_date ON body_metrics (date);
+      `);
+    }
+  },
+  {
+    version: 14,
+    description: 'Link lift goals to the exercise catalog',
+    up: async (db) => {
+      await db.execAsync('ALTER TABLE goals ADD COLUMN exercise_id INTEGER REFERENCES exercises(id)');
+
+      // Goals set so far only kept the typed name; link the ones the catalog knows
+      const rows = await db.getAllAsync<{ id: number; name: string; aliases: string }>(
+        'SELECT id, name, aliases FROM exercises'
+      );
+      const catalog = rows.map(row => ({ id: row.id, name: row.name, aliases: JSON.parse(row.aliases || '[]') as string[] }));
+      const goals = await db.getAllAsync<{ id: number; exercise_name: string }>(
+        "SELECT id, exercise_name FROM goals WHERE goal_type = 'lift' AND exercise_name IS NOT NULL"
+      );
+      for (const goal of goals) {
+        const match = findNamedMatch(catalog, goal.exercise_name);
+        if (match) await db.runAsync('UPDATE goals SET exercise_id = ? WHERE id = ?', [match.id, goal.id]);
+      }
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+};
+
+export const hasPendingMigrations = async (db: SQLite.SQLiteDatabase): Promise<boolean> => {
+  return (await getSchemaVersion(db)) < LATEST_SCHEMA_VERSION;
+};
+
+export const runMigrations = async (
+  db: SQLite.SQLiteDatabase,
+  targetVersion: number = LATEST_SCHEMA_VERSION
+): Promise<number> => {
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Database schema v${currentVersion} is newer than this app supports (v${LATEST_SCHEMA_VERSION})`);
+  }
+
+  const pending = MIGRATIONS.filter(
+    migration => migration.version > currentVersion && migration.version <= targetVersion
+  );
+
+  if (pending.length === 0) {
+    console.log(`Database schema is up to date (v${currentVersion})`);
+    return currentVersion;
+  }
+
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}: ${migration.description}`);
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      // PRAGMA does not accept bound parameters; version is always an integer literal
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+
+  const finalVersion = pending[pending.length - 1].version;
+  console.log(`Database migrated from v${currentVersion} to v${finalVersion}`);
+  return finalVersion;
+};
@@ -0,0 +1,105 @@
+import type { ExerciseSet } from './db';
+
+export type OneRepMaxFormula = 'epley' | 'brzycki' | 'lombardi';
+
+export const ONE_REP_MAX_FORMULAS: { id: OneRepMaxFormula; label: string; description: string }[] = [
+  { id: 'epley', label: 'Epley', description: 'weight × (1 + reps / 30)' },
+  { id: 'brzycki', label: 'Brzycki', description: 'weight × 36 / (37 − reps)' },
+  { id: 'lombardi', label: 'Lombardi', description: 'weight × reps^0.1' },
+];
+
+// Estimates drift badly past this many reps, so higher-rep sets are not used
+export const MAX_ESTIMATION_REPS = 12;
+
+export const estimateOneRepMax = (weight: number, reps: number, formula: OneRepMaxFormula): number | null => {
+  if (weight <= 0 || reps <= 0 || reps > MAX_ESTIMATION_REPS) return null;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case 'epley':
+      return weight * (1 + reps / 30);
+    case 'brzycki':
+      return (weight * 36) / (37 - reps);
+    case 'lombardi':
+      return weight * Math.pow(reps, 0.1);
+  }
+};
+
+export type OneRepMaxEstimate = {
+  e1rm: number;
+  weight: number;
+  reps: number;
+};
+
+// Highest e1RM among the given sets, with the set it came from
+export const getBestOneRepMax = (sets: ExerciseSet[], formula: OneRepMaxFormula): OneRepMaxEstimate | null => {
+  return sets.reduce<OneRepMaxEstimate | null>((best, set) => {
+    const e1rm = estimateOneRepMax(set.weight ?? 0, set.reps ?? 0, formula);
+    if (e1rm === null || (best && best.e1rm >= e1rm)) return best;
+    return { e1rm, weight: set.weight ?? 0, reps: set.reps ?? 0 };
+  }, null);
+};
+
+export const roundOneRepMax = (value: number) => Math.round(value * 10) / 10;
+
+// Inverse of estimateOneRepMax: the weight the formula predicts for a set of `reps`
+export const estimateWeightForReps = (e1rm: number, reps: number, formula: OneRepMaxFormula): number => {
+  if (reps <= 1) return e1rm;
+
+  switch (formula) {
+    case 'epley':
+      return e1rm / (1 + reps / 30);
+    case 'brzycki':
+      return (e1rm * (37 - reps)) / 36;
+    case 'lombardi':
+      return e1rm / Math.pow(reps, 0.1);
+  }
+};
+
+export const REP_MAX_RANGE = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+export type RepMaxEntry = {
+  reps: number;
+  actual?: { weight: number; reps: number; date: Date };
+  estimated?: number;
+};
+
+/**
+ * Best weight lifted for at least N reps, for N = 1…10. A set of five at 100kg
+ * also counts as a 3RM of 100kg. Rep counts never reached fall back to the
+ * weight predicted from the best e1RM.
+ */
+export const getRepMaxTable = (
+  sessions: { sets: ExerciseSet[]; date: Date }[],
+  formula: OneRepMaxFormula
+): RepMaxEntry[] => {
+  let bestEstimate: number | null = null;
+  const entries: RepMaxEntry[] = REP_MAX_RANGE.map(reps => ({ reps }));
+
+  for (const session of sessions) {
+    const estimate = getBestOneRepMax(session.sets, formula);
+    if (estimate && (bestEstimate === null || estimate.e1rm > bestEstimate)) {
+      bestEstimate = estimate.e1rm;
+    }
+
+    for (const set of session.sets) {
+      const weight = set.weight ?? 0;
+      const setReps = set.reps ?? 0;
+      if (weight <= 0 || setReps <= 0) continue;
+
+      for (const entry of entries) {
+        if (setReps >= entry.reps && (!entry.actual || weight > entry.actual.weight)) {
+          entry.actual = { weight, reps: setReps, date: session.date };
+        }
+      }
+    }
+  }
+
+  if (bestEstimate !== null) {
+    for (const entry of entries) {
+      entry.estimated = roundOneRepMax(estimateWeightForReps(bestEstimate, entry.reps, formula));
+    }
+  }
+
+  return entries;
+};
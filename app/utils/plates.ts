@@ -0,0 +1,97 @@
+import { LB_PER_KG, fromKg, toKg, weightUnit } from './units';
+
+// Targets land on loadable weights: 2.5kg steps (1.25kg change plates), or
+// 5lb steps (2.5lb plates) for imperial users
+export const roundToLoadable = (kg: number, useMetric: boolean): number => {
+  if (useMetric) return Math.round(kg / 2.5) * 2.5;
+  return Math.round((Math.round((kg * LB_PER_KG) / 5) * 5 / LB_PER_KG) * 100) / 100;
+};
+
+export type WeightUnit = 'kg' | 'lb';
+
+// Plates are counted in pairs since each one has to go on both sides
+export type PlateCount = { weight: number; pairs: number };
+
+// A bar and the plates available for it, in the unit the plates are made in
+export type PlateInventory = { bar: number; plates: PlateCount[] };
+
+export const BAR_PRESETS: Record<WeightUnit, number[]> = {
+  kg: [20, 15, 10],
+  lb: [45, 35, 15],
+};
+
+export const DEFAULT_PLATE_INVENTORY: Record<WeightUnit, PlateInventory> = {
+  kg: {
+    bar: 20,
+    plates: [25, 20, 15, 10, 5, 2.5, 1.25].map(weight => ({ weight, pairs: weight >= 10 ? 4 : 2 })),
+  },
+  lb: {
+    bar: 45,
+    plates: [45, 35, 25, 10, 5, 2.5].map(weight => ({ weight, pairs: weight >= 25 ? 4 : 2 })),
+  },
+};
+
+export type PlateLoad = {
+  // Heaviest first, for one side of the bar
+  perSide: number[];
+  total: number;
+  exact: boolean;
+};
+
+// Plate weights go down to fractions, so sums are tracked in hundredths
+const toUnits = (weight: number) => Math.round(weight * 100);
+
+// Between equally short loads, the one with the bigger plates first
+const isPreferredLoad = (candidate: number[], existing: number[]): boolean => {
+  if (candidate.length !== existing.length) return candidate.length < existing.length;
+  const index = candidate.findIndex((plate, i) => plate !== existing[i]);
+  return index >= 0 && candidate[index] > existing[index];
+};
+
+// The loadable weight nearest to `target` (lighter wins a tie) with the
+// fewest plates, using only what is in the inventory. Weights are in the
+// inventory's unit.
+export const getPlateLoad = (target: number, inventory: PlateInventory): PlateLoad => {
+  const perSideTarget = toUnits((target - inventory.bar) / 2);
+  const plates = [...inventory.plates]
+    .filter(plate => plate.weight > 0 && plate.pairs > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .flatMap(plate => Array<number>(plate.pairs).fill(plate.weight));
+
+  // Every reachable per-side sum and the fewest plates that make it
+  let reachable = new Map<number, number[]>([[0, []]]);
+  for (const plate of plates) {
+    const next = new Map(reachable);
+    for (const [sum, loaded] of reachable) {
+      const total = sum + toUnits(plate);
+      const candidate = [...loaded, plate];
+      const existing = next.get(total);
+      if (!existing || isPreferredLoad(candidate, existing)) next.set(total, candidate);
+    }
+    reachable = next;
+  }
+
+  let bestSum = 0;
+  for (const sum of reachable.keys()) {
+    const distance = Math.abs(sum - perSideTarget);
+    const bestDistance = Math.abs(bestSum - perSideTarget);
+    if (distance < bestDistance || (distance === bestDistance && sum < bestSum)) bestSum = sum;
+  }
+
+  const total = inventory.bar + (bestSum * 2) / 100;
+  return {
+    perSide: reachable.get(bestSum) ?? [],
+    total,
+    exact: toUnits(total) === toUnits(target),
+  };
+};
+
+// The weight in kg nearest to `kg` that the user's own bar and plates can make
+export const roundToInventory = (
+  kg: number,
+  useMetric: boolean,
+  inventories: Record<WeightUnit, PlateInventory>
+): number => {
+  const { total } = getPlateLoad(fromKg(kg, useMetric), inventories[weightUnit(useMetric)]);
+  return toKg(total, useMetric);
+};
@@ -0,0 +1,124 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import type { Exercise, ExerciseSet, PlannedExercise, PlannedSet, ProgramSession, SessionExercise } from './db';
+import { normalizeExerciseName } from './exercises';
+import { roundToLoadable } from './plates';
+import { formatWeight } from './units';
+import {
+  FIVE_THREE_ONE_WEEKS,
+  LINEAR_REPS,
+  LINEAR_SETS,
+  ProgramDefinition,
+  SMOLOV_JR_DAYS,
+} from '../../constants/Programs';
+
+type ProgramSetup = {
+  definition: ProgramDefinition;
+  lifts: string[];
+  // kg per lift
+  maxes: Record<string, number>;
+  // kg added per week (Smolov Jr) or per session (linear)
+  increment: number;
+  startDate: Date;
+  useMetric: boolean;
+};
+
+const toPlannedSets = (
+  schemes: { percent: number; reps: number; amrap?: boolean }[],
+  max: number,
+  useMetric: boolean
+): PlannedSet[] =>
+  schemes.map(({ percent, reps, amrap }) => ({
+    weight: roundToLoadable(max * percent, useMetric),
+    reps,
+    percent,
+    ...(amrap ? { amrap } : {}),
+  }));
+
+const getSessionExercises = (
+  setup: ProgramSetup,
+  week: number,
+  day: number,
+  sessionIndex: number
+): PlannedExercise[] => {
+  const { definition, lifts, maxes, increment, useMetric } = setup;
+
+  switch (definition.id) {
+    case 'five_three_one': {
+      // One main lift per day, rotating through the four
+      const lift = lifts[day % lifts.length];
+      return [{ name: lift, sets: toPlannedSets(FIVE_THREE_ONE_WEEKS[week], maxes[lift] ?? 0, useMetric) }];
+    }
+
+    case 'smolov_jr': {
+      const lift = lifts[0];
+      const { sets, reps, percent } = SMOLOV_JR_DAYS[day % SMOLOV_JR_DAYS.length];
+      const weight = roundToLoadable((maxes[lift] ?? 0) * percent + increment * week, useMetric);
+      return [{ name: lift, sets: Array.from({ length: sets }, () => ({ weight, reps, percent })) }];
+    }
+
+    case 'linear':
+      return lifts.map(lift => {
+        const weight = roundToLoadable((maxes[lift] ?? 0) + increment * sessionIndex, useMetric);
+        return { name: lift, sets: Array.from({ length: LINEAR_SETS }, () => ({ weight, reps: LINEAR_REPS })) };
+      });
+  }
+};
+
+export const generateProgramSessions = (setup: ProgramSetup): Omit<ProgramSession, 'id' | 'program_id'>[] => {
+  const { definition, startDate } = setup;
+  const start = startOfDay(startDate);
+  const sessions: Omit<ProgramSession, 'id' | 'program_id'>[] = [];
+
+  for (let week = 0; week < definition.weeks; week++) {
+    definition.day_offsets.forEach((offset, day) => {
+      sessions.push({
+        week: week + 1,
+        day: day + 1,
+        scheduled_date: format(addDays(start, week * 7 + offset), 'yyyy-MM-dd'),
+        exercises: getSessionExercises(setup, week, day, sessions.length),
+      });
+    });
+  }
+
+  return sessions;
+};
+
+// "3 × 5 @ 100kg" for straight sets, otherwise each set, e.g. "5 @ 60kg, 5 @ 70kg, 5+ @ 80kg"
+export const formatPlannedSets = (sets: PlannedSet[], useMetric: boolean): string => {
+  const [first] = sets;
+  if (!first) return '';
+  const straight = sets.every(set => set.weight === first.weight && set.reps === first.reps && !set.amrap);
+  if (straight) {
+    return `${sets.length} × ${first.reps} @ ${formatWeight(first.weight, useMetric)}`;
+  }
+  return sets
+    .map(set => `${set.reps}${set.amrap ? '+' : ''} @ ${formatWeight(set.weight, useMetric)}`)
+    .join(', ');
+};
+
+// Route params that open add-workout with a planned lift's target sets
+export const getPlannedExerciseParams = (exercise: PlannedExercise): Record<string, string> => ({
+  workoutType: 'exercise',
+  name: exercise.name,
+  measurement_type: 'weight_reps',
+  sets: JSON.stringify(
+    exercise.sets.map((set, index): ExerciseSet => ({ set_index: index, weight: set.weight, reps: set.reps, done: true }))
+  ),
+});
+
+// A program session's lifts as a live workout, with every set still to tick
+export const toSessionExercises = (exercises: PlannedExercise[]): SessionExercise[] =>
+  exercises.map(exercise => ({
+    name: exercise.name,
+    measurement_type: 'weight_reps',
+    sets: exercise.sets.map((set, index) => ({ set_index: index, weight: set.weight, reps: set.reps, done: false })),
+  }));
+
+// A session is done once every planned lift has a log on that day
+export const isSessionLogged = (
+  session: Pick<ProgramSession, 'exercises'>,
+  logs: Pick<Exercise, 'name' | 'exercise_name'>[]
+): boolean => {
+  const logged = new Set(logs.map(log => normalizeExerciseName(log.exercise_name || log.name)));
+  return session.exercises.every(exercise => logged.has(normalizeExerciseName(exercise.name)));
+};
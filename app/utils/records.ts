@@ -0,0 +1,130 @@
+import type { Exercise, ExerciseSet, WOD, WorkoutLog } from './db';
+import { getExerciseDisplayName, normalizeExerciseName } from './exercises';
+import { getCompletedSets, getMaxRepsSet } from './sets';
+import { REP_MAX_RANGE } from './oneRepMax';
+import { compareWodAttempts, formatClock, formatWodScore, getScalingLabel } from './wodResults';
+import { findBenchmark } from './benchmarks';
+import { METERS_PER_MILE, formatWeight } from './units';
+
+export type RecordKind = 'weight' | 'reps' | 'time' | 'benchmark';
+
+// A record a just-logged workout beat, ready to show next to the old best
+export type NewRecord = {
+  kind: RecordKind;
+  name: string;
+  // What was beaten, e.g. "5-rep max" or "Fastest 5000m"
+  label: string;
+  current: string;
+  previous: string;
+};
+
+const formatDistance = (meters: string, useMetric: boolean) =>
+  useMetric ? `${parseFloat(meters)}m` : `${(parseFloat(meters) / METERS_PER_MILE).toFixed(2)}mi`;
+
+const isSameExercise = (entry: Exercise, workout: Exercise) => {
+  if (entry.measurement_type !== workout.measurement_type) return false;
+  if (workout.exercise_id !== undefined && entry.exercise_id === workout.exercise_id) return true;
+  const name = normalizeExerciseName(workout.name);
+  if (!name) return false;
+  return normalizeExerciseName(getExerciseDisplayName(entry)) === name || normalizeExerciseName(entry.name) === name;
+};
+
+// Heaviest weight lifted for at least `reps` reps, in kg
+const getBestAtReps = (sets: ExerciseSet[], reps: number): number =>
+  sets.reduce((best, set) => ((set.reps ?? 0) >= reps ? Math.max(best, set.weight ?? 0) : best), 0);
+
+const getWeightRecords = (workout: Exercise, history: Exercise[], useMetric: boolean): NewRecord[] => {
+  const sets = getCompletedSets(workout).filter(set => (set.weight ?? 0) > 0);
+  const previousSets = history.flatMap(getCompletedSets);
+  const repCounts = [...new Set(sets.map(set => set.reps ?? 0))]
+    .filter(reps => REP_MAX_RANGE.includes(reps))
+    .sort((a, b) => a - b);
+
+  return repCounts.flatMap(reps => {
+    const current = getBestAtReps(sets, reps);
+    const previous = getBestAtReps(previousSets, reps);
+    if (previous <= 0 || current <= previous) return [];
+    return [{
+      kind: 'weight' as const,
+      name: workout.name,
+      label: reps === 1 ? '1-rep max' : `${reps}-rep max`,
+      current: formatWeight(current, useMetric),
+      previous: formatWeight(previous, useMetric),
+    }];
+  });
+};
+
+const getRepsRecord = (workout: Exercise, history: Exercise[]): NewRecord[] => {
+  const current = getMaxRepsSet(getCompletedSets(workout))?.reps ?? 0;
+  const previous = getMaxRepsSet(history.flatMap(getCompletedSets))?.reps ?? 0;
+  if (previous <= 0 || current <= previous) return [];
+  return [{ kind: 'reps', name: workout.name, label: 'Most reps', current: `${current} reps`, previous: `${previous} reps` }];
+};
+
+// Lower is better, compared per distance like the PR timeline
+const getTimeRecord = (workout: Exercise, history: Exercise[], useMetric: boolean): NewRecord[] => {
+  const current = Number(workout.time || '0');
+  if (current <= 0) return [];
+  const distance = workout.measurement_type === 'distance_time' ? parseFloat(workout.distance || '') : undefined;
+  const previous = history
+    .filter(entry => distance === undefined || parseFloat(entry.distance || '') === distance)
+    .map(entry => Number(entry.time || '0'))
+    .filter(time => time > 0)
+    .reduce<number | undefined>((best, time) => (best === undefined || time < best ? time : best), undefined);
+  if (previous === undefined || current >= previous) return [];
+
+  return [{
+    kind: 'time',
+    name: workout.name,
+    label: workout.distance && distance !== undefined ? `Fastest ${formatDistance(workout.distance, useMetric)}` : 'Fastest time',
+    current: formatClock(current),
+    previous: formatClock(previous),
+  }];
+};
+
+const getBenchmarkRecord = (workout: WOD, history: WOD[]): NewRecord[] => {
+  const benchmark = findBenchmark(workout.benchmark_id);
+  if (!benchmark || workout.score?.type !== benchmark.score_type) return [];
+
+  const best = history
+    .filter(wod => wod.benchmark_id === benchmark.id && wod.score?.type === benchmark.score_type)
+    .reduce<WOD | undefined>((top, wod) => (!top || compareWodAttempts(wod, top) < 0 ? wod : top), undefined);
+  if (!best?.score || compareWodAttempts(workout, best) >= 0) return [];
+
+  const describe = (wod: WOD) => `${formatWodScore(wod.score!)}${wod.scaling ? ` · ${getScalingLabel(wod.scaling)}` : ''}`;
+  return [{
+    kind: 'benchmark',
+    name: benchmark.name,
+    label: 'Best score',
+    current: describe(workout),
+    previous: describe(best),
+  }];
+};
+
+/**
+ * Records a workout about to be saved beats, checked against everything logged
+ * before it. A first attempt sets no record; there's nothing to celebrate
+ * beating until there's history to compare with.
+ */
+export const findNewRecords = (
+  workout: WorkoutLog,
+  history: WorkoutLog[],
+  useMetric: boolean
+): NewRecord[] => {
+  if (workout.type === 'wod') {
+    return getBenchmarkRecord(workout, history.filter((log): log is WOD => log.type === 'wod'));
+  }
+
+  const previous = history.filter((log): log is Exercise => log.type === 'exercise' && isSameExercise(log, workout));
+  switch (workout.measurement_type) {
+    case 'weight_reps':
+      return getWeightRecords(workout, previous, useMetric);
+    case 'reps_only':
+      return getRepsRecord(workout, previous);
+    case 'time_only':
+    case 'distance_time':
+      return getTimeRecord(workout, previous, useMetric);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,26 @@
+import { normalizeExerciseName } from './exercises';
+
+export const REST_PRESETS = [60, 90, 120, 180, 240];
+
+export const DEFAULT_REST_SECONDS = 90;
+
+// Seconds added or taken off a running timer from the overlay
+export const REST_ADJUST_STEP = 15;
+
+// Per-exercise durations are keyed by normalized name so "Back Squat" and
+// "back squat" share one setting
+export const getRestDuration = (
+  restDurations: Record<string, number>,
+  defaultRestSeconds: number,
+  exerciseName: string
+): number => restDurations[normalizeExerciseName(exerciseName)] ?? defaultRestSeconds;
+
+export const setRestDuration = (
+  restDurations: Record<string, number>,
+  exerciseName: string,
+  seconds: number
+): Record<string, number> => ({ ...restDurations, [normalizeExerciseName(exerciseName)]: seconds });
+
+// "2 min" for whole minutes, otherwise "1:30"
+export const formatRestPreset = (seconds: number): string =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
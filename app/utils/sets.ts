@@ -0,0 +1,73 @@
+import type { Exercise, ExerciseSet } from './db';
+import { parseDecimal } from './units';
+
+// Measurement types logged as a list of sets rather than a single value
+export const SET_MEASUREMENT_TYPES: Exercise['measurement_type'][] = ['weight_reps', 'reps_only'];
+
+export const usesSets = (measurementType: Exercise['measurement_type']) =>
+  SET_MEASUREMENT_TYPES.includes(measurementType);
+
+// Sets that count towards history and PRs. Entries logged before sets existed
+// carry their single weight/reps pair on the workouts row instead.
+export const getCompletedSets = (exercise: Exercise): ExerciseSet[] => {
+  if (exercise.sets && exercise.sets.length > 0) {
+    return exercise.sets.filter(set => set.done);
+  }
+
+  const weight = parseDecimal(exercise.weight);
+  const reps = parseInt(exercise.reps || '');
+  if (isNaN(weight) && isNaN(reps)) return [];
+
+  return [{
+    set_index: 0,
+    weight: isNaN(weight) ? undefined : weight,
+    reps: isNaN(reps) ? undefined : reps,
+    done: true,
+  }];
+};
+
+// Heaviest set, with reps breaking ties
+export const getTopSet = (sets: ExerciseSet[]): ExerciseSet | undefined => {
+  return sets.reduce<ExerciseSet | undefined>((best, set) => {
+    if (!best) return set;
+    const weight = set.weight ?? 0;
+    const bestWeight = best.weight ?? 0;
+    if (weight !== bestWeight) return weight > bestWeight ? set : best;
+    return (set.reps ?? 0) > (best.reps ?? 0) ? set : best;
+  }, undefined);
+};
+
+export const getMaxRepsSet = (sets: ExerciseSet[]): ExerciseSet | undefined => {
+  return sets.reduce<ExerciseSet | undefined>(
+    (best, set) => (!best || (set.reps ?? 0) > (best.reps ?? 0) ? set : best),
+    undefined
+  );
+};
+
+export type SetGroup = {
+  count: number;
+  weight?: number;
+  reps?: number;
+  rpe?: number;
+};
+
+// Collapses consecutive identical sets so 5x5 renders as one line
+export const groupSets = (sets: ExerciseSet[]): SetGroup[] => {
+  return sets.reduce<SetGroup[]>((groups, set) => {
+    const last = groups[groups.length - 1];
+    if (last && last.weight === set.weight && last.reps === set.reps && last.rpe === set.rpe) {
+      last.count++;
+    } else {
+      groups.push({ count: 1, weight: set.weight, reps: set.reps, rpe: set.rpe });
+    }
+    return groups;
+  }, []);
+};
+
+// Tonnage moved in a session: weight × reps summed over completed sets, in kg
+export const getSessionVolume = (exercise: Exercise): number => {
+  return getCompletedSets(exercise).reduce(
+    (total, set) => total + (set.weight ?? 0) * (set.reps ?? 0),
+    0
+  );
+};
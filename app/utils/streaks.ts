@@ -0,0 +1,101 @@
+import { addDays, differenceInCalendarDays, getDay, startOfDay, startOfWeek, subDays, subWeeks } from 'date-fns';
+import type { WorkoutLog } from './db';
+import { getDayKey, getLogDay, parseDayKey } from './dates';
+
+export const DEFAULT_WEEKLY_GOAL = 3;
+export const WEEKLY_GOAL_OPTIONS = [1, 2, 3, 4, 5, 6, 7];
+
+// Sun..Sat, matching date-fns getDay
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type StreakRules = {
+  // Weekdays (0 = Sunday) that are planned rest; they neither count nor break a streak
+  restDays: number[];
+  // Training days per week needed to keep the weekly streak
+  weeklyGoal: number;
+};
+
+export type Streaks = {
+  // Consecutive training days up to today, skipping planned rest days
+  current: number;
+  longest: number;
+  // Consecutive weeks meeting the weekly goal
+  weekly: number;
+  // Training days so far this week
+  thisWeek: number;
+};
+
+// Local calendar days with at least one entry
+export const getTrainingDays = (logs: WorkoutLog[]): Set<string> => new Set(logs.map(getLogDay));
+
+const isRestDay = (date: Date, rules: StreakRules) => rules.restDays.includes(getDay(date));
+
+const countWeekDays = (days: Set<string>, weekStart: Date) =>
+  Array.from({ length: 7 }, (_, index) => getDayKey(addDays(weekStart, index))).filter(key => days.has(key)).length;
+
+export const getCurrentStreak = (days: Set<string>, rules: StreakRules, now: Date = new Date()): number => {
+  let streak = 0;
+  let date = startOfDay(now);
+  // Today isn't over, so an empty today doesn't break the streak yet
+  if (!days.has(getDayKey(date))) date = subDays(date, 1);
+
+  // A streak can't be made of rest days alone, so stop after a week of them
+  for (let restRun = 0; restRun < 7; date = subDays(date, 1)) {
+    if (days.has(getDayKey(date))) {
+      streak += 1;
+      restRun = 0;
+    } else if (isRestDay(date, rules)) {
+      restRun += 1;
+    } else {
+      break;
+    }
+  }
+  return streak;
+};
+
+// Streak length as of each training day, oldest first
+export const getRunningStreaks = (days: Set<string>, rules: StreakRules): { day: string; streak: number }[] => {
+  const runs: { day: string; streak: number }[] = [];
+  let streak = 0;
+  let previous: Date | undefined;
+  for (const key of [...days].sort()) {
+    const date = parseDayKey(key);
+    // Everything between the last training day and this one must be planned rest
+    let connected = previous !== undefined;
+    for (let gap = previous ? addDays(previous, 1) : date; connected && gap < date; gap = addDays(gap, 1)) {
+      connected = isRestDay(gap, rules);
+    }
+    streak = connected ? streak + 1 : 1;
+    runs.push({ day: key, streak });
+    previous = date;
+  }
+  return runs;
+};
+
+export const getLongestStreak = (days: Set<string>, rules: StreakRules): number =>
+  getRunningStreaks(days, rules).reduce((longest, run) => Math.max(longest, run.streak), 0);
+
+// The current week is still in progress and only counts once the goal is met
+export const getWeeklyStreak = (days: Set<string>, rules: StreakRules, now: Date = new Date()): number => {
+  const goal = Math.max(1, rules.weeklyGoal);
+  const thisWeek = startOfWeek(now, { weekStartsOn: 1 });
+  let streak = countWeekDays(days, thisWeek) >= goal ? 1 : 0;
+  const firstDay = [...days].sort()[0];
+  if (!firstDay) return streak;
+
+  for (let week = subWeeks(thisWeek, 1); differenceInCalendarDays(week, parseDayKey(firstDay)) > -7; week = subWeeks(week, 1)) {
+    if (countWeekDays(days, week) < goal) break;
+    streak += 1;
+  }
+  return streak;
+};
+
+export const getStreaks = (logs: WorkoutLog[], rules: StreakRules, now: Date = new Date()): Streaks => {
+  const days = getTrainingDays(logs);
+  return {
+    current: getCurrentStreak(days, rules, now),
+    longest: getLongestStreak(days, rules),
+    weekly: getWeeklyStreak(days, rules, now),
+    thisWeek: countWeekDays(days, startOfWeek(now, { weekStartsOn: 1 })),
+  };
+};
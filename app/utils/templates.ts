@@ -0,0 +1,55 @@
+import type { TemplateEntry, WorkoutLog, WorkoutTemplate } from './db';
+import { formatClock } from './wodResults';
+
+// Templates keep the plan, not the outcome: when it was done, WOD results and
+// session links are dropped and sets lose their ids so they can be saved again
+export const toTemplateEntry = (log: WorkoutLog): TemplateEntry => {
+  if (log.type === 'wod') {
+    const { id, date, local_date, start_time, tz_offset, session_id, result, score, ...wod } = log;
+    return wod;
+  }
+  const { id, date, local_date, start_time, tz_offset, session_id, ...exercise } = log;
+  return {
+    ...exercise,
+    sets: exercise.sets?.map(({ id: setId, ...set }) => ({ ...set, done: true })),
+  };
+};
+
+// Route params that prefill add-workout with a template entry, dated today
+export const getTemplateParams = (entry: TemplateEntry): Record<string, string> => {
+  const common = {
+    workoutType: entry.type,
+    name: entry.name,
+    notes: entry.notes || '',
+  };
+
+  if (entry.type === 'wod') {
+    return {
+      ...common,
+      description: entry.description || '',
+      wod_format: entry.wod_format || '',
+      benchmark_id: entry.benchmark_id || '',
+      scaling: entry.scaling || '',
+      scaling_notes: entry.scaling_notes || '',
+    };
+  }
+
+  return {
+    ...common,
+    exercise_id: entry.exercise_id?.toString() || '',
+    measurement_type: entry.measurement_type,
+    sets: JSON.stringify(entry.sets || []),
+    distance: entry.distance || '',
+    time: entry.time ? formatClock(Number(entry.time)) : '',
+  };
+};
+
+export const getTemplateSummary = (template: WorkoutTemplate): string => {
+  if (template.entries.length === 1) {
+    const [entry] = template.entries;
+    if (entry.type === 'wod') return entry.wod_format || 'WOD';
+    const sets = entry.sets?.length ?? 0;
+    return sets > 0 ? `${sets} ${sets === 1 ? 'set' : 'sets'}` : 'Exercise';
+  }
+  return template.entries.map(entry => entry.name).join(', ');
+};
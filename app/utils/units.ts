@@ -0,0 +1,37 @@
+// Weights are stored in kilograms, distances in meters and body measurements in
+// centimeters; these helpers convert at the edges depending on settings.useMetric.
+export const LB_PER_KG = 2.20462;
+export const METERS_PER_MILE = 1609.34;
+export const CM_PER_INCH = 2.54;
+
+export const toKg = (value: number, useMetric: boolean) =>
+  useMetric ? value : Math.round((value / LB_PER_KG) * 100) / 100;
+
+export const fromKg = (kg: number, useMetric: boolean) =>
+  useMetric ? kg : kg * LB_PER_KG;
+
+export const weightUnit = (useMetric: boolean) => (useMetric ? 'kg' : 'lb');
+
+// Number typed into a decimal field; comma-decimal keyboards send "102,5".
+// NaN when unreadable, like parseFloat
+export const parseDecimal = (text: string | undefined): number =>
+  parseFloat((text ?? '').trim().replace(',', '.'));
+
+// Value for an editable weight field, e.g. "102.5" or "225"
+export const formatWeightInput = (kg: number | undefined, useMetric: boolean): string => {
+  if (kg === undefined || isNaN(kg)) return '';
+  return String(Math.round(fromKg(kg, useMetric) * 10) / 10);
+};
+
+export const formatWeight = (kg: number | undefined, useMetric: boolean): string => {
+  if (kg === undefined || isNaN(kg)) return '';
+  return useMetric ? `${kg}kg` : `${Math.round(kg * LB_PER_KG)}lb`;
+};
+
+export const toCm = (value: number, useMetric: boolean) =>
+  useMetric ? value : Math.round(value * CM_PER_INCH * 100) / 100;
+
+export const fromCm = (cm: number, useMetric: boolean) =>
+  useMetric ? cm : cm / CM_PER_INCH;
+
+export const lengthUnit = (useMetric: boolean) => (useMetric ? 'cm' : 'in');
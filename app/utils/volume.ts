@@ -0,0 +1,173 @@
+import { addWeeks, startOfWeek, subWeeks } from 'date-fns';
+import type { CatalogExercise, Exercise } from './db';
+import { MUSCLE_GROUPS, MuscleGroup } from '../../constants/Exercises';
+import { findCatalogMatch, getExerciseDisplayName } from './exercises';
+import { getCompletedSets, getSessionVolume, usesSets } from './sets';
+import { getLogDate, getLogDay } from './dates';
+
+export const VOLUME_PERIODS = [
+  { id: '4w', label: '4W', weeks: 4 },
+  { id: '12w', label: '12W', weeks: 12 },
+  { id: '6m', label: '6M', weeks: 26 },
+  { id: '1y', label: '1Y', weeks: 52 },
+  { id: 'all', label: 'All', weeks: undefined },
+] as const;
+
+export type VolumePeriod = typeof VOLUME_PERIODS[number]['id'];
+
+// Last week against the average of the ones before it: above the spike ratio
+// looks like overreaching, below the deload ratio like a deload
+export const VOLUME_SPIKE_RATIO = 1.2;
+export const VOLUME_DELOAD_RATIO = 0.6;
+const TREND_BASELINE_WEEKS = 4;
+
+export const getWeekStart = (date: Date) => startOfWeek(date, { weekStartsOn: 1 });
+
+// First week of the period; "All" starts at the oldest entry
+export const getPeriodStart = (period: VolumePeriod, entries: Exercise[], now: Date = new Date()): Date => {
+  const weeks = VOLUME_PERIODS.find(option => option.id === period)?.weeks;
+  if (weeks) return getWeekStart(subWeeks(now, weeks - 1));
+  const oldest = entries.reduce(
+    (earliest, entry) => Math.min(earliest, getLogDate(entry).getTime()),
+    now.getTime()
+  );
+  return getWeekStart(new Date(oldest));
+};
+
+// All volume figures are kg
+export type SessionVolume = {
+  key: string;
+  date: Date;
+  volume: number;
+  sets: number;
+};
+
+export type WeekVolume = {
+  weekStart: Date;
+  volume: number;
+  sets: number;
+};
+
+export type ExerciseVolume = {
+  name: string;
+  volume: number;
+  sets: number;
+  sessions: number;
+};
+
+export type MuscleSets = {
+  muscle: MuscleGroup;
+  sets: number;
+  perWeek: number;
+};
+
+export type VolumeTrend = {
+  current: number;
+  baseline: number;
+  status: 'spike' | 'deload' | 'steady';
+};
+
+const isLoaded = (entry: Exercise) => entry.measurement_type === 'weight_reps';
+
+/**
+ * Tonnage per training session, oldest first. Entries logged in a live
+ * session are counted together; anything else is grouped by day.
+ */
+export const getSessionVolumes = (entries: Exercise[]): SessionVolume[] => {
+  const sessions = new Map<string, SessionVolume>();
+
+  for (const entry of entries.filter(isLoaded)) {
+    const date = getLogDate(entry);
+    const key = entry.session_id ? `session-${entry.session_id}` : getLogDay(entry);
+    const session = sessions.get(key) ?? { key, date, volume: 0, sets: 0 };
+    session.volume += getSessionVolume(entry);
+    session.sets += getCompletedSets(entry).length;
+    if (date < session.date) session.date = date;
+    sessions.set(key, session);
+  }
+
+  return [...sessions.values()]
+    .filter(session => session.volume > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// One bucket per week from `since` to now, so empty weeks show up as zero
+export const getWeeklyVolumes = (entries: Exercise[], since: Date, now: Date = new Date()): WeekVolume[] => {
+  const weeks: WeekVolume[] = [];
+  for (let week = getWeekStart(since); week <= now; week = addWeeks(week, 1)) {
+    weeks.push({ weekStart: week, volume: 0, sets: 0 });
+  }
+
+  for (const entry of entries.filter(isLoaded)) {
+    const weekStart = getWeekStart(getLogDate(entry)).getTime();
+    const week = weeks.find(bucket => bucket.weekStart.getTime() === weekStart);
+    if (!week) continue;
+    week.volume += getSessionVolume(entry);
+    week.sets += getCompletedSets(entry).length;
+  }
+
+  return weeks;
+};
+
+// Heaviest total first
+export const getExerciseVolumes = (entries: Exercise[]): ExerciseVolume[] => {
+  const exercises = new Map<string, ExerciseVolume>();
+
+  for (const entry of entries.filter(isLoaded)) {
+    const name = getExerciseDisplayName(entry);
+    const exercise = exercises.get(name) ?? { name, volume: 0, sets: 0, sessions: 0 };
+    exercise.volume += getSessionVolume(entry);
+    exercise.sets += getCompletedSets(entry).length;
+    exercise.sessions += 1;
+    exercises.set(name, exercise);
+  }
+
+  return [...exercises.values()]
+    .filter(exercise => exercise.volume > 0)
+    .sort((a, b) => b.volume - a.volume);
+};
+
+/**
+ * Completed working sets per primary muscle, averaged over `weeks`. A set
+ * counts once for every muscle its exercise lists, the usual way of tallying
+ * weekly sets per muscle group.
+ */
+export const getMuscleSets = (entries: Exercise[], catalog: CatalogExercise[], weeks: number): MuscleSets[] => {
+  const byId = new Map(catalog.map(exercise => [exercise.id, exercise]));
+  const counts = new Map<MuscleGroup, number>();
+
+  for (const entry of entries) {
+    if (!usesSets(entry.measurement_type)) continue;
+    const catalogEntry = (entry.exercise_id ? byId.get(entry.exercise_id) : undefined) ??
+      findCatalogMatch(catalog, entry.name);
+    const sets = getCompletedSets(entry).length;
+    for (const muscle of catalogEntry?.primary_muscles ?? []) {
+      counts.set(muscle, (counts.get(muscle) ?? 0) + sets);
+    }
+  }
+
+  return MUSCLE_GROUPS
+    .map(muscle => {
+      const sets = counts.get(muscle) ?? 0;
+      return { muscle, sets, perWeek: Math.round((sets / Math.max(1, weeks)) * 10) / 10 };
+    })
+    .filter(muscle => muscle.sets > 0)
+    .sort((a, b) => b.sets - a.sets);
+};
+
+// Compares the last full week with the few before it; undefined without history
+export const getVolumeTrend = (weeks: WeekVolume[], now: Date = new Date()): VolumeTrend | undefined => {
+  const currentWeek = getWeekStart(now).getTime();
+  const complete = weeks.filter(week => week.weekStart.getTime() < currentWeek);
+  const last = complete[complete.length - 1];
+  const previous = complete.slice(-1 - TREND_BASELINE_WEEKS, -1).filter(week => week.volume > 0);
+  if (!last || previous.length === 0) return undefined;
+
+  const baseline = previous.reduce((total, week) => total + week.volume, 0) / previous.length;
+  const ratio = last.volume / baseline;
+  return {
+    current: last.volume,
+    baseline,
+    status: ratio >= VOLUME_SPIKE_RATIO ? 'spike' : ratio <= VOLUME_DELOAD_RATIO ? 'deload' : 'steady',
+  };
+};
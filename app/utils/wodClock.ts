@@ -0,0 +1,156 @@
+import type { WodScore } from './db';
+import { TABATA_INTERVALS } from './wodResults';
+
+export type ClockMode = 'amrap' | 'for_time' | 'emom' | 'tabata';
+
+export const CLOCK_MODES: { id: ClockMode; label: string; format: string }[] = [
+  { id: 'amrap', label: 'AMRAP', format: 'AMRAP' },
+  { id: 'for_time', label: 'For Time', format: 'For Time' },
+  { id: 'emom', label: 'EMOM', format: 'EMOM' },
+  { id: 'tabata', label: 'Tabata', format: 'TABATA' },
+];
+
+// Seconds to get set before the clock starts; the last three count down "3, 2, 1"
+export const LEAD_IN_SECONDS = 10;
+
+// All durations in seconds
+export interface ClockConfig {
+  mode: ClockMode;
+  // AMRAP length
+  duration: number;
+  // For Time cap; 0 runs until stopped
+  timeCap: number;
+  // EMOM interval length, e.g. 60 or every 90s
+  interval: number;
+  // EMOM intervals or Tabata rounds
+  rounds: number;
+  // Tabata work and rest
+  work: number;
+  rest: number;
+}
+
+export const DEFAULT_CLOCK_CONFIG: ClockConfig = {
+  mode: 'amrap',
+  duration: 12 * 60,
+  timeCap: 20 * 60,
+  interval: 60,
+  rounds: 10,
+  work: 20,
+  rest: 10,
+};
+
+// Tabata is 8 rounds unless changed; EMOMs default to 10 intervals
+export const getDefaultRounds = (mode: ClockMode): number =>
+  mode === 'tabata' ? TABATA_INTERVALS : DEFAULT_CLOCK_CONFIG.rounds;
+
+// How long the clock runs; undefined for an uncapped For Time
+export const getClockLength = (config: ClockConfig): number | undefined => {
+  switch (config.mode) {
+    case 'amrap':
+      return config.duration;
+    case 'for_time':
+      return config.timeCap > 0 ? config.timeCap : undefined;
+    case 'emom':
+      return config.interval * config.rounds;
+    case 'tabata':
+      return (config.work + config.rest) * config.rounds;
+  }
+};
+
+export interface ClockState {
+  // What the big display shows: counting down for AMRAP, EMOM and Tabata
+  // intervals, up for For Time
+  display: number;
+  // 1-based EMOM interval or Tabata round; undefined for AMRAP and For Time
+  interval?: number;
+  phase: 'work' | 'rest';
+  finished: boolean;
+}
+
+export const getClockState = (config: ClockConfig, elapsed: number): ClockState => {
+  const length = getClockLength(config);
+  const finished = length !== undefined && elapsed >= length;
+  const clamped = length !== undefined ? Math.min(elapsed, length) : elapsed;
+
+  switch (config.mode) {
+    case 'amrap':
+      return { display: config.duration - clamped, phase: 'work', finished };
+    case 'for_time':
+      return { display: clamped, phase: 'work', finished };
+    case 'emom': {
+      const index = Math.min(Math.floor(clamped / config.interval), config.rounds - 1);
+      return {
+        display: finished ? 0 : config.interval - (clamped % config.interval),
+        interval: index + 1,
+        phase: 'work',
+        finished,
+      };
+    }
+    case 'tabata': {
+      const roundLength = config.work + config.rest;
+      const index = Math.min(Math.floor(clamped / roundLength), config.rounds - 1);
+      const intoRound = clamped - index * roundLength;
+      const working = intoRound < config.work;
+      return {
+        display: finished ? 0 : working ? config.work - intoRound : roundLength - intoRound,
+        interval: index + 1,
+        phase: working || finished ? 'work' : 'rest',
+        finished,
+      };
+    }
+  }
+};
+
+// The score the clock measured, in the shape add-workout edits. `rounds` is
+// the tap counter; Tabata counts reps per round into `tabataReps` instead.
+export const getClockScore = (
+  config: ClockConfig,
+  elapsed: number,
+  rounds: number,
+  tabataReps: number[]
+): WodScore => {
+  const length = getClockLength(config);
+  switch (config.mode) {
+    case 'amrap':
+      return { type: 'rounds_reps', rounds };
+    case 'for_time': {
+      const capped = length !== undefined && elapsed >= length;
+      return {
+        type: 'time',
+        time_cap: length,
+        capped,
+        ...(capped ? {} : { time: Math.round(elapsed) }),
+      };
+    }
+    case 'emom':
+      // Intervals completed, which are minutes for the usual 60s interval
+      return {
+        type: 'minutes',
+        minutes: Math.min(config.rounds, Math.floor(elapsed / config.interval)),
+      };
+    case 'tabata':
+      return { type: 'intervals', intervals: tabataReps.slice(0, config.rounds) };
+  }
+};
+
+// "AMRAP 12", "EMOM 10", "Tabata" — a starting name for the log
+export const getClockWorkoutName = (config: ClockConfig): string => {
+  switch (config.mode) {
+    case 'amrap':
+      return `AMRAP ${Math.round(config.duration / 60)}`;
+    case 'for_time':
+      return 'For Time';
+    case 'emom':
+      return `EMOM ${config.rounds}`;
+    case 'tabata':
+      return 'Tabata';
+  }
+};
+
+// Route params that open add-workout with the clock's result filled in
+export const getClockResultParams = (config: ClockConfig, score: WodScore): Record<string, string> => ({
+  workoutType: 'wod',
+  name: getClockWorkoutName(config),
+  wod_format: CLOCK_MODES.find(mode => mode.id === config.mode)?.format ?? '',
+  score: JSON.stringify(score),
+});
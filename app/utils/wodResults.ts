@@ -0,0 +1,168 @@
+import type { WOD, WodScaling, WodScore, WodScoreType } from './db';
+import { OTHER_WORKOUT_TYPE, WOD_FORMAT_SEPARATOR, WORKOUT_TYPES } from '../../constants/WorkoutTypes';
+
+export const WOD_SCORE_TYPES: { id: WodScoreType; label: string }[] = [
+  { id: 'rounds_reps', label: 'Rounds + Reps' },
+  { id: 'time', label: 'Time' },
+  { id: 'minutes', label: 'Minutes' },
+  { id: 'intervals', label: 'Intervals' },
+];
+
+export const TABATA_INTERVALS = 8;
+
+export const WOD_SCALING_LEVELS: { id: WodScaling; label: string }[] = [
+  { id: 'rx', label: 'Rx' },
+  { id: 'rx_plus', label: 'Rx+' },
+  { id: 'scaled', label: 'Scaled' },
+  { id: 'custom', label: 'Custom' },
+];
+
+export const getScalingLabel = (scaling: WodScaling | undefined) =>
+  WOD_SCALING_LEVELS.find(level => level.id === scaling)?.label ?? 'Scaled';
+
+// Rx and Rx+ share the prescribed leaderboard; anything else, including
+// WODs logged before scaling existed, is ranked as scaled
+export const isRxScaling = (scaling: WodScaling | undefined) =>
+  scaling === 'rx' || scaling === 'rx_plus';
+
+const getScalingRank = (scaling: WodScaling | undefined) => (isRxScaling(scaling) ? 0 : 1);
+
+// Which kind of score a workout type produces. Combined formats such as
+// "EMOM + AMRAP" are scored by their finisher, so AMRAP and For Time win.
+const SCORE_TYPE_PRIORITY: [WodScoreType, string[]][] = [
+  ['rounds_reps', ['AMRAP']],
+  ['time', ['For Time', 'RFT', 'Chipper', 'AFAP']],
+  ['intervals', ['TABATA']],
+  ['minutes', ['EMOM', 'Death by']],
+];
+
+export const splitWodFormat = (format: string | undefined): string[] =>
+  (format || '').split(WOD_FORMAT_SEPARATOR).map(part => part.trim()).filter(Boolean);
+
+// True when `format` includes `filter`; "Other" matches any unlisted format
+export const matchesWodFormat = (format: string | undefined, filter: string): boolean => {
+  const parts = splitWodFormat(format);
+  if (filter === OTHER_WORKOUT_TYPE) {
+    return parts.some(part => !WORKOUT_TYPES.includes(part));
+  }
+  return parts.some(part => part.toLowerCase() === filter.toLowerCase());
+};
+
+export const getScoreTypeForFormat = (format: string | undefined): WodScoreType | undefined => {
+  if (!format) return undefined;
+  const parts = splitWodFormat(format).map(part => part.toLowerCase());
+  const match = SCORE_TYPE_PRIORITY.find(([, formats]) =>
+    formats.some(candidate => parts.includes(candidate.toLowerCase()))
+  );
+  return match?.[0];
+};
+
+export const formatClock = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// "12:34" → 754, "45" → 45 seconds; undefined when the text is not a time
+export const parseClock = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (!/^\d+(:\d{1,2})?$/.test(trimmed)) return undefined;
+  const [first, second] = trimmed.split(':').map(Number);
+  return second === undefined ? first : first * 60 + second;
+};
+
+export const getIntervalTotal = (intervals: number[]) =>
+  intervals.reduce((total, reps) => total + reps, 0);
+
+// Tabata is traditionally scored by the weakest interval; attempts rank by
+// it first and by total reps only to break a tie
+export const getIntervalLow = (intervals: number[]) =>
+  intervals.length > 0 ? Math.min(...intervals) : 0;
+
+export const formatWodScore = (score: WodScore): string => {
+  switch (score.type) {
+    case 'rounds_reps': {
+      const rounds = `${score.rounds ?? 0} ${score.rounds === 1 ? 'round' : 'rounds'}`;
+      return score.reps ? `${rounds} + ${score.reps} reps` : rounds;
+    }
+    case 'time': {
+      const cap = score.time_cap ? ` (cap ${formatClock(score.time_cap)})` : '';
+      if (score.capped) return `Capped at ${score.reps ?? 0} reps${cap}`;
+      return `${formatClock(score.time ?? 0)}${cap}`;
+    }
+    case 'minutes':
+      return `${score.minutes ?? 0} ${score.minutes === 1 ? 'minute' : 'minutes'}`;
+    case 'intervals': {
+      const intervals = score.intervals ?? [];
+      return `${intervals.join(' / ')} · total ${getIntervalTotal(intervals)}, low ${getIntervalLow(intervals)}`;
+    }
+  }
+};
+
+/**
+ * Orders two scores of the same type, negative when `a` is better. Capped For
+ * Time results always rank behind finished ones and then by reps completed.
+ * Interval scores rank by their lowest interval, then by total.
+ */
+export const compareWodScores = (a: WodScore, b: WodScore): number => {
+  switch (a.type) {
+    case 'rounds_reps':
+      return (b.rounds ?? 0) - (a.rounds ?? 0) || (b.reps ?? 0) - (a.reps ?? 0);
+    case 'time':
+      if (!!a.capped !== !!b.capped) return a.capped ? 1 : -1;
+      if (a.capped) return (b.reps ?? 0) - (a.reps ?? 0);
+      return (a.time ?? 0) - (b.time ?? 0);
+    case 'minutes':
+      return (b.minutes ?? 0) - (a.minutes ?? 0);
+    case 'intervals':
+      return getIntervalLow(b.intervals ?? []) - getIntervalLow(a.intervals ?? [])
+        || getIntervalTotal(b.intervals ?? []) - getIntervalTotal(a.intervals ?? []);
+  }
+};
+
+/**
+ * Orders two attempts at the same workout, negative when `a` is better.
+ * Scaling is compared first so a scaled score never beats an Rx one.
+ */
+export const compareWodAttempts = (a: WOD, b: WOD): number => {
+  const scaling = getScalingRank(a.scaling) - getScalingRank(b.scaling);
+  if (scaling !== 0) return scaling;
+  if (!a.score || !b.score) return a.score ? -1 : b.score ? 1 : 0;
+  return compareWodScores(a.score, b.score);
+};
+
+export const isWodScoreComplete = (score: WodScore): boolean => {
+  switch (score.type) {
+    case 'rounds_reps':
+      return score.rounds !== undefined || score.reps !== undefined;
+    case 'time':
+      return score.capped ? score.reps !== undefined : score.time !== undefined;
+    case 'minutes':
+      return score.minutes !== undefined;
+    case 'intervals':
+      return (score.intervals ?? []).length > 0;
+  }
+};
+
+// Best-effort reading of free-text results logged before scores were
+// structured: "5+12", "5 rounds + 12 reps" and "12:34" are recognised.
+export const parseLegacyResult = (result: string | undefined): WodScore | undefined => {
+  if (!result) return undefined;
+  const text = result.trim().toLowerCase();
+
+  const roundsReps = text.match(/^(\d+)\s*(?:rounds?|rds?)?\s*\+\s*(\d+)\s*(?:reps?)?$/);
+  if (roundsReps) {
+    return { type: 'rounds_reps', rounds: Number(roundsReps[1]), reps: Number(roundsReps[2]) };
+  }
+
+  const rounds = text.match(/^(\d+)\s*(?:rounds?|rds?)$/);
+  if (rounds) {
+    return { type: 'rounds_reps', rounds: Number(rounds[1]), reps: 0 };
+  }
+
+  if (/^\d+:\d{2}$/.test(text)) {
+    return { type: 'time', time: parseClock(text) };
+  }
+
+  return undefined;
+};
@@ -0,0 +1,452 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { StyleSheet, View, ScrollView, TouchableOpacity, Platform, Dimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useColorScheme } from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { LineChart } from 'react-native-chart-kit';
+import { Ionicons } from '@expo/vector-icons';
+import { differenceInCalendarWeeks, format } from 'date-fns';
+import { ThemedText } from '../components/ThemedText';
+import { ThemedView } from '../components/ThemedView';
+import Colors from '../constants/Colors';
+import { useSettings } from '../contexts/SettingsContext';
+import { CatalogExercise, Exercise, getAllLogs, getExerciseCatalog } from './utils/db';
+import { fromKg, weightUnit } from './utils/units';
+import { getLogDate } from './utils/dates';
+import {
+  VOLUME_PERIODS,
+  VolumePeriod,
+  getExerciseVolumes,
+  getMuscleSets,
+  getPeriodStart,
+  getSessionVolumes,
+  getVolumeTrend,
+  getWeeklyVolumes,
+} from './utils/volume';
+
+// chart-kit draws every label, so long ranges only keep about six of them
+const MAX_CHART_LABELS = 6;
+const MAX_EXERCISES = 10;
+
+export default function VolumeScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const screenWidth = Dimensions.get('window').width;
+  const [entries, setEntries] = useState<Exercise[]>([]);
+  const [catalog, setCatalog] = useState<CatalogExercise[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [period, setPeriod] = useState<VolumePeriod>('12w');
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [allLogs, exercises] = await Promise.all([getAllLogs(), getExerciseCatalog()]);
+      setEntries(allLogs.filter((log): log is Exercise => log.type === 'exercise'));
+      setCatalog(exercises);
+    } catch (error) {
+      console.error('Error loading volume data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries();
+    }, [loadEntries])
+  );
+
+  const since = useMemo(() => getPeriodStart(period, entries), [period, entries]);
+  const periodEntries = useMemo(
+    () => entries.filter(entry => getLogDate(entry) >= since),
+    [entries, since]
+  );
+  const weeks = useMemo(() => getWeeklyVolumes(entries, since), [entries, since]);
+  const sessions = useMemo(() => getSessionVolumes(periodEntries), [periodEntries]);
+  const exercises = useMemo(() => getExerciseVolumes(periodEntries), [periodEntries]);
+  const muscles = useMemo(
+    () => getMuscleSets(periodEntries, catalog, differenceInCalendarWeeks(new Date(), since, { weekStartsOn: 1 }) + 1),
+    [periodEntries, catalog, since]
+  );
+  // The trend always looks back from this week, whatever the period
+  const trend = useMemo(() => getVolumeTrend(getWeeklyVolumes(entries, getPeriodStart('12w', entries))), [entries]);
+
+  const unit = weightUnit(settings.useMetric);
+  const formatVolume = (kg: number) => `${Math.round(fromKg(kg, settings.useMetric)).toLocaleString()}${unit}`;
+  const toChartValue = (kg: number) => Math.round(fromKg(kg, settings.useMetric));
+  const thinLabels = (labels: string[]) => {
+    const step = Math.ceil(labels.length / MAX_CHART_LABELS);
+    return labels.map((label, index) => (index % step === 0 ? label : ''));
+  };
+
+  const chartConfig = {
+    backgroundGradientFrom: colors.cardBackground,
+    backgroundGradientTo: colors.cardBackground,
+    color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+    labelColor: (opacity = 1) => colors.text + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+    strokeWidth: 2,
+    propsForLabels: { fontSize: 12 },
+    // Tonnage runs into the tens of thousands
+    formatYLabel: (value: string) => {
+      const number = Number(value);
+      return number >= 1000 ? `${Math.round(number / 100) / 10}k` : String(Math.round(number));
+    },
+  };
+
+  const renderStat = (label: string, value: string) => (
+    <View key={label} style={[styles.statItem, { backgroundColor: colors.primary + '10' }]}>
+      <ThemedText style={styles.statValue}>{value}</ThemedText>
+      <ThemedText style={styles.statLabel}>{label}</ThemedText>
+    </View>
+  );
+
+  const renderSummary = () => {
+    const total = weeks.reduce((sum, week) => sum + week.volume, 0);
+    const totalSets = weeks.reduce((sum, week) => sum + week.sets, 0);
+
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>Summary</ThemedText>
+        <View style={styles.statsGrid}>
+          {renderStat('Total tonnage', formatVolume(total))}
+          {renderStat('Per week', formatVolume(weeks.length > 0 ? total / weeks.length : 0))}
+          {renderStat('Per session', formatVolume(sessions.length > 0 ? total / sessions.length : 0))}
+          {renderStat('Sessions', String(sessions.length))}
+          {renderStat('Working sets', String(totalSets))}
+        </View>
+        {trend && (
+          <View style={[
+            styles.trendRow,
+            { backgroundColor: (trend.status === 'steady' ? colors.primary : colors.accent) + '15' }
+          ]}>
+            <Ionicons
+              name={trend.status === 'spike' ? 'trending-up' : trend.status === 'deload' ? 'trending-down' : 'remove'}
+              size={18}
+              color={trend.status === 'steady' ? colors.primary : colors.accent}
+            />
+            <ThemedText style={styles.trendText}>
+              {`Last week ${formatVolume(trend.current)} vs ${formatVolume(trend.baseline)} average` +
+                (trend.status === 'spike' ? ' · big jump, watch recovery' : trend.status === 'deload' ? ' · deload week' : '')}
+            </ThemedText>
+          </View>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderChart = (title: string, labels: string[], data: number[]) => (
+    <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+      <ThemedText style={styles.cardTitle}>{title}</ThemedText>
+      {data.some(value => value > 0) ? (
+        <View style={styles.chartWrapper}>
+          <LineChart
+            data={{
+              labels: thinLabels(labels),
+              datasets: [{
+                data,
+                color: (opacity = 1) => colors.primary + Math.round(opacity * 255).toString(16).padStart(2, '0'),
+                strokeWidth: 3,
+              }],
+            }}
+            width={screenWidth - 48}
+            height={220}
+            chartConfig={chartConfig}
+            style={styles.chart}
+            withDots={data.length <= 30}
+            withInnerLines={false}
+            withOuterLines={false}
+            withShadow={false}
+            yAxisLabel=""
+            yAxisSuffix=""
+            fromZero
+          />
+          <ThemedText style={styles.chartLabel}>{unit}</ThemedText>
+        </View>
+      ) : (
+        <ThemedText style={styles.emptyText}>No weighted sets in this range</ThemedText>
+      )}
+    </ThemedView>
+  );
+
+  const renderMuscles = () => {
+    const most = Math.max(...muscles.map(muscle => muscle.perWeek), 1);
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>Weekly Sets per Muscle</ThemedText>
+        {muscles.length > 0 ? muscles.map(muscle => (
+          <View key={muscle.muscle} style={styles.barRow}>
+            <ThemedText style={styles.barLabel}>{muscle.muscle}</ThemedText>
+            <View style={styles.barTrack}>
+              <View style={[styles.barFill, { backgroundColor: colors.primary, width: `${(muscle.perWeek / most) * 100}%` }]} />
+            </View>
+            <ThemedText style={styles.barValue}>{muscle.perWeek}</ThemedText>
+          </View>
+        )) : (
+          <ThemedText style={styles.emptyText}>No sets in this range</ThemedText>
+        )}
+        {muscles.length > 0 && (
+          <ThemedText style={styles.cardFootnote}>
+            Average completed sets per week, counted for each primary muscle
+          </ThemedText>
+        )}
+      </ThemedView>
+    );
+  };
+
+  const renderExercises = () => {
+    const top = exercises.slice(0, MAX_EXERCISES);
+    const most = top[0]?.volume || 1;
+    return (
+      <ThemedView style={[styles.card, { backgroundColor: colors.cardBackground }]}>
+        <ThemedText style={styles.cardTitle}>By Exercise</ThemedText>
+        {top.map(exercise => (
+          <TouchableOpacity
+            key={exercise.name}
+            style={styles.exerciseRow}
+            onPress={() => router.push({ pathname: '/exercise/[name]', params: { name: exercise.name } })}
+            activeOpacity={0.7}
+          >
+            <View style={styles.exerciseInfo}>
+              <View style={styles.exerciseHeader}>
+                <ThemedText style={styles.exerciseName} numberOfLines={1}>{exercise.name}</ThemedText>
+                <ThemedText style={styles.exerciseVolume}>{formatVolume(exercise.volume)}</ThemedText>
+              </View>
+              <View style={styles.barTrack}>
+                <View style={[styles.barFill, { backgroundColor: colors.accent, width: `${(exercise.volume / most) * 100}%` }]} />
+              </View>
+              <ThemedText style={styles.exerciseMeta}>
+                {`${exercise.sessions} ${exercise.sessions === 1 ? 'session' : 'sessions'} · ${exercise.sets} sets`}
+              </ThemedText>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={colors.tabIconDefault} />
+          </TouchableOpacity>
+        ))}
+      </ThemedView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <Ionicons name="chevron-back" size={28} color={colors.primary} />
+        </TouchableOpacity>
+        <ThemedText style={styles.title}>Training Volume</ThemedText>
+      </View>
+
+      {!isLoading && (
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <View style={[styles.chipRow, styles.periodRow]}>
+            {VOLUME_PERIODS.map(option => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.chip, period === option.id && { backgroundColor: colors.primary + '20' }]}
+                onPress={() => setPeriod(option.id)}
+              >
+                <ThemedText style={[styles.chipText, period === option.id && { color: colors.primary }]}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {renderSummary()}
+          {renderChart(
+            'Weekly Tonnage',
+            weeks.map(week => format(week.weekStart, 'MMM d')),
+            weeks.map(week => toChartValue(week.volume))
+          )}
+          {renderChart(
+            'Session Tonnage',
+            sessions.map(session => format(session.date, 'MMM d')),
+            sessions.map(session => toChartValue(session.volume))
+          )}
+          {renderMuscles()}
+          {exercises.length > 0 && renderExercises()}
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  card: {
+    margin: 20,
+    marginTop: 0,
+    padding: 16,
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  cardFootnote: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 12,
+  },
+  statsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  statItem: {
+    width: '30%',
+    flexGrow: 1,
+    padding: 12,
+    borderRadius: 12,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  trendText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  periodRow: {
+    paddingHorizontal: 20,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  chartWrapper: {
+    alignItems: 'center',
+    marginHorizontal: -8,
+  },
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16,
+  },
+  chartLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 10,
+  },
+  barLabel: {
+    width: 96,
+    fontSize: 14,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(128,128,128,0.15)',
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: 8,
+    borderRadius: 4,
+  },
+  barValue: {
+    width: 36,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  exerciseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  exerciseInfo: {
+    flex: 1,
+    gap: 6,
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  exerciseName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  exerciseVolume: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  exerciseMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  bottomSpacer: {
+    height: 100,
+  },
+});
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Keyboard, TextInputProps, Platform } from 'react-native';
+import { useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import { FloatingLabelInput } from './FloatingLabelInput';
+import { CatalogExercise } from '../app/utils/db';
+import { normalizeExerciseName, searchCatalog } from '../app/utils/exercises';
+
+interface ExerciseAutocompleteProps {
+  label: string;
+  value: string;
+  catalog: CatalogExercise[];
+  onChangeText: (text: string) => void;
+  onSelect: (exercise: CatalogExercise) => void;
+  style?: TextInputProps['style'];
+  onFocus?: () => void;
+  onBlur?: () => void;
+}
+
+export function ExerciseAutocomplete({
+  label,
+  value,
+  catalog,
+  onChangeText,
+  onSelect,
+  style,
+  onFocus,
+  onBlur,
+}: ExerciseAutocompleteProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [isFocused, setIsFocused] = useState(false);
+
+  const suggestions = useMemo(() => {
+    const matches = searchCatalog(catalog, value);
+    // Nothing left to suggest once the field holds a canonical name
+    if (matches.length === 1 && normalizeExerciseName(matches[0].name) === normalizeExerciseName(value)) {
+      return [];
+    }
+    return matches;
+  }, [catalog, value]);
+
+  const handleSelect = (exercise: CatalogExercise) => {
+    onSelect(exercise);
+    Keyboard.dismiss();
+  };
+
+  const matchedAlias = (exercise: CatalogExercise) => {
+    const query = normalizeExerciseName(value);
+    if (normalizeExerciseName(exercise.name).includes(query)) return null;
+    return exercise.aliases.find(alias => normalizeExerciseName(alias).includes(query)) || null;
+  };
+
+  return (
+    <View>
+      <FloatingLabelInput
+        label={label}
+        style={style}
+        value={value}
+        onChangeText={onChangeText}
+        placeholderTextColor={colors.tabIconDefault}
+        autoCorrect={false}
+        onFocus={() => {
+          setIsFocused(true);
+          onFocus?.();
+        }}
+        onBlur={() => {
+          setIsFocused(false);
+          onBlur?.();
+        }}
+      />
+
+      {isFocused && suggestions.length > 0 && (
+        <View style={[styles.suggestions, { backgroundColor: colors.cardBackground }]}>
+          {suggestions.map(exercise => {
+            const alias = matchedAlias(exercise);
+            return (
+              <TouchableOpacity
+                key={exercise.id}
+                style={styles.suggestion}
+                onPress={() => handleSelect(exercise)}
+              >
+                <View style={styles.suggestionInfo}>
+                  <ThemedText style={styles.suggestionName}>{exercise.name}</ThemedText>
+                  <ThemedText style={styles.suggestionMeta}>
+                    {alias ? `"${alias}" · ${exercise.category}` : exercise.category}
+                  </ThemedText>
+                </View>
+                <Ionicons name="arrow-up-outline" size={18} color={colors.tabIconDefault} style={styles.suggestionIcon} />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  suggestions: {
+    borderRadius: 12,
+    marginTop: -8,
+    overflow: 'hidden',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.2)',
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionName: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  suggestionMeta: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  suggestionIcon: {
+    transform: [{ rotate: '-45deg' }],
+  },
+});
@@ -0,0 +1,99 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { useColorScheme } from 'react-native';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import { PlateInventory, WeightUnit, getPlateLoad } from '../app/utils/plates';
+import { fromKg, weightUnit } from '../app/utils/units';
+
+interface PlateBreakdownProps {
+  // Target in kg, as stored
+  weight: number;
+  useMetric: boolean;
+  inventory: Record<WeightUnit, PlateInventory>;
+}
+
+const formatPlate = (weight: number) => String(Math.round(weight * 100) / 100);
+
+export function PlateBreakdown({ weight, useMetric, inventory }: PlateBreakdownProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const unit = weightUnit(useMetric);
+  const unitInventory = inventory[unit];
+  const target = Math.round(fromKg(weight, useMetric) * 100) / 100;
+  const load = getPlateLoad(target, unitInventory);
+  const heaviest = Math.max(...unitInventory.plates.map(plate => plate.weight), 1);
+
+  return (
+    <View>
+      <View style={styles.bar}>
+        <View style={[styles.sleeve, { backgroundColor: colors.tabIconDefault }]} />
+        {load.perSide.map((plate, index) => (
+          <View
+            key={index}
+            style={[
+              styles.plate,
+              { backgroundColor: colors.primary, height: 24 + 40 * (plate / heaviest) }
+            ]}
+          >
+            <ThemedText style={styles.plateText}>{formatPlate(plate)}</ThemedText>
+          </View>
+        ))}
+        <View style={[styles.sleeveEnd, { backgroundColor: colors.tabIconDefault }]} />
+      </View>
+
+      <ThemedText style={styles.summary}>
+        {load.perSide.length > 0
+          ? `Per side: ${load.perSide.map(formatPlate).join(' + ')}`
+          : 'Empty bar'}
+        {`  ·  ${formatPlate(unitInventory.bar)}${unit} bar`}
+      </ThemedText>
+      {!load.exact && (
+        <ThemedText style={[styles.nearest, { color: colors.primary }]}>
+          Nearest loadable: {formatPlate(load.total)}{unit} (target {formatPlate(target)}{unit})
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 68,
+    gap: 2,
+  },
+  sleeve: {
+    width: 40,
+    height: 8,
+    borderRadius: 2,
+  },
+  sleeveEnd: {
+    flex: 1,
+    height: 8,
+    borderRadius: 2,
+    maxWidth: 24,
+  },
+  plate: {
+    minWidth: 26,
+    paddingHorizontal: 2,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  plateText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  summary: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  nearest: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+});
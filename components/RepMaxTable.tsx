@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { useColorScheme } from 'react-native';
+import { format } from 'date-fns';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import { RepMaxEntry } from '../app/utils/oneRepMax';
+import { formatWeight } from '../app/utils/units';
+
+interface RepMaxTableProps {
+  entries: RepMaxEntry[];
+  useMetric: boolean;
+}
+
+export function RepMaxTable({ entries, useMetric }: RepMaxTableProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <ThemedText style={[styles.headerText, styles.repsColumn]}>RM</ThemedText>
+        <ThemedText style={[styles.headerText, styles.valueColumn]}>Actual</ThemedText>
+        <ThemedText style={[styles.headerText, styles.valueColumn]}>Estimated</ThemedText>
+      </View>
+
+      {entries.map(entry => (
+        <View key={entry.reps} style={styles.row}>
+          <ThemedText style={[styles.repsText, styles.repsColumn]}>{entry.reps}RM</ThemedText>
+
+          <View style={styles.valueColumn}>
+            {entry.actual ? (
+              <>
+                <ThemedText style={styles.actualText}>{formatWeight(entry.actual.weight, useMetric)}</ThemedText>
+                <ThemedText style={styles.metaText}>
+                  {entry.actual.reps > entry.reps
+                    ? `${entry.actual.reps} reps · ${format(entry.actual.date, 'MMM d, yyyy')}`
+                    : format(entry.actual.date, 'MMM d, yyyy')}
+                </ThemedText>
+              </>
+            ) : (
+              <ThemedText style={styles.emptyText}>—</ThemedText>
+            )}
+          </View>
+
+          <View style={styles.valueColumn}>
+            {entry.estimated !== undefined ? (
+              <ThemedText style={[
+                styles.estimatedText,
+                !entry.actual && { color: colors.primary, opacity: 1 }
+              ]}>
+                {formatWeight(entry.estimated, useMetric)}
+              </ThemedText>
+            ) : (
+              <ThemedText style={styles.emptyText}>—</ThemedText>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <ThemedText style={styles.footnote}>
+        Actual counts any set with at least that many reps. Estimates come from your best e1RM.
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    paddingBottom: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.3)',
+  },
+  headerText: {
+    fontSize: 13,
+    fontWeight: '600',
+    opacity: 0.6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: Platform.OS === 'ios' ? 0.33 : 0.5,
+    borderBottomColor: 'rgba(128,128,128,0.15)',
+  },
+  repsColumn: {
+    width: 56,
+  },
+  valueColumn: {
+    flex: 1,
+  },
+  repsText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actualText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  estimatedText: {
+    fontSize: 16,
+    fontStyle: 'italic',
+    opacity: 0.6,
+  },
+  metaText: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 16,
+    opacity: 0.4,
+  },
+  footnote: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 12,
+  },
+});
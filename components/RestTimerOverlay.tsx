@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import Animated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import { useRestTimer } from '../contexts/RestTimerContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { REST_ADJUST_STEP } from '../app/utils/restTimer';
+import { formatClock } from '../app/utils/wodResults';
+
+// Mini countdown that floats above the tab bar on every screen while resting
+export function RestTimerOverlay() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { settings } = useSettings();
+  const { timer, remaining, adjustRestTimer, stopRestTimer } = useRestTimer();
+
+  if (!timer || !settings.showRestTimer) return null;
+
+  const progress = timer.duration > 0 ? Math.min(1, remaining / timer.duration) : 0;
+
+  return (
+    <Animated.View
+      entering={FadeInDown.duration(200)}
+      exiting={FadeOutDown.duration(200)}
+      style={[styles.container, { backgroundColor: colors.cardBackground }]}
+    >
+      <View style={styles.row}>
+        <Ionicons name="hourglass-outline" size={20} color={colors.primary} />
+        <View style={styles.info}>
+          <ThemedText style={styles.label} numberOfLines={1}>Rest · {timer.exercise}</ThemedText>
+          <ThemedText style={[styles.time, { color: colors.primary }]}>{formatClock(remaining)}</ThemedText>
+        </View>
+        <TouchableOpacity
+          style={styles.adjustButton}
+          onPress={() => adjustRestTimer(-REST_ADJUST_STEP)}
+          hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+        >
+          <ThemedText style={[styles.adjustText, { color: colors.primary }]}>-{REST_ADJUST_STEP}s</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.adjustButton}
+          onPress={() => adjustRestTimer(REST_ADJUST_STEP)}
+          hitSlop={{ top: 8, bottom: 8, left: 4, right: 4 }}
+        >
+          <ThemedText style={[styles.adjustText, { color: colors.primary }]}>+{REST_ADJUST_STEP}s</ThemedText>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={stopRestTimer} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="close" size={22} color={colors.tabIconDefault} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.track}>
+        <View style={[styles.fill, { backgroundColor: colors.primary, width: `${progress * 100}%` }]} />
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    // Clears the floating tab bar
+    bottom: 100,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingTop: 10,
+    paddingBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 4 },
+        shadowOpacity: 0.15,
+        shadowRadius: 12,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  time: {
+    fontSize: 22,
+    fontWeight: '700',
+    lineHeight: 28,
+    fontVariant: ['tabular-nums'],
+  },
+  adjustButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  adjustText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    marginTop: 10,
+    backgroundColor: 'rgba(128,128,128,0.2)',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+  },
+});
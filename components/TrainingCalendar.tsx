@@ -0,0 +1,340 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { addMonths, format, isSameMonth, isToday, startOfMonth, subMonths } from 'date-fns';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import type { WorkoutLog } from '../app/utils/db';
+import {
+  CalendarMetric,
+  HEAT_LEVELS,
+  getDailyTotals,
+  getFirstLogDate,
+  getHeatLevel,
+  getMonthWeeks,
+  getYearWeeks,
+} from '../app/utils/calendar';
+import { fromKg, weightUnit } from '../app/utils/units';
+import { getDayKey } from '../app/utils/dates';
+
+type CalendarView = 'year' | 'month';
+
+interface TrainingCalendarProps {
+  logs: WorkoutLog[];
+  useMetric: boolean;
+  // Called with a yyyy-MM-dd key for days that have entries
+  onSelectDay: (day: string) => void;
+}
+
+const WEEKDAY_LABELS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+
+// Year heatmap and month calendar, shaded by workouts or tonnage per day
+export function TrainingCalendar({ logs, useMetric, onSelectDay }: TrainingCalendarProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [view, setView] = useState<CalendarView>('year');
+  const [metric, setMetric] = useState<CalendarMetric>('workouts');
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const yearScrollRef = useRef<ScrollView>(null);
+
+  const totals = useMemo(() => getDailyTotals(logs), [logs]);
+  const firstDate = useMemo(() => getFirstLogDate(logs) ?? new Date(), [logs]);
+  const weeks = useMemo(
+    () => (view === 'year' ? getYearWeeks(year) : getMonthWeeks(month)),
+    [view, year, month]
+  );
+
+  const getValue = (day: Date) => {
+    const total = totals.get(getDayKey(day));
+    if (!total) return 0;
+    return metric === 'workouts' ? total.workouts : total.volume;
+  };
+  const max = Math.max(0, ...weeks.flat().map(day => (day ? getValue(day) : 0)));
+
+  const getCellColor = (level: number) =>
+    level === 0 ? 'rgba(128,128,128,0.15)' : colors.primary + ['40', '70', 'A0', 'FF'][level - 1];
+
+  const now = new Date();
+  const canGoBack = view === 'year' ? year > firstDate.getFullYear() : month > startOfMonth(firstDate);
+  const canGoForward = view === 'year' ? year < now.getFullYear() : !isSameMonth(month, now);
+
+  const page = (direction: 1 | -1) => {
+    if (view === 'year') {
+      setYear(current => current + direction);
+    } else {
+      setMonth(current => (direction > 0 ? addMonths(current, 1) : subMonths(current, 1)));
+    }
+  };
+
+  const formatTotal = (day: Date) => {
+    const total = totals.get(getDayKey(day));
+    if (!total) return 'Rest day';
+    const workouts = `${total.workouts} ${total.workouts === 1 ? 'entry' : 'entries'}`;
+    return total.volume > 0
+      ? `${workouts} · ${Math.round(fromKg(total.volume, useMetric)).toLocaleString()}${weightUnit(useMetric)}`
+      : workouts;
+  };
+
+  const renderChip = <T extends string>(value: T, selected: T, label: string, onPress: (value: T) => void) => (
+    <TouchableOpacity
+      key={value}
+      style={[styles.chip, selected === value && { backgroundColor: colors.primary + '20' }]}
+      onPress={() => onPress(value)}
+    >
+      <ThemedText style={[styles.chipText, selected === value && { color: colors.primary }]}>{label}</ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderYear = () => (
+    <View style={styles.yearRow}>
+      <View style={styles.weekdayColumn}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <ThemedText key={index} style={styles.weekdayLabel}>{index % 2 === 0 ? label : ''}</ThemedText>
+        ))}
+      </View>
+      <ScrollView
+        ref={yearScrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        // The current year opens on recent weeks
+        onContentSizeChange={() => {
+          if (year === now.getFullYear()) yearScrollRef.current?.scrollToEnd({ animated: false });
+        }}
+      >
+        <View>
+          <View style={styles.monthLabels}>
+            {weeks.map((week, index) => {
+              const firstOfMonth = week.find(day => day?.getDate() === 1);
+              return (
+                <View key={index} style={styles.monthLabelSlot}>
+                  {(firstOfMonth || index === 0) && (
+                    <ThemedText style={styles.monthLabel} numberOfLines={1}>
+                      {format(firstOfMonth ?? week.find(day => day) ?? new Date(year, 0, 1), 'MMM')}
+                    </ThemedText>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+          <View style={styles.yearGrid}>
+            {weeks.map((week, weekIndex) => (
+              <View key={weekIndex} style={styles.yearColumn}>
+                {week.map((day, dayIndex) => {
+                  if (!day) return <View key={dayIndex} style={styles.yearCell} />;
+                  const level = getHeatLevel(getValue(day), max);
+                  return (
+                    <TouchableOpacity
+                      key={dayIndex}
+                      disabled={level === 0}
+                      onPress={() => onSelectDay(getDayKey(day))}
+                      hitSlop={{ top: 2, bottom: 2, left: 2, right: 2 }}
+                      style={[
+                        styles.yearCell,
+                        { backgroundColor: getCellColor(level) },
+                        isToday(day) && { borderWidth: 1, borderColor: colors.text },
+                      ]}
+                    />
+                  );
+                })}
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+
+  const renderMonth = () => (
+    <View>
+      <View style={styles.monthWeek}>
+        {WEEKDAY_LABELS.map((label, index) => (
+          <ThemedText key={index} style={[styles.monthDay, styles.monthHeading]}>{label}</ThemedText>
+        ))}
+      </View>
+      {weeks.map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.monthWeek}>
+          {week.map((day, dayIndex) => {
+            if (!day) return <View key={dayIndex} style={styles.monthDay} />;
+            const level = getHeatLevel(getValue(day), max);
+            return (
+              <TouchableOpacity
+                key={dayIndex}
+                disabled={level === 0}
+                onPress={() => onSelectDay(getDayKey(day))}
+                accessibilityLabel={`${format(day, 'MMMM d')}: ${formatTotal(day)}`}
+                style={[
+                  styles.monthDay,
+                  styles.monthCell,
+                  { backgroundColor: getCellColor(level) },
+                  isToday(day) && { borderWidth: 2, borderColor: colors.primary },
+                ]}
+              >
+                <ThemedText style={[styles.monthDate, level >= 3 && { color: '#FFFFFF' }]}>
+                  {day.getDate()}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.controls}>
+        <View style={styles.chipRow}>
+          {renderChip<CalendarView>('year', view, 'Year', setView)}
+          {renderChip<CalendarView>('month', view, 'Month', setView)}
+        </View>
+        <View style={styles.chipRow}>
+          {renderChip<CalendarMetric>('workouts', metric, 'Workouts', setMetric)}
+          {renderChip<CalendarMetric>('volume', metric, 'Volume', setMetric)}
+        </View>
+      </View>
+
+      <View style={styles.pager}>
+        <TouchableOpacity disabled={!canGoBack} onPress={() => page(-1)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="chevron-back" size={20} color={canGoBack ? colors.primary : colors.tabIconDefault} />
+        </TouchableOpacity>
+        <ThemedText style={styles.pagerTitle}>
+          {view === 'year' ? String(year) : format(month, 'MMMM yyyy')}
+        </ThemedText>
+        <TouchableOpacity disabled={!canGoForward} onPress={() => page(1)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="chevron-forward" size={20} color={canGoForward ? colors.primary : colors.tabIconDefault} />
+        </TouchableOpacity>
+      </View>
+
+      {view === 'year' ? renderYear() : renderMonth()}
+
+      <View style={styles.legend}>
+        <ThemedText style={styles.legendText}>Less</ThemedText>
+        {Array.from({ length: HEAT_LEVELS + 1 }, (_, level) => (
+          <View key={level} style={[styles.legendCell, { backgroundColor: getCellColor(level) }]} />
+        ))}
+        <ThemedText style={styles.legendText}>More</ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 14,
+    backgroundColor: 'rgba(128,128,128,0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  pagerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  yearRow: {
+    flexDirection: 'row',
+  },
+  weekdayColumn: {
+    // Lines the labels up with the grid under the month row
+    marginTop: 16,
+    marginRight: 4,
+    gap: CELL_GAP,
+  },
+  weekdayLabel: {
+    fontSize: 9,
+    lineHeight: CELL_SIZE,
+    height: CELL_SIZE,
+    opacity: 0.6,
+  },
+  monthLabels: {
+    flexDirection: 'row',
+    gap: CELL_GAP,
+    height: 16,
+  },
+  monthLabelSlot: {
+    width: CELL_SIZE,
+    overflow: 'visible',
+  },
+  monthLabel: {
+    fontSize: 10,
+    lineHeight: 12,
+    width: 30,
+    opacity: 0.6,
+  },
+  yearGrid: {
+    flexDirection: 'row',
+    gap: CELL_GAP,
+  },
+  yearColumn: {
+    gap: CELL_GAP,
+  },
+  yearCell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 2,
+  },
+  monthWeek: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 4,
+  },
+  monthDay: {
+    flex: 1,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthHeading: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: 'center',
+    aspectRatio: undefined,
+  },
+  monthCell: {
+    borderRadius: 8,
+  },
+  monthDate: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 12,
+  },
+  legendCell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: 2,
+  },
+  legendText: {
+    fontSize: 11,
+    opacity: 0.6,
+    marginHorizontal: 2,
+  },
+});
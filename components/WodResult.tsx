@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { useColorScheme } from 'react-native';
+import Colors from '../constants/Colors';
+import { ThemedText } from './ThemedText';
+import { WodScore } from '../app/utils/db';
+import { formatClock, getIntervalLow, getIntervalTotal } from '../app/utils/wodResults';
+
+interface WodResultProps {
+  score?: WodScore;
+  // Free-text result, shown when the WOD has no structured score
+  result?: string;
+}
+
+export function WodResult({ score, result }: WodResultProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  if (!score) {
+    return result ? <ThemedText style={styles.resultText}>Result: {result}</ThemedText> : null;
+  }
+
+  const renderHeadline = (value: string, caption?: string) => (
+    <View style={styles.headline}>
+      <ThemedText style={[styles.value, { color: colors.primary }]}>{value}</ThemedText>
+      {caption && <ThemedText style={styles.caption}>{caption}</ThemedText>}
+    </View>
+  );
+
+  switch (score.type) {
+    case 'rounds_reps':
+      return renderHeadline(
+        `${score.rounds ?? 0} + ${score.reps ?? 0}`,
+        'rounds + reps'
+      );
+
+    case 'time': {
+      const cap = score.time_cap ? `cap ${formatClock(score.time_cap)}` : undefined;
+      if (score.capped) {
+        return (
+          <View style={styles.headline}>
+            <View style={[styles.cappedBadge, { backgroundColor: colors.accent }]}>
+              <ThemedText style={styles.cappedText}>CAPPED</ThemedText>
+            </View>
+            <ThemedText style={[styles.value, { color: colors.primary }]}>{score.reps ?? 0}</ThemedText>
+            <ThemedText style={styles.caption}>{cap ? `reps · ${cap}` : 'reps'}</ThemedText>
+          </View>
+        );
+      }
+      return renderHeadline(formatClock(score.time ?? 0), cap);
+    }
+
+    case 'minutes':
+      return renderHeadline(String(score.minutes ?? 0), score.minutes === 1 ? 'minute' : 'minutes');
+
+    case 'intervals': {
+      const intervals = score.intervals ?? [];
+      return (
+        <View>
+          <View style={styles.intervals}>
+            {intervals.map((reps, index) => (
+              <View key={index} style={[styles.interval, { backgroundColor: colors.primary + '15' }]}>
+                <ThemedText style={styles.intervalText}>{reps}</ThemedText>
+              </View>
+            ))}
+          </View>
+          <ThemedText style={styles.caption}>
+            {`Total ${getIntervalTotal(intervals)} · Low ${getIntervalLow(intervals)}`}
+          </ThemedText>
+        </View>
+      );
+    }
+  }
+}
+
+const styles = StyleSheet.create({
+  resultText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  headline: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 6,
+    marginTop: 4,
+  },
+  value: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  caption: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  cappedBadge: {
+    alignSelf: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+  },
+  cappedText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  intervals: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+    marginBottom: 4,
+  },
+  interval: {
+    minWidth: 32,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  intervalText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
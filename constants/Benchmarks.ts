@@ -0,0 +1,273 @@
+import type { WodScoreType } from '../app/utils/db';
+
+export const BENCHMARK_CATEGORIES = ['Girls', 'Heroes', 'Open'] as const;
+
+export type BenchmarkCategory = typeof BENCHMARK_CATEGORIES[number];
+
+export type Benchmark = {
+  // Stable key stored on logged WODs; never rename an id that has shipped
+  id: string;
+  name: string;
+  category: BenchmarkCategory;
+  wod_format: string;
+  score_type: WodScoreType;
+  description: string;
+  // Prescribed loads, men's/women's
+  rx_weights?: string[];
+  // Seconds
+  time_cap?: number;
+};
+
+export const BENCHMARKS: Benchmark[] = [
+  // The Girls
+  {
+    id: 'fran',
+    name: 'Fran',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '21-15-9 reps for time of:\nThrusters\nPull-ups',
+    rx_weights: ['Thrusters 95/65 lb'],
+  },
+  {
+    id: 'grace',
+    name: 'Grace',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '30 clean and jerks for time',
+    rx_weights: ['Clean and jerk 135/95 lb'],
+  },
+  {
+    id: 'isabel',
+    name: 'Isabel',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '30 snatches for time',
+    rx_weights: ['Snatch 135/95 lb'],
+  },
+  {
+    id: 'diane',
+    name: 'Diane',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '21-15-9 reps for time of:\nDeadlifts\nHandstand push-ups',
+    rx_weights: ['Deadlift 225/155 lb'],
+  },
+  {
+    id: 'elizabeth',
+    name: 'Elizabeth',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '21-15-9 reps for time of:\nSquat cleans\nRing dips',
+    rx_weights: ['Squat clean 135/95 lb'],
+  },
+  {
+    id: 'helen',
+    name: 'Helen',
+    category: 'Girls',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '3 rounds for time of:\n400m run\n21 kettlebell swings\n12 pull-ups',
+    rx_weights: ['Kettlebell 53/35 lb'],
+  },
+  {
+    id: 'karen',
+    name: 'Karen',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '150 wall-ball shots for time',
+    rx_weights: ['Wall ball 20/14 lb'],
+  },
+  {
+    id: 'annie',
+    name: 'Annie',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '50-40-30-20-10 reps for time of:\nDouble-unders\nSit-ups',
+  },
+  {
+    id: 'jackie',
+    name: 'Jackie',
+    category: 'Girls',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: 'For time:\n1,000m row\n50 thrusters\n30 pull-ups',
+    rx_weights: ['Thrusters 45/35 lb'],
+  },
+  {
+    id: 'nancy',
+    name: 'Nancy',
+    category: 'Girls',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '5 rounds for time of:\n400m run\n15 overhead squats',
+    rx_weights: ['Overhead squat 95/65 lb'],
+  },
+  {
+    id: 'kelly',
+    name: 'Kelly',
+    category: 'Girls',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '5 rounds for time of:\n400m run\n30 box jumps\n30 wall-ball shots',
+    rx_weights: ['Box 24/20 in', 'Wall ball 20/14 lb'],
+  },
+  {
+    id: 'angie',
+    name: 'Angie',
+    category: 'Girls',
+    wod_format: 'Chipper',
+    score_type: 'time',
+    description: 'For time:\n100 pull-ups\n100 push-ups\n100 sit-ups\n100 air squats',
+  },
+  {
+    id: 'barbara',
+    name: 'Barbara',
+    category: 'Girls',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '5 rounds for time of:\n20 pull-ups\n30 push-ups\n40 sit-ups\n50 air squats\nRest 3 minutes between rounds',
+  },
+  {
+    id: 'cindy',
+    name: 'Cindy',
+    category: 'Girls',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 20 minutes:\n5 pull-ups\n10 push-ups\n15 air squats',
+  },
+  {
+    id: 'mary',
+    name: 'Mary',
+    category: 'Girls',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 20 minutes:\n5 handstand push-ups\n10 pistols\n15 pull-ups',
+  },
+  {
+    id: 'chelsea',
+    name: 'Chelsea',
+    category: 'Girls',
+    wod_format: 'EMOM',
+    score_type: 'minutes',
+    description: 'Every minute on the minute for 30 minutes:\n5 pull-ups\n10 push-ups\n15 air squats',
+  },
+
+  // Heroes
+  {
+    id: 'murph',
+    name: 'Murph',
+    category: 'Heroes',
+    wod_format: 'Chipper',
+    score_type: 'time',
+    description: 'For time:\n1-mile run\n100 pull-ups\n200 push-ups\n300 air squats\n1-mile run\nPartition the pull-ups, push-ups and squats as needed',
+    rx_weights: ['Vest 20/14 lb'],
+  },
+  {
+    id: 'dt',
+    name: 'DT',
+    category: 'Heroes',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '5 rounds for time of:\n12 deadlifts\n9 hang power cleans\n6 push jerks',
+    rx_weights: ['Barbell 155/105 lb'],
+  },
+  {
+    id: 'nate',
+    name: 'Nate',
+    category: 'Heroes',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 20 minutes:\n2 muscle-ups\n4 handstand push-ups\n8 kettlebell swings',
+    rx_weights: ['Kettlebell 70/53 lb'],
+  },
+  {
+    id: 'randy',
+    name: 'Randy',
+    category: 'Heroes',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '75 power snatches for time',
+    rx_weights: ['Power snatch 75/55 lb'],
+  },
+  {
+    id: 'michael',
+    name: 'Michael',
+    category: 'Heroes',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '3 rounds for time of:\n800m run\n50 back extensions\n50 sit-ups',
+  },
+  {
+    id: 'jt',
+    name: 'JT',
+    category: 'Heroes',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: '21-15-9 reps for time of:\nHandstand push-ups\nRing dips\nPush-ups',
+  },
+
+  // CrossFit Open
+  {
+    id: 'open-19-1',
+    name: 'Open 19.1',
+    category: 'Open',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 15 minutes:\n19 wall-ball shots\n19-calorie row',
+    rx_weights: ['Wall ball 20/14 lb'],
+  },
+  {
+    id: 'open-20-1',
+    name: 'Open 20.1',
+    category: 'Open',
+    wod_format: 'RFT',
+    score_type: 'time',
+    description: '10 rounds for time of:\n8 ground-to-overheads\n10 bar-facing burpees',
+    rx_weights: ['Barbell 95/65 lb'],
+    time_cap: 15 * 60,
+  },
+  {
+    id: 'open-21-1',
+    name: 'Open 21.1',
+    category: 'Open',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: 'For time:\n1 wall walk, 10 double-unders\n3 wall walks, 30 double-unders\n6 wall walks, 60 double-unders\n9 wall walks, 90 double-unders\n15 wall walks, 150 double-unders\n21 wall walks, 210 double-unders',
+    time_cap: 15 * 60,
+  },
+  {
+    id: 'open-22-1',
+    name: 'Open 22.1',
+    category: 'Open',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 15 minutes:\n3 wall walks\n12 dumbbell snatches\n15 box jump-overs',
+    rx_weights: ['Dumbbell 50/35 lb', 'Box 24/20 in'],
+  },
+  {
+    id: 'open-23-1',
+    name: 'Open 23.1',
+    category: 'Open',
+    wod_format: 'AMRAP',
+    score_type: 'rounds_reps',
+    description: 'AMRAP in 14 minutes:\n60-calorie row\n50 toes-to-bars\n40 wall-ball shots\n30 cleans\n20 muscle-ups',
+    rx_weights: ['Clean 135/95 lb', 'Wall ball 20/14 lb'],
+  },
+  {
+    id: 'open-24-1',
+    name: 'Open 24.1',
+    category: 'Open',
+    wod_format: 'For Time',
+    score_type: 'time',
+    description: 'For time:\n21 dumbbell snatches, arm 1\n21 lateral burpees over dumbbell\n21 dumbbell snatches, arm 2\n21 lateral burpees over dumbbell\n15-15-15-15\n9-9-9-9',
+    rx_weights: ['Dumbbell 50/35 lb'],
+    time_cap: 15 * 60,
+  },
+];
@@ -0,0 +1,20 @@
+export type MeasurementSite = 'neck' | 'chest' | 'waist' | 'hips' | 'arm' | 'thigh' | 'calf';
+
+// Circumferences offered on the check-in form, top to bottom
+export const MEASUREMENT_SITES: { id: MeasurementSite; label: string }[] = [
+  { id: 'neck', label: 'Neck' },
+  { id: 'chest', label: 'Chest' },
+  { id: 'waist', label: 'Waist' },
+  { id: 'hips', label: 'Hips' },
+  { id: 'arm', label: 'Upper Arm' },
+  { id: 'thigh', label: 'Thigh' },
+  { id: 'calf', label: 'Calf' },
+];
+
+export type BodyMetricKey = 'weight' | 'body_fat' | MeasurementSite;
+
+export const BODY_METRICS: { id: BodyMetricKey; label: string }[] = [
+  { id: 'weight', label: 'Bodyweight' },
+  { id: 'body_fat', label: 'Body Fat' },
+  ...MEASUREMENT_SITES,
+];
@@ -0,0 +1,91 @@
+export type MeasurementType = 'weight_reps' | 'time_only' | 'distance_time' | 'reps_only';
+
+export const MUSCLE_GROUPS = [
+  'Quads',
+  'Hamstrings',
+  'Glutes',
+  'Back',
+  'Chest',
+  'Shoulders',
+  'Triceps',
+  'Biceps',
+  'Core',
+  'Calves',
+  'Conditioning',
+] as const;
+
+export type MuscleGroup = typeof MUSCLE_GROUPS[number];
+
+export const EXERCISE_CATEGORIES = [
+  'Squat',
+  'Hinge',
+  'Press',
+  'Pull',
+  'Olympic Lifting',
+  'Gymnastics',
+  'Kettlebell',
+  'Cardio',
+  'Core',
+  'Custom',
+] as const;
+
+export type ExerciseCategory = typeof EXERCISE_CATEGORIES[number];
+
+export type ExerciseSeed = {
+  name: string;
+  aliases: string[];
+  category: ExerciseCategory;
+  measurement_type: MeasurementType;
+  primary_muscles: MuscleGroup[];
+};
+
+/**
+ * Movements seeded into the exercises table by migration 3.
+ * Adding entries here does not reach existing installs; ship a new migration for that.
+ */
+export const EXERCISE_CATALOG_SEED: ExerciseSeed[] = [
+  { name: 'Back Squat', aliases: ['BS', 'Squat', 'Back Squats'], category: 'Squat', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes'] },
+  { name: 'Front Squat', aliases: ['FS', 'Front Squats'], category: 'Squat', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes', 'Core'] },
+  { name: 'Overhead Squat', aliases: ['OHS', 'Overhead Squats'], category: 'Squat', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Shoulders', 'Core'] },
+  { name: 'Walking Lunge', aliases: ['Lunge', 'Lunges', 'Walking Lunges'], category: 'Squat', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes'] },
+  { name: 'Deadlift', aliases: ['DL', 'Deadlifts', 'Conventional Deadlift'], category: 'Hinge', measurement_type: 'weight_reps', primary_muscles: ['Hamstrings', 'Glutes', 'Back'] },
+  { name: 'Sumo Deadlift', aliases: ['SDL', 'Sumo DL'], category: 'Hinge', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Quads', 'Back'] },
+  { name: 'Romanian Deadlift', aliases: ['RDL', 'RDLs'], category: 'Hinge', measurement_type: 'weight_reps', primary_muscles: ['Hamstrings', 'Glutes'] },
+  { name: 'Hip Thrust', aliases: ['Hip Thrusts', 'Barbell Hip Thrust'], category: 'Hinge', measurement_type: 'weight_reps', primary_muscles: ['Glutes'] },
+  { name: 'Bench Press', aliases: ['Bench', 'BP', 'Barbell Bench Press'], category: 'Press', measurement_type: 'weight_reps', primary_muscles: ['Chest', 'Triceps', 'Shoulders'] },
+  { name: 'Strict Press', aliases: ['Shoulder Press', 'Overhead Press', 'OHP', 'Military Press', 'Press'], category: 'Press', measurement_type: 'weight_reps', primary_muscles: ['Shoulders', 'Triceps'] },
+  { name: 'Push Press', aliases: ['PP'], category: 'Press', measurement_type: 'weight_reps', primary_muscles: ['Shoulders', 'Triceps', 'Quads'] },
+  { name: 'Push Jerk', aliases: ['PJ'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Shoulders', 'Triceps', 'Quads'] },
+  { name: 'Split Jerk', aliases: ['Jerk'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Shoulders', 'Triceps', 'Quads'] },
+  { name: 'Clean', aliases: ['Squat Clean', 'Full Clean'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes', 'Back'] },
+  { name: 'Power Clean', aliases: ['PC'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Hamstrings', 'Back'] },
+  { name: 'Hang Power Clean', aliases: ['HPC'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Hamstrings', 'Back'] },
+  { name: 'Clean & Jerk', aliases: ['C&J', 'Clean and Jerk', 'CJ'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes', 'Shoulders'] },
+  { name: 'Snatch', aliases: ['Squat Snatch', 'Full Snatch'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Glutes', 'Shoulders'] },
+  { name: 'Power Snatch', aliases: ['PS'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Hamstrings', 'Shoulders'] },
+  { name: 'Thruster', aliases: ['Thrusters'], category: 'Olympic Lifting', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Shoulders'] },
+  { name: 'Barbell Row', aliases: ['Bent Over Row', 'BB Row', 'Pendlay Row'], category: 'Pull', measurement_type: 'weight_reps', primary_muscles: ['Back', 'Biceps'] },
+  { name: 'Weighted Pull-up', aliases: ['Weighted Pull Up', 'Weighted Pullup'], category: 'Pull', measurement_type: 'weight_reps', primary_muscles: ['Back', 'Biceps'] },
+  { name: 'Pull-up', aliases: ['Pull Up', 'Pullup', 'Pull-ups', 'Pullups', 'Kipping Pull-up'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Back', 'Biceps'] },
+  { name: 'Chest-to-Bar Pull-up', aliases: ['C2B', 'CTB', 'Chest to Bar'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Back', 'Biceps'] },
+  { name: 'Bar Muscle-up', aliases: ['BMU', 'Bar Muscle Up'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Back', 'Chest', 'Triceps'] },
+  { name: 'Ring Muscle-up', aliases: ['RMU', 'Muscle-up', 'Muscle Up', 'Ring Muscle Up'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Back', 'Chest', 'Triceps'] },
+  { name: 'Toes-to-Bar', aliases: ['T2B', 'TTB', 'Toes to Bar'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Core'] },
+  { name: 'Handstand Push-up', aliases: ['HSPU', 'Handstand Push Up', 'HSPUs'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Shoulders', 'Triceps'] },
+  { name: 'Push-up', aliases: ['Push Up', 'Pushup', 'Push-ups', 'Pushups'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Chest', 'Triceps'] },
+  { name: 'Ring Dip', aliases: ['Dip', 'Dips', 'Ring Dips'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Chest', 'Triceps'] },
+  { name: 'Rope Climb', aliases: ['Rope Climbs', 'RC'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Back', 'Biceps'] },
+  { name: 'Box Jump', aliases: ['Box Jumps', 'BJ'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Quads', 'Calves', 'Conditioning'] },
+  { name: 'Burpee', aliases: ['Burpees'], category: 'Gymnastics', measurement_type: 'reps_only', primary_muscles: ['Conditioning'] },
+  { name: 'Double-Under', aliases: ['DU', 'DUs', 'Double Unders', 'Double-Unders'], category: 'Cardio', measurement_type: 'reps_only', primary_muscles: ['Calves', 'Conditioning'] },
+  { name: 'Wall Ball', aliases: ['Wall Balls', 'WB', 'Wall Ball Shot'], category: 'Kettlebell', measurement_type: 'weight_reps', primary_muscles: ['Quads', 'Shoulders'] },
+  { name: 'Kettlebell Swing', aliases: ['KB Swing', 'KBS', 'Kettlebell Swings', 'Russian Swing'], category: 'Kettlebell', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Hamstrings'] },
+  { name: 'Dumbbell Snatch', aliases: ['DB Snatch', 'Dumbbell Snatches'], category: 'Kettlebell', measurement_type: 'weight_reps', primary_muscles: ['Glutes', 'Shoulders'] },
+  { name: 'Row', aliases: ['Rowing', 'Row Erg', 'Rower', 'C2 Row'], category: 'Cardio', measurement_type: 'distance_time', primary_muscles: ['Conditioning', 'Back'] },
+  { name: 'Run', aliases: ['Running', 'Running Distance'], category: 'Cardio', measurement_type: 'distance_time', primary_muscles: ['Conditioning'] },
+  { name: 'Bike', aliases: ['Assault Bike', 'Echo Bike', 'Air Bike', 'Bike Erg'], category: 'Cardio', measurement_type: 'distance_time', primary_muscles: ['Conditioning', 'Quads'] },
+  { name: 'Ski Erg', aliases: ['Ski', 'SkiErg'], category: 'Cardio', measurement_type: 'distance_time', primary_muscles: ['Conditioning', 'Back'] },
+  { name: 'Plank', aliases: ['Plank Hold', 'Front Plank'], category: 'Core', measurement_type: 'time_only', primary_muscles: ['Core'] },
+  { name: 'GHD Sit-up', aliases: ['GHD', 'GHD Situp', 'GHD Sit-ups'], category: 'Core', measurement_type: 'reps_only', primary_muscles: ['Core'] },
+  { name: 'Sit-up', aliases: ['Situp', 'Sit-ups', 'AbMat Sit-up'], category: 'Core', measurement_type: 'reps_only', primary_muscles: ['Core'] },
+];
@@ -0,0 +1,57 @@
+import type { ComponentProps } from 'react';
+import type { Ionicons } from '@expo/vector-icons';
+
+export type GoalType = 'sessions' | 'wods' | 'tonnage' | 'lift';
+
+// Recurring goals reset every period; lift goals run until their deadline instead
+export type GoalPeriod = 'week' | 'month';
+
+export type GoalDefinition = {
+  id: GoalType;
+  name: string;
+  description: string;
+  icon: ComponentProps<typeof Ionicons>['name'];
+  // Whether the target is a weight, entered in the user's unit and stored in kg
+  weighted: boolean;
+  recurring: boolean;
+};
+
+export const GOAL_TYPES: GoalDefinition[] = [
+  {
+    id: 'sessions',
+    name: 'Training Days',
+    description: 'Days with at least one workout logged',
+    icon: 'calendar',
+    weighted: false,
+    recurring: true,
+  },
+  {
+    id: 'wods',
+    name: 'WODs',
+    description: 'WODs logged',
+    icon: 'stopwatch',
+    weighted: false,
+    recurring: true,
+  },
+  {
+    id: 'tonnage',
+    name: 'Tonnage',
+    description: 'Weight × reps over all completed sets',
+    icon: 'barbell',
+    weighted: true,
+    recurring: true,
+  },
+  {
+    id: 'lift',
+    name: 'Lift Target',
+    description: 'Complete a set at the target weight by the deadline',
+    icon: 'trophy',
+    weighted: true,
+    recurring: false,
+  },
+];
+
+export const GOAL_PERIODS: { id: GoalPeriod; label: string }[] = [
+  { id: 'week', label: 'Per Week' },
+  { id: 'month', label: 'Per Month' },
+];
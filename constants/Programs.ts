@@ -0,0 +1,78 @@
+export type ProgramType = 'five_three_one' | 'smolov_jr' | 'linear';
+
+export type ProgramDefinition = {
+  id: ProgramType;
+  name: string;
+  description: string;
+  weeks: number;
+  // Days after the start of each week that sessions fall on, e.g. Mon/Wed/Fri
+  day_offsets: number[];
+  // Lifts asked for a training max, in session order; the user may pick
+  // others from lift_options where the program allows it
+  lifts: string[];
+  lift_options?: string[];
+  // What the number entered per lift means
+  max_label: string;
+};
+
+// One prescribed set as a fraction of the training max
+export type SetScheme = {
+  percent: number;
+  reps: number;
+  // Last set "+": as many reps as possible
+  amrap?: boolean;
+};
+
+export const PROGRAMS: ProgramDefinition[] = [
+  {
+    id: 'five_three_one',
+    name: '5/3/1',
+    description: 'Four-week waves of 5s, 3s and 5/3/1 with an AMRAP top set, then a deload. One main lift per day.',
+    weeks: 4,
+    day_offsets: [0, 1, 3, 4],
+    lifts: ['Strict Press', 'Deadlift', 'Bench Press', 'Back Squat'],
+    max_label: 'Training max (90% of 1RM)',
+  },
+  {
+    id: 'smolov_jr',
+    name: 'Smolov Jr',
+    description: 'Three weeks of high-frequency work on a single lift, adding load every week.',
+    weeks: 3,
+    day_offsets: [0, 1, 3, 4],
+    lifts: ['Back Squat'],
+    lift_options: ['Back Squat', 'Bench Press', 'Front Squat', 'Deadlift', 'Strict Press'],
+    max_label: '1RM',
+  },
+  {
+    id: 'linear',
+    name: 'Linear Progression',
+    description: '3 sets of 5 on every lift, three days a week, adding weight each session.',
+    weeks: 6,
+    day_offsets: [0, 2, 4],
+    lifts: ['Back Squat', 'Bench Press', 'Deadlift'],
+    lift_options: ['Back Squat', 'Bench Press', 'Deadlift', 'Strict Press', 'Barbell Row', 'Power Clean', 'Front Squat'],
+    max_label: 'Starting weight',
+  },
+];
+
+// Main work per week, as percentages of the training max
+export const FIVE_THREE_ONE_WEEKS: SetScheme[][] = [
+  [{ percent: 0.65, reps: 5 }, { percent: 0.75, reps: 5 }, { percent: 0.85, reps: 5, amrap: true }],
+  [{ percent: 0.7, reps: 3 }, { percent: 0.8, reps: 3 }, { percent: 0.9, reps: 3, amrap: true }],
+  [{ percent: 0.75, reps: 5 }, { percent: 0.85, reps: 3 }, { percent: 0.95, reps: 1, amrap: true }],
+  [{ percent: 0.4, reps: 5 }, { percent: 0.5, reps: 5 }, { percent: 0.6, reps: 5 }],
+];
+
+// Sets x reps at a percentage of 1RM, same every week
+export const SMOLOV_JR_DAYS: { sets: number; reps: number; percent: number }[] = [
+  { sets: 6, reps: 6, percent: 0.7 },
+  { sets: 7, reps: 5, percent: 0.75 },
+  { sets: 8, reps: 4, percent: 0.8 },
+  { sets: 10, reps: 3, percent: 0.85 },
+];
+
+export const LINEAR_SETS = 3;
+export const LINEAR_REPS = 5;
+
+// Load added per week (Smolov Jr) or per session (linear), in kg
+export const DEFAULT_PROGRAM_INCREMENT = 2.5;
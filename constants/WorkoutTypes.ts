@@ -0,0 +1,18 @@
+// WOD formats offered when logging a workout. Several can be combined, and
+// "Other" lets the user type a format that is not listed.
+export const WORKOUT_TYPES = [
+  'AMRAP',
+  'EMOM',
+  'For Time',
+  'Chipper',
+  'TABATA',
+  'RFT',
+  'Death by',
+  'AFAP',
+  'Other'
+];
+
+export const OTHER_WORKOUT_TYPE = 'Other';
+
+// Combined formats are stored as one string, e.g. "EMOM + AMRAP"
+export const WOD_FORMAT_SEPARATOR = ' + ';
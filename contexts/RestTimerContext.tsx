@@ -0,0 +1,165 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import * as Notifications from 'expo-notifications';
+
+export interface RestTimer {
+  exercise: string;
+  duration: number;
+  // Epoch ms, so the countdown stays right while the app is backgrounded
+  endsAt: number;
+  // Kept with the timer so it can still be cancelled after a restart
+  notificationId?: string;
+}
+
+interface RestTimerContextType {
+  timer: RestTimer | null;
+  remaining: number;
+  startRestTimer: (exercise: string, seconds: number) => Promise<void>;
+  adjustRestTimer: (seconds: number) => Promise<void>;
+  stopRestTimer: () => Promise<void>;
+}
+
+const STORAGE_KEY = 'restTimer';
+
+// The overlay covers rest ending in the foreground; the notification is for
+// when the app is in the background
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: false,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+const getRemaining = (timer: RestTimer | null) =>
+  timer ? Math.max(0, Math.ceil((timer.endsAt - Date.now()) / 1000)) : 0;
+
+const RestTimerContext = createContext<RestTimerContextType | undefined>(undefined);
+
+export function RestTimerProvider({ children }: { children: React.ReactNode }) {
+  const [timer, setTimer] = useState<RestTimer | null>(null);
+  const [remaining, setRemaining] = useState(0);
+
+  const cancelNotification = async () => {
+    if (!timer?.notificationId) return;
+    try {
+      await Notifications.cancelScheduledNotificationAsync(timer.notificationId);
+    } catch (error) {
+      console.error('Error cancelling rest notification:', error);
+    }
+  };
+
+  // Replaces the running timer's notification; returns the new one's id
+  const scheduleNotification = async (next: RestTimer): Promise<string | undefined> => {
+    await cancelNotification();
+    if (Platform.OS === 'web') return undefined;
+    try {
+      const { granted } = await Notifications.requestPermissionsAsync();
+      if (!granted) return undefined;
+      return await Notifications.scheduleNotificationAsync({
+        content: {
+          title: 'Rest over',
+          body: `Time for your next set of ${next.exercise}`,
+          sound: true,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+          seconds: Math.max(1, getRemaining(next)),
+        },
+      });
+    } catch (error) {
+      console.error('Error scheduling rest notification:', error);
+      return undefined;
+    }
+  };
+
+  const saveTimer = async (next: RestTimer | null) => {
+    setTimer(next);
+    setRemaining(getRemaining(next));
+    try {
+      if (next) {
+        await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving rest timer:', error);
+    }
+  };
+
+  // Pick a running timer back up after the app restarts
+  useEffect(() => {
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then(saved => {
+        const restored: RestTimer | null = saved ? JSON.parse(saved) : null;
+        if (restored && getRemaining(restored) > 0) {
+          setTimer(restored);
+          setRemaining(getRemaining(restored));
+        } else if (restored) {
+          AsyncStorage.removeItem(STORAGE_KEY);
+        }
+      })
+      .catch(error => console.error('Error loading rest timer:', error));
+  }, []);
+
+  // The notification fires on its own at the same moment, so only the
+  // in-app side needs clearing
+  const finishTimer = useCallback(async () => {
+    setTimer(null);
+    setRemaining(0);
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+      if (Platform.OS !== 'web') {
+        await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (error) {
+      console.error('Error finishing rest timer:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => {
+      const left = getRemaining(timer);
+      setRemaining(left);
+      if (left === 0) finishTimer();
+    }, 250);
+    return () => clearInterval(interval);
+  }, [timer, finishTimer]);
+
+  const startRestTimer = async (exercise: string, seconds: number) => {
+    const next: RestTimer = { exercise, duration: seconds, endsAt: Date.now() + seconds * 1000 };
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    await saveTimer({ ...next, notificationId: await scheduleNotification(next) });
+  };
+
+  const adjustRestTimer = async (seconds: number) => {
+    if (!timer) return;
+    const endsAt = Math.max(Date.now(), timer.endsAt + seconds * 1000);
+    const next = { ...timer, duration: Math.max(0, timer.duration + seconds), endsAt };
+    await saveTimer({ ...next, notificationId: await scheduleNotification(next) });
+  };
+
+  const stopRestTimer = async () => {
+    await cancelNotification();
+    await saveTimer(null);
+  };
+
+  return (
+    <RestTimerContext.Provider value={{ timer, remaining, startRestTimer, adjustRestTimer, stopRestTimer }}>
+      {children}
+    </RestTimerContext.Provider>
+  );
+}
+
+export function useRestTimer() {
+  const context = useContext(RestTimerContext);
+  if (context === undefined) {
+    throw new Error('useRestTimer must be used within a RestTimerProvider');
+  }
+  return context;
+}
@@ -1,11 +1,27 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useColorScheme } from 'react-native';
+import { OneRepMaxFormula } from '../app/utils/oneRepMax';
+import { DEFAULT_PLATE_INVENTORY, PlateInventory, WeightUnit } from '../app/utils/plates';
+import { DEFAULT_REST_SECONDS } from '../app/utils/restTimer';
+import { DEFAULT_WEEKLY_GOAL } from '../app/utils/streaks';
 
-interface Settings {
+export interface Settings {
   useMetric: boolean;
   showRestTimer: boolean;
+  defaultRestSeconds: number;
+  // Seconds by normalized exercise name, overriding the default
+  restDurations: Record<string, number>;
   darkMode: boolean;
+  oneRepMaxFormula: OneRepMaxFormula;
+  // Kept per unit so switching systems doesn't lose either setup
+  plateInventory: Record<WeightUnit, PlateInventory>;
+  // Logs tab: cards under day headers, or one flat list
+  logsView: 'grouped' | 'flat';
+  // Training days per week for the weekly streak
+  weeklyGoal: number;
+  // Planned rest weekdays (0 = Sunday) that don't break the day streak
+  restDays: number[];
 }
 
 interface SettingsContextType {
@@ -20,7 +36,14 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [settings, setSettings] = useState<Settings>({
     useMetric: true,
     showRestTimer: true,
+    defaultRestSeconds: DEFAULT_REST_SECONDS,
+    restDurations: {},
     darkMode: systemColorScheme === 'dark',
+    oneRepMaxFormula: 'epley',
+    plateInventory: DEFAULT_PLATE_INVENTORY,
+    logsView: 'grouped',
+    weeklyGoal: DEFAULT_WEEKLY_GOAL,
+    restDays: [],
   });
 
   useEffect(() => {
@@ -31,7 +54,8 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     try {
       const savedSettings = await AsyncStorage.getItem('userSettings');
       if (savedSettings) {
-        setSettings(JSON.parse(savedSettings));
+        // Merge so settings added after the user last saved keep their defaults
+        setSettings(prev => ({ ...prev, ...JSON.parse(savedSettings) }));
       }
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -61,4 +85,4 @@ export function useSettings() {
     throw new Error('useSettings must be used within a SettingsProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,5 @@
+// Date tests assert local days and offsets, so pin a zone that's away from
+// UTC and observes DST rather than depend on the machine running them
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};